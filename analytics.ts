@@ -1,51 +1,206 @@
-// Create a new analytics module
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import type { Job, RedisClient } from './jobStore';
 
-export class Analytics {
-    private static data = {
-        totalConverts: 0,
-        charactersProcessed: 0,
-        byVoice: {},
-        byDate: {},
-        averageProcessingTime: 0,
-        totalProcessingTime: 0
-    };
-    
-    static trackConversion(text: string, voice: string, processingTime: number) {
-        this.data.totalConverts++;
-        this.data.charactersProcessed += text.length;
-        
-        // Track by voice
-        if (!this.data.byVoice[voice]) {
-            this.data.byVoice[voice] = 0;
-        }
-        this.data.byVoice[voice]++;
-        
-        // Track by date
-        const today = new Date().toISOString().split('T')[0];
-        if (!this.data.byDate[today]) {
-            this.data.byDate[today] = 0;
+// One finished conversion, as recorded for usage reporting
+export interface ConversionRecord {
+    jobId: string;
+    timestamp: string;              // when the job finished
+    user: string | null;            // null when authentication is off
+    state: 'completed' | 'failed' | 'cancelled';
+    errorCode?: string;
+    voice: string;
+    format: string;
+    characters: number;             // length of the submitted text
+    spokenCharacters: number;       // length of the text sent to the speech API (differs for summaries and translations)
+    chunks: number;
+    skippedChunks: number;
+    audioSeconds?: number;
+    processingMs: number;           // from the start of processing to the end; 0 for jobs cancelled while queued
+    queuedMs: number;
+    language?: string;
+    summary?: string;
+}
+
+export interface AnalyticsFilter {
+    from: Date;
+    to: Date;
+    user?: string;
+    voice?: string;
+    format?: string;
+}
+
+export interface UsageTotals {
+    conversions: number;
+    completed: number;
+    failed: number;
+    cancelled: number;
+    characters: number;
+    spokenCharacters: number;
+    chunks: number;
+    skippedChunks: number;
+    audioSeconds: number;
+    averageProcessingMs: number;
+}
+
+// Records are only ever appended; queries read the ones inside a time range
+export interface AnalyticsStore {
+    append(record: ConversionRecord): Promise<void>;
+    query(from: Date, to: Date): Promise<ConversionRecord[]>;
+}
+
+// A sorted set scored by finish time, so date ranges are a single ZRANGEBYSCORE
+export class RedisAnalyticsStore implements AnalyticsStore {
+    private client: RedisClient;
+    private static KEY = 'analytics:conversions';
+
+    constructor(client: RedisClient) {
+        this.client = client;
+    }
+
+    async append(record: ConversionRecord): Promise<void> {
+        await this.client.zAdd(RedisAnalyticsStore.KEY, { score: Date.parse(record.timestamp), value: JSON.stringify(record) });
+    }
+
+    async query(from: Date, to: Date): Promise<ConversionRecord[]> {
+        const members = await this.client.zRangeByScore(RedisAnalyticsStore.KEY, from.getTime(), to.getTime());
+        return members.map(member => JSON.parse(member) as ConversionRecord);
+    }
+}
+
+// Fallback when REDIS_URL is not configured: one JSON record per line, appended as conversions finish
+export class FileAnalyticsStore implements AnalyticsStore {
+    private filePath: string;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    async append(record: ConversionRecord): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.appendFile(this.filePath, JSON.stringify(record) + '\n');
+    }
+
+    async query(from: Date, to: Date): Promise<ConversionRecord[]> {
+        if (!fs.existsSync(this.filePath)) return [];
+        const records: ConversionRecord[] = [];
+        const lines = readline.createInterface({ input: fs.createReadStream(this.filePath), crlfDelay: Infinity });
+        for await (const line of lines) {
+            if (!line.trim()) continue;
+            try {
+                const record = JSON.parse(line) as ConversionRecord;
+                const time = Date.parse(record.timestamp);
+                if (time >= from.getTime() && time <= to.getTime()) records.push(record);
+            } catch {
+                // A line cut short by a crash; the rest of the file is still usable
+            }
         }
-        this.data.byDate[today]++;
-        
-        // Track processing time
-        this.data.totalProcessingTime += processingTime;
-        this.data.averageProcessingTime = this.data.totalProcessingTime / this.data.totalConverts;
-        
-        // Persist analytics data
-        this.saveData();
-    }
-    
-    static getStats() {
+        return records;
+    }
+}
+
+function emptyTotals(): UsageTotals {
+    return {
+        conversions: 0, completed: 0, failed: 0, cancelled: 0, characters: 0, spokenCharacters: 0,
+        chunks: 0, skippedChunks: 0, audioSeconds: 0, averageProcessingMs: 0,
+    };
+}
+
+function addToTotals(totals: UsageTotals, record: ConversionRecord) {
+    // The running average is kept exact by weighting the previous average with the previous count
+    totals.averageProcessingMs = (totals.averageProcessingMs * totals.conversions + record.processingMs) / (totals.conversions + 1);
+    totals.conversions++;
+    totals[record.state]++;
+    totals.characters += record.characters;
+    totals.spokenCharacters += record.spokenCharacters;
+    totals.chunks += record.chunks;
+    totals.skippedChunks += record.skippedChunks;
+    totals.audioSeconds += record.audioSeconds || 0;
+}
+
+function roundTotals(totals: UsageTotals): UsageTotals {
+    return { ...totals, audioSeconds: Math.round(totals.audioSeconds * 10) / 10, averageProcessingMs: Math.round(totals.averageProcessingMs) };
+}
+
+export class Analytics {
+    private store: AnalyticsStore;
+
+    constructor(store: AnalyticsStore) {
+        this.store = store;
+    }
+
+    async trackConversion(job: Job): Promise<void> {
+        await this.store.append(Analytics.toRecord(job));
+    }
+
+    static toRecord(job: Job): ConversionRecord {
+        const finishedAt = Date.parse(job.finishedAt || job.updatedAt);
+        const startedAt = job.startedAt ? Date.parse(job.startedAt) : finishedAt;
         return {
-            ...this.data,
-            // Add more derived stats
-            popularVoice: Object.entries(this.data.byVoice)
-                .sort((a, b) => b[1] - a[1])[0]?.[0] || 'none'
+            jobId: job.id,
+            timestamp: new Date(finishedAt).toISOString(),
+            user: job.user ?? null,
+            state: job.state === 'completed' || job.state === 'cancelled' ? job.state : 'failed',
+            errorCode: job.error?.code,
+            voice: job.voice,
+            format: job.format,
+            characters: job.characters,
+            spokenCharacters: job.spokenText !== undefined ? job.spokenText.length : job.characters,
+            chunks: job.completedChunks,
+            skippedChunks: job.skippedChunks,
+            audioSeconds: job.audioSeconds,
+            processingMs: finishedAt - startedAt,
+            queuedMs: startedAt - Date.parse(job.createdAt),
+            language: job.language,
+            summary: job.summary,
         };
     }
-    
-    private static saveData() {
-        // Save to file or database
-        // For simplicity, we're just keeping in memory here
+
+    // Totals for the range plus breakdowns by voice, user, format, day and failure code
+    async getStats(filter: AnalyticsFilter) {
+        const records = (await this.store.query(filter.from, filter.to)).filter(record =>
+            (filter.user === undefined || (record.user ?? '') === filter.user) &&
+            (filter.voice === undefined || record.voice === filter.voice) &&
+            (filter.format === undefined || record.format === filter.format));
+
+        const totals = emptyTotals();
+        // Keys come from stored records (voice names, user names), so they are gathered in Maps: a key such as
+        // "__proto__" must not reach an object's prototype
+        const byVoice = new Map<string, UsageTotals>();
+        const byUser = new Map<string, UsageTotals>();
+        const byFormat = new Map<string, UsageTotals>();
+        const byDay = new Map<string, UsageTotals>();
+        const failuresByCode = new Map<string, number>();
+        const add = (group: Map<string, UsageTotals>, key: string, record: ConversionRecord) => {
+            if (!group.has(key)) group.set(key, emptyTotals());
+            addToTotals(group.get(key)!, record);
+        };
+        for (const record of records) {
+            addToTotals(totals, record);
+            add(byVoice, record.voice, record);
+            add(byUser, record.user ?? '', record);
+            add(byFormat, record.format, record);
+            add(byDay, record.timestamp.slice(0, 10), record);
+            if (record.state === 'failed') {
+                const code = record.errorCode || 'UNKNOWN';
+                failuresByCode.set(code, (failuresByCode.get(code) || 0) + 1);
+            }
+        }
+        // Object.fromEntries defines own properties, so even "__proto__" comes out as a plain key
+        const round = (group: Map<string, UsageTotals>) =>
+            Object.fromEntries([...group].map(([key, value]) => [key, roundTotals(value)]));
+
+        return {
+            from: filter.from.toISOString(),
+            to: filter.to.toISOString(),
+            totals: roundTotals(totals),
+            popularVoice: [...byVoice].sort((a, b) => b[1].conversions - a[1].conversions)[0]?.[0] || 'none',
+            byVoice: round(byVoice),
+            byUser: round(byUser),   // "" collects conversions made without a signed-in user
+            byFormat: round(byFormat),
+            byDay: round(byDay),
+            failuresByCode: Object.fromEntries(failuresByCode),
+        };
     }
 }
@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import crypto from 'crypto';
+import type { RedisClient } from './jobStore';
+
+// generate: start conversions, follow their jobs and edit the caller's dictionary; history: read past conversions;
+// admin: the /admin endpoints and the global dictionary
+export const TOKEN_SCOPES = ['generate', 'history', 'admin'] as const;
+export type TokenScope = typeof TOKEN_SCOPES[number];
+
+export interface ApiToken {
+    id: string;
+    userId: string;
+    name: string;
+    scopes: TokenScope[];
+    tokenHash: string;          // SHA-256 of the secret part, hex
+    createdAt: string;
+    expiresAt?: string;
+    lastUsedAt?: string;
+}
+
+// What the API returns about a token: everything except the hash
+export type PublicApiToken = Omit<ApiToken, 'tokenHash'>;
+
+export class ApiTokenError extends Error {
+    public statusCode: number;
+    public errorCode: string;
+
+    constructor(message: string, statusCode: number = 400, errorCode: string = 'INVALID_TOKEN_REQUEST') {
+        super(message);
+        this.name = 'ApiTokenError';
+        this.statusCode = statusCode;
+        this.errorCode = errorCode;
+    }
+}
+
+export interface ApiTokenStore {
+    list(userId: string): Promise<ApiToken[]>;
+    get(id: string): Promise<ApiToken | null>;
+    save(token: ApiToken): Promise<void>;
+    delete(id: string): Promise<boolean>;
+}
+
+// All tokens in one hash, keyed by ID
+export class RedisApiTokenStore implements ApiTokenStore {
+    private client: RedisClient;
+    private static KEY = 'api-tokens';
+
+    constructor(client: RedisClient) {
+        this.client = client;
+    }
+
+    async list(userId: string): Promise<ApiToken[]> {
+        const tokens = await this.client.hGetAll(RedisApiTokenStore.KEY);
+        return Object.values(tokens).map(raw => JSON.parse(raw) as ApiToken).filter(token => token.userId === userId);
+    }
+
+    async get(id: string): Promise<ApiToken | null> {
+        const raw = await this.client.hGet(RedisApiTokenStore.KEY, id);
+        return raw ? JSON.parse(raw) as ApiToken : null;
+    }
+
+    async save(token: ApiToken): Promise<void> {
+        await this.client.hSet(RedisApiTokenStore.KEY, token.id, JSON.stringify(token));
+    }
+
+    async delete(id: string): Promise<boolean> {
+        return (await this.client.hDel(RedisApiTokenStore.KEY, id)) > 0;
+    }
+}
+
+// Fallback when REDIS_URL is not configured: all tokens in one JSON file, rewritten on each change
+export class FileApiTokenStore implements ApiTokenStore {
+    private filePath: string;
+    private tokens: ApiToken[] | null = null;
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    private async load(): Promise<ApiToken[]> {
+        if (!this.tokens) {
+            try {
+                this.tokens = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8')).tokens || [];
+            } catch (error: any) {
+                if (error.code !== 'ENOENT') {
+                    console.error(`Could not read the API tokens at ${this.filePath}:`, error.message);
+                }
+                this.tokens = [];
+            }
+        }
+        return this.tokens!;
+    }
+
+    // Writes go through a temporary file and are serialized, so a crash never leaves half a file behind
+    private persist(): Promise<void> {
+        this.writing = this.writing.then(async () => {
+            await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+            const temporary = `${this.filePath}.${process.pid}.tmp`;
+            await fs.promises.writeFile(temporary, JSON.stringify({ tokens: this.tokens }, null, 2), { mode: 0o600 });
+            await fs.promises.rename(temporary, this.filePath);
+        });
+        return this.writing;
+    }
+
+    async list(userId: string): Promise<ApiToken[]> {
+        return (await this.load()).filter(token => token.userId === userId);
+    }
+
+    async get(id: string): Promise<ApiToken | null> {
+        return (await this.load()).find(token => token.id === id) || null;
+    }
+
+    async save(token: ApiToken): Promise<void> {
+        const tokens = await this.load();
+        const index = tokens.findIndex(existing => existing.id === token.id);
+        if (index >= 0) {
+            tokens[index] = token;
+        } else {
+            tokens.push(token);
+        }
+        await this.persist();
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const tokens = await this.load();
+        const index = tokens.findIndex(existing => existing.id === id);
+        if (index < 0) return false;
+        tokens.splice(index, 1);
+        await this.persist();
+        return true;
+    }
+}
+
+// Tokens look like "rsp_<16 hex ID>_<43 base64url secret>". The ID finds the record; only the secret's hash is stored.
+const TOKEN_PATTERN = /^rsp_([0-9a-f]{16})_([A-Za-z0-9_-]{43})$/;
+const MAX_TOKENS_PER_USER = 20;
+// lastUsedAt is only rewritten when it is older than this, so busy tokens don't cause a write per request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+function hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+export function toPublicToken({ tokenHash, ...token }: ApiToken): PublicApiToken {
+    return token;
+}
+
+export class ApiTokens {
+    private store: ApiTokenStore;
+
+    constructor(store: ApiTokenStore) {
+        this.store = store;
+    }
+
+    static validateScopes(scopes: unknown): TokenScope[] {
+        if (scopes === undefined) return ['generate'];
+        if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(scope => TOKEN_SCOPES.includes(scope))) {
+            throw new ApiTokenError(`"scopes" must be a non-empty list of: ${TOKEN_SCOPES.join(', ')}.`, 400, 'INVALID_SCOPES');
+        }
+        return [...new Set(scopes as TokenScope[])];
+    }
+
+    async list(userId: string): Promise<ApiToken[]> {
+        return (await this.store.list(userId)).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    // Returns the token itself, which is only ever shown this once, together with its record
+    async create(userId: string, input: { name?: unknown; scopes?: unknown; expiresInDays?: unknown }, allowAdmin: boolean) {
+        const name = typeof input.name === 'string' ? input.name.trim() : '';
+        if (!name || name.length > 100) {
+            throw new ApiTokenError('Give the token a name of up to 100 characters.', 400, 'INVALID_TOKEN_NAME');
+        }
+        const scopes = ApiTokens.validateScopes(input.scopes);
+        if (scopes.includes('admin') && !allowAdmin) {
+            throw new ApiTokenError('Only administrators can create tokens with the admin scope.', 403, 'SCOPE_NOT_ALLOWED');
+        }
+        let expiresAt: string | undefined;
+        if (input.expiresInDays !== undefined && input.expiresInDays !== null && input.expiresInDays !== '') {
+            const days = Number(input.expiresInDays);
+            if (!Number.isInteger(days) || days < 1 || days > 3650) {
+                throw new ApiTokenError('"expiresInDays" must be a whole number of days between 1 and 3650.', 400, 'INVALID_EXPIRY');
+            }
+            expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+        }
+        if ((await this.store.list(userId)).length >= MAX_TOKENS_PER_USER) {
+            throw new ApiTokenError(`You can have at most ${MAX_TOKENS_PER_USER} API tokens. Revoke one first.`, 409, 'TOO_MANY_TOKENS');
+        }
+        const id = crypto.randomBytes(8).toString('hex');
+        const secret = crypto.randomBytes(32).toString('base64url');
+        const record: ApiToken = { id, userId, name, scopes, tokenHash: hashSecret(secret), createdAt: new Date().toISOString(), expiresAt };
+        await this.store.save(record);
+        return { token: `rsp_${id}_${secret}`, record };
+    }
+
+    async revoke(userId: string, id: string): Promise<void> {
+        const token = await this.store.get(id);
+        if (!token || token.userId !== userId) {
+            throw new ApiTokenError('API token not found.', 404, 'TOKEN_NOT_FOUND');
+        }
+        await this.store.delete(id);
+    }
+
+    // The record for a presented token, or null when it is unknown, wrong or expired
+    async verify(presented: string): Promise<ApiToken | null> {
+        const match = TOKEN_PATTERN.exec(presented);
+        if (!match) return null;
+        const token = await this.store.get(match[1]);
+        if (!token) return null;
+        const expected = Buffer.from(token.tokenHash, 'hex');
+        const actual = Buffer.from(hashSecret(match[2]), 'hex');
+        if (!crypto.timingSafeEqual(actual, expected)) return null;
+        if (token.expiresAt && Date.parse(token.expiresAt) <= Date.now()) return null;
+        if (!token.lastUsedAt || Date.now() - Date.parse(token.lastUsedAt) > LAST_USED_RESOLUTION_MS) {
+            token.lastUsedAt = new Date().toISOString();
+            await this.store.save(token);
+        }
+        return token;
+    }
+}
@@ -0,0 +1,343 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import crypto from 'crypto';
+import { commandOptions } from 'redis';
+import type { RedisClient } from './jobStore';
+import type { AudioFormat } from './audioUtils';
+import type { SpeechRequestOptions, TtsProvider, VoiceOptions } from './ttsProvider';
+
+export interface AudioCacheStats {
+    backend: 'disk' | 'redis';
+    entries: number;
+    bytes: number;
+    maxBytes: number;
+    ttlSeconds: number;
+    hits: number;
+    misses: number;
+    writes: number;
+    evictions: number;
+}
+
+export interface AudioCacheOptions {
+    maxBytes?: number;      // default: AUDIO_CACHE_MAX_MB or 500 MB
+    ttlSeconds?: number;    // default: AUDIO_CACHE_TTL_SECONDS or 7 days
+}
+
+// Synthesized audio by content hash. Entries expire ttlSeconds after they were stored; when the cache grows
+// past maxBytes the least recently used entries are evicted first.
+export interface AudioCache {
+    get(key: string): Promise<Buffer | null>;
+    set(key: string, audio: Buffer): Promise<void>;
+    stats(): Promise<AudioCacheStats>;
+    clear(): Promise<void>;
+}
+
+export interface AudioCacheKeyInput {
+    provider: string;
+    model: string;
+    text: string;
+    voice: string;
+    instructions: string;
+    format: AudioFormat;
+    speed?: number;
+    pitch?: number;     // pitch is sent as part of the instructions, so it changes the audio too
+}
+
+function configuredMaxBytes(): number {
+    return parseInt(process.env.AUDIO_CACHE_MAX_MB || '500', 10) * 1024 * 1024;
+}
+
+function configuredTtlSeconds(): number {
+    return parseInt(process.env.AUDIO_CACHE_TTL_SECONDS || String(7 * 24 * 60 * 60), 10);
+}
+
+// Whitespace differences don't change the speech, so they don't change the key either
+export function audioCacheKey(input: AudioCacheKeyInput): string {
+    return crypto.createHash('sha256').update(JSON.stringify([
+        input.provider,
+        input.model,
+        input.format,
+        input.voice,
+        input.instructions.trim(),
+        input.speed ?? 1,
+        input.pitch ?? 0,
+        input.text.replace(/\s+/g, ' ').trim(),
+    ])).digest('hex');
+}
+
+// One file per entry under the cache directory. The index of sizes and last use is rebuilt from the
+// directory on first access, so the cache survives restarts.
+export class DiskAudioCache implements AudioCache {
+    private dir: string;
+    private maxBytes: number;
+    private ttlSeconds: number;
+    private index: Map<string, { size: number; storedAt: number; usedAt: number }> | null = null;
+    private totalBytes = 0;
+    private counters = { hits: 0, misses: 0, writes: 0, evictions: 0 };
+
+    constructor(dir: string, options: AudioCacheOptions = {}) {
+        this.dir = dir;
+        this.maxBytes = options.maxBytes ?? configuredMaxBytes();
+        this.ttlSeconds = options.ttlSeconds ?? configuredTtlSeconds();
+    }
+
+    private async load() {
+        if (this.index) return this.index;
+        const index = new Map<string, { size: number; storedAt: number; usedAt: number }>();
+        await fs.promises.mkdir(this.dir, { recursive: true });
+        for (const name of await fs.promises.readdir(this.dir)) {
+            if (!/^[0-9a-f]{64}$/.test(name)) continue; // skips interrupted writes
+            const stats = await fs.promises.stat(path.join(this.dir, name)).catch(() => null);
+            if (stats?.isFile()) {
+                index.set(name, { size: stats.size, storedAt: stats.mtimeMs, usedAt: stats.atimeMs });
+            }
+        }
+        // Another request may have loaded the index while this one was reading the directory
+        if (!this.index) {
+            this.index = index;
+            this.totalBytes = [...index.values()].reduce((sum, entry) => sum + entry.size, 0);
+        }
+        return this.index;
+    }
+
+    private async remove(key: string) {
+        const entry = this.index?.get(key);
+        if (!entry) return;
+        this.index!.delete(key);
+        this.totalBytes -= entry.size;
+        await fs.promises.unlink(path.join(this.dir, key)).catch(() => undefined);
+    }
+
+    private isExpired(entry: { storedAt: number }): boolean {
+        return Date.now() - entry.storedAt > this.ttlSeconds * 1000;
+    }
+
+    async get(key: string): Promise<Buffer | null> {
+        const index = await this.load();
+        const entry = index.get(key);
+        if (!entry || this.isExpired(entry)) {
+            if (entry) await this.remove(key);
+            this.counters.misses++;
+            return null;
+        }
+        try {
+            const audio = await fs.promises.readFile(path.join(this.dir, key));
+            entry.usedAt = Date.now();
+            this.counters.hits++;
+            return audio;
+        } catch {
+            await this.remove(key);
+            this.counters.misses++;
+            return null;
+        }
+    }
+
+    async set(key: string, audio: Buffer): Promise<void> {
+        if (audio.length > this.maxBytes) return;
+        const index = await this.load();
+        const temporary = path.join(this.dir, `${key}.${process.pid}.tmp`);
+        await fs.promises.writeFile(temporary, audio);
+        await fs.promises.rename(temporary, path.join(this.dir, key));
+        const now = Date.now();
+        this.totalBytes += audio.length - (index.get(key)?.size ?? 0);
+        index.set(key, { size: audio.length, storedAt: now, usedAt: now });
+        this.counters.writes++;
+        await this.evict();
+    }
+
+    // Expired entries go first, then the least recently used until the cache is under its size limit
+    private async evict() {
+        const index = await this.load();
+        for (const [key, entry] of index) {
+            if (this.isExpired(entry)) {
+                await this.remove(key);
+                this.counters.evictions++;
+            }
+        }
+        if (this.totalBytes <= this.maxBytes) return;
+        const byLastUse = [...index.entries()].sort((a, b) => a[1].usedAt - b[1].usedAt);
+        for (const [key] of byLastUse) {
+            if (this.totalBytes <= this.maxBytes) break;
+            await this.remove(key);
+            this.counters.evictions++;
+        }
+    }
+
+    async stats(): Promise<AudioCacheStats> {
+        const index = await this.load();
+        return {
+            backend: 'disk',
+            entries: index.size,
+            bytes: this.totalBytes,
+            maxBytes: this.maxBytes,
+            ttlSeconds: this.ttlSeconds,
+            ...this.counters,
+        };
+    }
+
+    async clear(): Promise<void> {
+        const index = await this.load();
+        for (const key of [...index.keys()]) {
+            await this.remove(key);
+        }
+    }
+}
+
+// Audio under audio:<hash> with a Redis expiry. A sorted set of last use times drives LRU eviction and a
+// hash of entry sizes keeps the byte count; counters are shared by every instance.
+export class RedisAudioCache implements AudioCache {
+    private client: RedisClient;
+    private maxBytes: number;
+    private ttlSeconds: number;
+    private static LRU_KEY = 'audio-cache:lru';
+    private static SIZES_KEY = 'audio-cache:sizes';
+    private static BYTES_KEY = 'audio-cache:bytes';
+    private static STATS_KEY = 'audio-cache:stats';
+
+    constructor(client: RedisClient, options: AudioCacheOptions = {}) {
+        this.client = client;
+        this.maxBytes = options.maxBytes ?? configuredMaxBytes();
+        this.ttlSeconds = options.ttlSeconds ?? configuredTtlSeconds();
+    }
+
+    async get(key: string): Promise<Buffer | null> {
+        const audio = await this.client.get(commandOptions({ returnBuffers: true }), `audio:${key}`);
+        if (!audio) {
+            await this.client.hIncrBy(RedisAudioCache.STATS_KEY, 'misses', 1);
+            return null;
+        }
+        await this.client.multi()
+            .zAdd(RedisAudioCache.LRU_KEY, { score: Date.now(), value: key })
+            .hIncrBy(RedisAudioCache.STATS_KEY, 'hits', 1)
+            .exec();
+        return audio;
+    }
+
+    async set(key: string, audio: Buffer): Promise<void> {
+        if (audio.length > this.maxBytes) return;
+        const previous = Number(await this.client.hGet(RedisAudioCache.SIZES_KEY, key) || 0);
+        await this.client.multi()
+            .set(`audio:${key}`, audio, { EX: this.ttlSeconds })
+            .zAdd(RedisAudioCache.LRU_KEY, { score: Date.now(), value: key })
+            .hSet(RedisAudioCache.SIZES_KEY, key, audio.length)
+            .incrBy(RedisAudioCache.BYTES_KEY, audio.length - previous)
+            .hIncrBy(RedisAudioCache.STATS_KEY, 'writes', 1)
+            .exec();
+        await this.evict();
+    }
+
+    private async forget(keys: string[]) {
+        if (keys.length === 0) return;
+        const sizes = await this.client.hmGet(RedisAudioCache.SIZES_KEY, keys);
+        const bytes = sizes.reduce((sum, size) => sum + Number(size || 0), 0);
+        await this.client.multi()
+            .del(keys.map(key => `audio:${key}`))
+            .zRem(RedisAudioCache.LRU_KEY, keys)
+            .hDel(RedisAudioCache.SIZES_KEY, keys)
+            .decrBy(RedisAudioCache.BYTES_KEY, bytes)
+            .exec();
+    }
+
+    // Entries unused for longer than the TTL have certainly expired in Redis already; only their bookkeeping
+    // is left. After that, the least recently used entries go until the cache is under its size limit.
+    private async evict() {
+        const expired = await this.client.zRangeByScore(RedisAudioCache.LRU_KEY, 0, Date.now() - this.ttlSeconds * 1000);
+        await this.forget(expired);
+        while (Number(await this.client.get(RedisAudioCache.BYTES_KEY) || 0) > this.maxBytes) {
+            const oldest = await this.client.zRange(RedisAudioCache.LRU_KEY, 0, 9);
+            if (oldest.length === 0) break;
+            await this.forget(oldest);
+            await this.client.hIncrBy(RedisAudioCache.STATS_KEY, 'evictions', oldest.length);
+        }
+    }
+
+    async stats(): Promise<AudioCacheStats> {
+        const [entries, bytes, counters] = await Promise.all([
+            this.client.zCard(RedisAudioCache.LRU_KEY),
+            this.client.get(RedisAudioCache.BYTES_KEY),
+            this.client.hGetAll(RedisAudioCache.STATS_KEY),
+        ]);
+        return {
+            backend: 'redis',
+            entries,
+            bytes: Number(bytes || 0),
+            maxBytes: this.maxBytes,
+            ttlSeconds: this.ttlSeconds,
+            hits: Number(counters.hits || 0),
+            misses: Number(counters.misses || 0),
+            writes: Number(counters.writes || 0),
+            evictions: Number(counters.evictions || 0),
+        };
+    }
+
+    async clear(): Promise<void> {
+        await this.forget(await this.client.zRange(RedisAudioCache.LRU_KEY, 0, -1));
+    }
+}
+
+// Wraps a provider so identical requests are answered from the cache. Cache failures are logged and
+// otherwise ignored: a broken cache costs money, not audio.
+export class CachedTtsProvider implements TtsProvider {
+    public readonly name: string;
+    public readonly model: string;
+    public readonly formats: readonly AudioFormat[];
+    private provider: TtsProvider;
+    private cache: AudioCache;
+
+    constructor(provider: TtsProvider, cache: AudioCache) {
+        this.provider = provider;
+        this.cache = cache;
+        this.name = provider.name;
+        this.model = provider.model;
+        this.formats = provider.formats;
+    }
+
+    async generateSpeech(
+        text: string,
+        voice: string = "alloy",
+        instructions: string = "Speak in a neutral tone.",
+        voiceOptions: VoiceOptions = {},
+        output: AudioFormat = "mp3",
+        requestOptions: SpeechRequestOptions = {}
+    ): Promise<Buffer> {
+        const key = audioCacheKey({
+            provider: this.name,
+            model: this.model,
+            text,
+            voice,
+            instructions,
+            format: output,
+            speed: voiceOptions.speed,
+            pitch: voiceOptions.pitch,
+        });
+        const cached = await this.cache.get(key).catch(error => {
+            console.error('Audio cache read failed:', error.message);
+            return null;
+        });
+        if (cached) {
+            console.log(`Audio cache hit for ${text.length} characters (voice: ${voice})`);
+            return cached;
+        }
+        const audio = await this.provider.generateSpeech(text, voice, instructions, voiceOptions, output, requestOptions);
+        await this.cache.set(key, audio).catch(error => console.error('Audio cache write failed:', error.message));
+        return audio;
+    }
+}
+
+// AUDIO_CACHE selects the backend: "redis", "disk" or "off" (default: redis when connected, disk otherwise)
+export function createAudioCache(redisClient: RedisClient | null, writableDir: string): AudioCache | null {
+    const backend = (process.env.AUDIO_CACHE || (redisClient ? 'redis' : 'disk')).toLowerCase();
+    switch (backend) {
+        case 'off':
+        case 'false':
+            return null;
+        case 'redis':
+            if (redisClient) return new RedisAudioCache(redisClient);
+            console.warn('AUDIO_CACHE=redis but REDIS_URL is not configured. Caching audio on disk instead.');
+            return new DiskAudioCache(path.join(writableDir, 'audio-cache'));
+        case 'disk':
+            return new DiskAudioCache(path.join(writableDir, 'audio-cache'));
+        default:
+            throw new Error(`Unknown AUDIO_CACHE "${backend}". Expected one of: redis, disk, off.`);
+    }
+}
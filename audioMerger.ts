@@ -0,0 +1,196 @@
+import { AudioFormat, PCM_SAMPLE_RATE, WavFormat, encodeWav, parseWav } from './audioUtils';
+
+// Joins audio chunks into a single file in-process. MP3 is merged at frame level, WAV by
+// concatenating the sample data under a rewritten RIFF header, and raw PCM and ADTS AAC streams
+// by plain concatenation. Ogg Opus and FLAC carry per-file headers and are not merged.
+
+export class AudioMergeError extends Error {
+    public errorCode: string;
+
+    constructor(message: string, errorCode: string = 'MERGE_FAILED') {
+        super(message);
+        this.name = 'AudioMergeError';
+        this.errorCode = errorCode;
+    }
+}
+
+// Bitrates in kbps indexed by [version group][layer][index]; version group 0 = MPEG-1, 1 = MPEG-2/2.5
+const MP3_BITRATES: number[][][] = [
+    [
+        [],
+        [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448], // Layer I
+        [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],    // Layer II
+        [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],     // Layer III
+    ],
+    [
+        [],
+        [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],    // Layer I
+        [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],         // Layer II
+        [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],         // Layer III
+    ],
+];
+
+// Sample rates indexed by [version bits][index]; version bits 00 = MPEG-2.5, 10 = MPEG-2, 11 = MPEG-1
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+    0: [11025, 12000, 8000],
+    2: [22050, 24000, 16000],
+    3: [44100, 48000, 32000],
+};
+
+export class AudioMerger {
+    static readonly FORMATS: readonly AudioFormat[] = ['mp3', 'wav', 'pcm', 'aac'];
+
+    static canMerge(format: string): boolean {
+        return (this.FORMATS as readonly string[]).includes(format);
+    }
+
+    static merge(buffers: Buffer[], format: string): Buffer {
+        if (buffers.length === 0) {
+            throw new AudioMergeError('There is no audio to merge.', 'NOTHING_TO_MERGE');
+        }
+        switch (format) {
+            case 'mp3':
+                return this.mergeMp3(buffers);
+            case 'wav':
+                return this.mergeWav(buffers);
+            case 'pcm':
+            case 'aac':
+                return Buffer.concat(buffers);
+            default:
+                throw new AudioMergeError(`Merging "${format}" audio is not supported.`, 'UNSUPPORTED_MERGE_FORMAT');
+        }
+    }
+
+    static mergeMp3(buffers: Buffer[]): Buffer {
+        const frames: Buffer[] = [];
+        for (const buffer of buffers) {
+            const chunkFrames = this.mp3Frames(buffer);
+            if (chunkFrames.length === 0) {
+                throw new AudioMergeError('An MP3 chunk contains no audio frames.');
+            }
+            frames.push(...chunkFrames);
+        }
+        return Buffer.concat(frames);
+    }
+
+    // Audio frames of one MP3 file, without ID3 tags or the Xing/Info/VBRI header frame
+    private static mp3Frames(buffer: Buffer): Buffer[] {
+        let offset = 0;
+        let end = buffer.length;
+
+        // ID3v2 tag at the start: "ID3", version, flags, then a 28-bit syncsafe size
+        if (buffer.length >= 10 && buffer.toString('latin1', 0, 3) === 'ID3') {
+            const size = ((buffer[6] & 0x7f) << 21) | ((buffer[7] & 0x7f) << 14) | ((buffer[8] & 0x7f) << 7) | (buffer[9] & 0x7f);
+            const hasFooter = (buffer[5] & 0x10) !== 0;
+            offset = 10 + size + (hasFooter ? 10 : 0);
+        }
+        // ID3v1 tag: the last 128 bytes start with "TAG"
+        if (end - offset >= 128 && buffer.toString('latin1', end - 128, end - 125) === 'TAG') {
+            end -= 128;
+        }
+
+        const frames: Buffer[] = [];
+        let first = true;
+        while (offset + 4 <= end) {
+            const length = this.mp3FrameLength(buffer, offset);
+            if (length === 0 || offset + length > end) {
+                // Lost sync (junk between frames or a truncated tail): look for the next frame header
+                offset++;
+                continue;
+            }
+            const frame = buffer.subarray(offset, offset + length);
+            if (!(first && this.isInfoFrame(frame))) {
+                frames.push(frame);
+            }
+            first = false;
+            offset += length;
+        }
+        return frames;
+    }
+
+    private static mp3FrameLength(buffer: Buffer, offset: number): number {
+        if (buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) return 0;
+        const versionBits = (buffer[offset + 1] >> 3) & 0x03;
+        const layerBits = (buffer[offset + 1] >> 1) & 0x03;
+        const bitrateIndex = (buffer[offset + 2] >> 4) & 0x0f;
+        const sampleRateIndex = (buffer[offset + 2] >> 2) & 0x03;
+        const padding = (buffer[offset + 2] >> 1) & 0x01;
+        if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+            return 0;
+        }
+
+        const layer = 4 - layerBits; // 1, 2 or 3
+        const isMpeg1 = versionBits === 3;
+        const bitrate = MP3_BITRATES[isMpeg1 ? 0 : 1][layer][bitrateIndex] * 1000;
+        const sampleRate = MP3_SAMPLE_RATES[versionBits][sampleRateIndex];
+
+        if (layer === 1) {
+            return (Math.floor(12 * bitrate / sampleRate) + padding) * 4;
+        }
+        const coefficient = layer === 3 && !isMpeg1 ? 72 : 144;
+        return Math.floor(coefficient * bitrate / sampleRate) + padding;
+    }
+
+    // Playing time of one audio file, or null for formats whose duration can't be read without decoding
+    static durationMs(buffer: Buffer, format: string): number | null {
+        switch (format) {
+            case 'mp3':
+                return Math.round(this.mp3Frames(buffer).reduce((total, frame) => total + this.mp3FrameDurationMs(frame), 0));
+            case 'wav': {
+                const wav = parseWav(buffer);
+                if (!wav) return null;
+                const bytesPerSecond = wav.format.sampleRate * wav.format.channels * (wav.format.bitsPerSample / 8);
+                return Math.round(wav.data.length / bytesPerSecond * 1000);
+            }
+            case 'pcm':
+                return Math.round(buffer.length / (PCM_SAMPLE_RATE * 2) * 1000);
+            default:
+                return null;
+        }
+    }
+
+    private static mp3FrameDurationMs(frame: Buffer): number {
+        const versionBits = (frame[1] >> 3) & 0x03;
+        const layer = 4 - ((frame[1] >> 1) & 0x03);
+        const sampleRate = MP3_SAMPLE_RATES[versionBits][(frame[2] >> 2) & 0x03];
+        const samples = layer === 1 ? 384 : layer === 3 && versionBits !== 3 ? 576 : 1152;
+        return samples / sampleRate * 1000;
+    }
+
+    // The first frame of a VBR file may be a Xing/Info or VBRI header whose frame count would be wrong after merging
+    private static isInfoFrame(frame: Buffer): boolean {
+        const head = frame.toString('latin1', 0, Math.min(frame.length, 64));
+        return head.includes('Xing') || head.includes('Info') || head.includes('VBRI');
+    }
+
+    static mergeWav(buffers: Buffer[]): Buffer {
+        let format: WavFormat | null = null;
+        const data: Buffer[] = [];
+
+        for (const buffer of buffers) {
+            const parsed = this.parseWav(buffer);
+            if (!format) {
+                format = parsed.format;
+            } else if (format.audioFormat !== parsed.format.audioFormat ||
+                       format.channels !== parsed.format.channels ||
+                       format.sampleRate !== parsed.format.sampleRate ||
+                       format.bitsPerSample !== parsed.format.bitsPerSample) {
+                throw new AudioMergeError('WAV chunks use different sample formats and cannot be joined.', 'FORMAT_MISMATCH');
+            }
+            data.push(parsed.data);
+        }
+
+        if (!format || format.audioFormat !== 1) {
+            throw new AudioMergeError('Only PCM WAV files can be merged.', 'UNSUPPORTED_MERGE_FORMAT');
+        }
+        return encodeWav(Buffer.concat(data), format.sampleRate, format.channels, format.bitsPerSample);
+    }
+
+    static parseWav(buffer: Buffer): { format: WavFormat; data: Buffer } {
+        const wav = parseWav(buffer);
+        if (!wav) {
+            throw new AudioMergeError('A WAV chunk is missing its RIFF header, format or data section.');
+        }
+        return wav;
+    }
+}
@@ -0,0 +1,147 @@
+// Helpers for building and inspecting raw audio buffers without external tools
+
+export const PCM_SAMPLE_RATE = 24000; // OpenAI's "pcm" output: 24 kHz, 16-bit signed little-endian, mono
+
+// Output formats the speech API can return; the format name doubles as the file extension
+export const AUDIO_FORMATS = ['mp3', 'opus', 'aac', 'flac', 'wav', 'pcm'] as const;
+export type AudioFormat = typeof AUDIO_FORMATS[number];
+
+export const AUDIO_CONTENT_TYPES: Record<AudioFormat, string> = {
+    mp3: 'audio/mpeg',
+    opus: 'audio/ogg; codecs=opus',   // Opus in an Ogg container
+    aac: 'audio/aac',                 // ADTS stream
+    flac: 'audio/flac',
+    wav: 'audio/wav',
+    pcm: 'application/octet-stream',  // headerless samples, no registered audio type
+};
+
+export function isAudioFormat(value: unknown): value is AudioFormat {
+    return typeof value === 'string' && (AUDIO_FORMATS as readonly string[]).includes(value);
+}
+
+// Content-Type for a generated file, based on its extension
+export function audioContentType(filePath: string): string | undefined {
+    const extension = filePath.slice(filePath.lastIndexOf('.') + 1).toLowerCase();
+    return isAudioFormat(extension) ? AUDIO_CONTENT_TYPES[extension] : undefined;
+}
+
+// Wrap 16-bit PCM samples in a RIFF/WAVE container
+export function encodeWav(pcm: Buffer, sampleRate: number = PCM_SAMPLE_RATE, channels: number = 1, bitsPerSample: number = 16): Buffer {
+    const header = Buffer.alloc(44);
+    const blockAlign = channels * bitsPerSample / 8;
+    header.write('RIFF', 0, 'ascii');
+    header.writeUInt32LE(36 + pcm.length, 4);
+    header.write('WAVE', 8, 'ascii');
+    header.write('fmt ', 12, 'ascii');
+    header.writeUInt32LE(16, 16);              // fmt chunk size
+    header.writeUInt16LE(1, 20);               // PCM
+    header.writeUInt16LE(channels, 22);
+    header.writeUInt32LE(sampleRate, 24);
+    header.writeUInt32LE(sampleRate * blockAlign, 28);
+    header.writeUInt16LE(blockAlign, 32);
+    header.writeUInt16LE(bitsPerSample, 34);
+    header.write('data', 36, 'ascii');
+    header.writeUInt32LE(pcm.length, 40);
+    return Buffer.concat([header, pcm]);
+}
+
+export interface WavFormat {
+    audioFormat: number;    // 1 = integer PCM
+    channels: number;
+    sampleRate: number;
+    bitsPerSample: number;
+}
+
+// Locate the format and sample data of a RIFF/WAVE file; null if the buffer is not a usable WAV file
+export function parseWav(buffer: Buffer): { format: WavFormat; data: Buffer } | null {
+    if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+        return null;
+    }
+    let format: WavFormat | null = null;
+    let data: Buffer | null = null;
+    let offset = 12;
+
+    while (offset + 8 <= buffer.length) {
+        const id = buffer.toString('ascii', offset, offset + 4);
+        let size = buffer.readUInt32LE(offset + 4);
+        const bodyStart = offset + 8;
+        // Streamed WAV output may leave the data size as 0 or 0xFFFFFFFF: take everything that follows
+        if (id === 'data' && (size === 0 || size === 0xffffffff || bodyStart + size > buffer.length)) {
+            size = buffer.length - bodyStart;
+        }
+        if (id === 'fmt ' && bodyStart + 16 <= buffer.length) {
+            format = {
+                audioFormat: buffer.readUInt16LE(bodyStart),
+                channels: buffer.readUInt16LE(bodyStart + 2),
+                sampleRate: buffer.readUInt32LE(bodyStart + 4),
+                bitsPerSample: buffer.readUInt16LE(bodyStart + 14),
+            };
+        } else if (id === 'data') {
+            data = buffer.subarray(bodyStart, bodyStart + size);
+        }
+        offset = bodyStart + size + (size % 2); // chunks are word-aligned
+    }
+    return format && data ? { format, data } : null;
+}
+
+// Scale 16-bit little-endian samples in place, clipping at full scale
+export function scalePcm16(pcm: Buffer, gain: number): Buffer {
+    for (let offset = 0; offset + 1 < pcm.length; offset += 2) {
+        const sample = Math.round(pcm.readInt16LE(offset) * gain);
+        pcm.writeInt16LE(Math.max(-32768, Math.min(32767, sample)), offset);
+    }
+    return pcm;
+}
+
+// Formats applyGain can change the volume of
+export const GAIN_FORMATS: readonly AudioFormat[] = ['wav', 'pcm'];
+
+// Apply a volume gain to WAV or PCM audio; returns a new buffer and leaves the input untouched.
+// Compressed formats would need decoding, so they are returned unchanged.
+export function applyGain(audio: Buffer, format: AudioFormat, gain: number): Buffer {
+    if (gain === 1) return audio;
+    if (format === 'pcm') {
+        return scalePcm16(Buffer.from(audio), gain);
+    }
+    if (format === 'wav') {
+        const copy = Buffer.from(audio);
+        const wav = parseWav(copy);
+        if (wav && wav.format.audioFormat === 1 && wav.format.bitsPerSample === 16) {
+            scalePcm16(wav.data, gain); // data is a view into the copy
+        }
+        return copy;
+    }
+    return audio;
+}
+
+// Silence as 16-bit mono PCM
+export function silentPcm(durationMs: number, sampleRate: number = PCM_SAMPLE_RATE): Buffer {
+    const samples = Math.max(0, Math.round(sampleRate * durationMs / 1000));
+    return Buffer.alloc(samples * 2);
+}
+
+// A run of silent MPEG-2 Layer III frames (24 kHz, 32 kbps, mono). Each frame is 96 bytes and holds
+// 576 samples (24 ms); a frame whose side information is all zero decodes to silence.
+export function silentMp3(durationMs: number): Buffer {
+    const frameCount = Math.max(1, Math.ceil(durationMs / 24));
+    const frame = Buffer.alloc(96);
+    frame[0] = 0xff;
+    frame[1] = 0xf3; // MPEG-2, Layer III, no CRC
+    frame[2] = 0x44; // 32 kbps, 24 kHz, no padding
+    frame[3] = 0xc0; // mono
+    return Buffer.concat(Array.from({ length: frameCount }, () => frame));
+}
+
+// Silence in the given output format, or null for formats that can't be produced without an encoder
+export function silence(format: AudioFormat, durationMs: number): Buffer | null {
+    switch (format) {
+        case 'mp3':
+            return silentMp3(durationMs);
+        case 'wav':
+            return encodeWav(silentPcm(durationMs));
+        case 'pcm':
+            return silentPcm(durationMs);
+        default:
+            return null;
+    }
+}
@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import type { RedisClient } from './jobStore';
+
+// Security-relevant events: lockouts, changes to accounts and API tokens, and manual file cleanups
+export interface AuditEvent {
+    timestamp: string;
+    event: string;                  // e.g. "login.lockout", "user.create", "token.revoke"
+    actor: string | null;           // who did it; null for the system (e.g. automatic lockouts)
+    target?: string;                // the username, token or IP address affected
+    ip?: string;
+    detail?: Record<string, unknown>;
+}
+
+export interface AuditFilter {
+    from: Date;
+    to: Date;
+    event?: string;                 // exact name, or a prefix ending in "." ("login.")
+    actor?: string;
+    target?: string;
+}
+
+export interface AuditStore {
+    append(event: AuditEvent): Promise<void>;
+    query(from: Date, to: Date): Promise<AuditEvent[]>;
+}
+
+// A sorted set scored by time, like the analytics store
+export class RedisAuditStore implements AuditStore {
+    private client: RedisClient;
+    private static KEY = 'audit:events';
+
+    constructor(client: RedisClient) {
+        this.client = client;
+    }
+
+    async append(event: AuditEvent): Promise<void> {
+        await this.client.zAdd(RedisAuditStore.KEY, { score: Date.parse(event.timestamp), value: JSON.stringify(event) });
+    }
+
+    async query(from: Date, to: Date): Promise<AuditEvent[]> {
+        const members = await this.client.zRangeByScore(RedisAuditStore.KEY, from.getTime(), to.getTime());
+        return members.map(member => JSON.parse(member) as AuditEvent);
+    }
+}
+
+// Fallback when REDIS_URL is not configured: one JSON event per line
+export class FileAuditStore implements AuditStore {
+    private filePath: string;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    async append(event: AuditEvent): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.appendFile(this.filePath, JSON.stringify(event) + '\n', { mode: 0o600 });
+    }
+
+    async query(from: Date, to: Date): Promise<AuditEvent[]> {
+        if (!fs.existsSync(this.filePath)) return [];
+        const events: AuditEvent[] = [];
+        const lines = readline.createInterface({ input: fs.createReadStream(this.filePath), crlfDelay: Infinity });
+        for await (const line of lines) {
+            if (!line.trim()) continue;
+            try {
+                const event = JSON.parse(line) as AuditEvent;
+                const time = Date.parse(event.timestamp);
+                if (time >= from.getTime() && time <= to.getTime()) events.push(event);
+            } catch {
+                // A line cut short by a crash; the rest of the file is still usable
+            }
+        }
+        return events;
+    }
+}
+
+export class AuditLog {
+    private store: AuditStore;
+
+    constructor(store: AuditStore) {
+        this.store = store;
+    }
+
+    // Never throws: a failure to write the audit trail is logged but doesn't fail the action being audited
+    async record(event: Omit<AuditEvent, 'timestamp'>): Promise<void> {
+        const entry: AuditEvent = { timestamp: new Date().toISOString(), ...event };
+        console.log(`Audit: ${entry.event} by ${entry.actor ?? 'system'}${entry.target ? ` on ${entry.target}` : ''}`);
+        try {
+            await this.store.append(entry);
+        } catch (error) {
+            console.error(`Failed to write audit event ${entry.event}:`, error);
+        }
+    }
+
+    // Newest first
+    async query(filter: AuditFilter): Promise<AuditEvent[]> {
+        const events = await this.store.query(filter.from, filter.to);
+        return events
+            .filter(event =>
+                (filter.event === undefined || (filter.event.endsWith('.') ? event.event.startsWith(filter.event) : event.event === filter.event)) &&
+                (filter.actor === undefined || event.actor === filter.actor) &&
+                (filter.target === undefined || event.target === filter.target))
+            .reverse();
+    }
+}
@@ -0,0 +1,94 @@
+import axios from 'axios';
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface ChatRequestOptions {
+    maxTokens?: number;
+    temperature?: number;
+    signal?: AbortSignal;
+}
+
+export interface ChatClientOptions {
+    baseUrl?: string;    // Any OpenAI-compatible API root; defaults to OPENAI_BASE_URL
+    model?: string;      // Defaults to CHAT_MODEL or gpt-4o
+}
+
+export class ChatError extends Error {
+    public statusCode: number;
+    public errorCode: string;
+
+    constructor(message: string, statusCode: number = 502, errorCode: string = 'CHAT_API_ERROR') {
+        super(message);
+        this.name = 'ChatError';
+        this.statusCode = statusCode;
+        this.errorCode = errorCode;
+    }
+}
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o';
+
+// Minimal chat-completions client shared by the translator and the summarizer
+export class ChatClient {
+    private apiKey: string;
+    private baseUrl: string;
+    private model: string;
+
+    constructor(apiKey: string, options: ChatClientOptions = {}) {
+        this.apiKey = apiKey;
+        this.baseUrl = (options.baseUrl || process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+        this.model = options.model || process.env.CHAT_MODEL || DEFAULT_MODEL;
+    }
+
+    // False when no API key is set for the default OpenAI endpoint
+    isConfigured(): boolean {
+        return !!this.apiKey || this.baseUrl !== DEFAULT_BASE_URL;
+    }
+
+    async complete(messages: ChatMessage[], options: ChatRequestOptions = {}): Promise<string> {
+        if (!this.isConfigured()) {
+            throw new ChatError('The chat API is not configured. Set OPENAI_API_KEY or OPENAI_BASE_URL.', 503, 'CHAT_UNAVAILABLE');
+        }
+        const timeout = parseInt(process.env.OPENAI_API_TIMEOUT || "30000", 10);
+        try {
+            const response = await axios.post(
+                `${this.baseUrl}/chat/completions`,
+                {
+                    model: this.model,
+                    messages,
+                    ...(options.maxTokens !== undefined ? { max_tokens: options.maxTokens } : {}),
+                    ...(options.temperature !== undefined ? { temperature: options.temperature } : {})
+                },
+                {
+                    headers: {
+                        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+                        'Content-Type': 'application/json',
+                    },
+                    timeout,
+                    signal: options.signal
+                }
+            );
+            const content = response.data?.choices?.[0]?.message?.content;
+            if (typeof content !== 'string') {
+                throw new ChatError('The chat API returned an empty response.', 502, 'EMPTY_RESPONSE');
+            }
+            return content;
+        } catch (error: any) {
+            if (error instanceof ChatError) throw error;
+            if (axios.isCancel(error) || options.signal?.aborted) {
+                throw new ChatError('Chat request was cancelled.', 499, 'REQUEST_CANCELLED');
+            }
+            if (error.response?.status === 429) {
+                throw new ChatError('Chat API rate limit exceeded. Please try again after some time.', 429, 'RATE_LIMIT_EXCEEDED');
+            }
+            if (error.code === 'ECONNABORTED') {
+                throw new ChatError('The chat API took too long to respond.', 504, 'REQUEST_TIMEOUT');
+            }
+            console.error('Chat API error:', error.response ? `Status: ${error.response.status}` : error.message);
+            throw new ChatError(`Chat API error: ${error.response ? `HTTP ${error.response.status}` : error.message}`);
+        }
+    }
+}
@@ -0,0 +1,314 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Job, JobState, RedisClient } from './jobStore';
+import type { AudioFormat } from './audioUtils';
+import type { VoiceOptions } from './ttsProvider';
+
+// What a conversion was asked to do; enough to run it again
+export interface HistorySettings {
+    voice: string;
+    instructions: string;               // the caller's own instructions (a translation's language style is added again when it runs)
+    format: AudioFormat;
+    voiceOptions: VoiceOptions;
+    merge: boolean;
+    normalize: boolean;
+    punctuate: boolean;
+    markup: boolean;
+    script: boolean;
+    speakers?: Record<string, string>;
+    language?: string;
+    summary?: string;
+}
+
+// One conversion in a user's history. The ID is the job's, so /jobs/:id and /generated/:id/ refer to the same conversion.
+export interface HistoryEntry {
+    id: string;
+    user: string | null;                // null for conversions made while authentication was off
+    source: 'text' | 'file';
+    fileName?: string;                  // name of the uploaded document
+    text: string;                       // the submitted text, or the text extracted from the document
+    settings: HistorySettings;
+    status: JobState;
+    characters: number;
+    totalChunks: number;
+    files: string[];
+    mergedFile?: string;
+    spokenText?: string;
+    error?: { message: string; code: string };
+    regeneratedFrom?: string;           // the entry this one was regenerated from
+    createdAt: string;
+    finishedAt?: string;
+}
+
+export interface HistorySource {
+    fileName?: string;
+    regeneratedFrom?: string;
+}
+
+export interface HistoryPage {
+    entries: HistoryEntry[];
+    total: number;
+}
+
+export interface HistoryStore {
+    list(user: string | null, offset: number, limit: number): Promise<HistoryPage>;    // newest first
+    get(id: string): Promise<HistoryEntry | null>;
+    save(entry: HistoryEntry): Promise<void>;
+    delete(entry: HistoryEntry): Promise<void>;
+}
+
+// Each entry under its own key, plus a sorted set per user scored by creation time for paging
+export class RedisHistoryStore implements HistoryStore {
+    private client: RedisClient;
+
+    constructor(client: RedisClient) {
+        this.client = client;
+    }
+
+    private static indexKey(user: string | null): string {
+        return user === null ? 'history:anonymous' : `history:user:${user}`;
+    }
+
+    async list(user: string | null, offset: number, limit: number): Promise<HistoryPage> {
+        const key = RedisHistoryStore.indexKey(user);
+        const [ids, total] = await Promise.all([
+            limit > 0 ? this.client.zRange(key, offset, offset + limit - 1, { REV: true }) : Promise.resolve([] as string[]),
+            this.client.zCard(key),
+        ]);
+        if (ids.length === 0) return { entries: [], total };
+        const raw = await this.client.mGet(ids.map(id => `history:entry:${id}`));
+        return { entries: raw.filter((value): value is string => !!value).map(value => JSON.parse(value) as HistoryEntry), total };
+    }
+
+    async get(id: string): Promise<HistoryEntry | null> {
+        const raw = await this.client.get(`history:entry:${id}`);
+        return raw ? JSON.parse(raw) as HistoryEntry : null;
+    }
+
+    async save(entry: HistoryEntry): Promise<void> {
+        await this.client.multi()
+            .set(`history:entry:${entry.id}`, JSON.stringify(entry))
+            .zAdd(RedisHistoryStore.indexKey(entry.user), { score: Date.parse(entry.createdAt), value: entry.id })
+            .exec();
+    }
+
+    async delete(entry: HistoryEntry): Promise<void> {
+        await this.client.multi()
+            .del(`history:entry:${entry.id}`)
+            .zRem(RedisHistoryStore.indexKey(entry.user), entry.id)
+            .exec();
+    }
+}
+
+// The texts are most of an entry's size, so the file store keeps them apart from the index
+type IndexedEntry = Omit<HistoryEntry, 'text' | 'spokenText'>;
+type EntryTexts = Pick<HistoryEntry, 'text' | 'spokenText'>;
+
+// Fallback when REDIS_URL is not configured: an index of every entry in one JSON file, and each entry's texts in a
+// file of its own next to it, so a change rewrites the small index and that one entry's texts
+export class FileHistoryStore implements HistoryStore {
+    private filePath: string;
+    private textDir: string;
+    private entries: IndexedEntry[] | null = null;
+    private loading: Promise<IndexedEntry[]> | null = null;
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+        this.textDir = path.join(path.dirname(filePath), `${path.basename(filePath, '.json')}-texts`);
+    }
+
+    private load(): Promise<IndexedEntry[]> {
+        if (!this.loading) {
+            this.loading = this.read();
+            this.loading.catch(() => {
+                this.loading = null;
+            });
+        }
+        return this.loading;
+    }
+
+    private async read(): Promise<IndexedEntry[]> {
+        let stored: Array<IndexedEntry & Partial<EntryTexts>>;
+        try {
+            stored = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8')).entries || [];
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                // Saving over an unreadable file would throw everyone's history away
+                throw new Error(`Could not read the conversion history at ${this.filePath}: ${error.message}`);
+            }
+            stored = [];
+        }
+        // Files written before the texts were kept apart have them inline; they are moved out once
+        const inline = stored.filter(entry => entry.text !== undefined);
+        this.entries = stored.map(({ text, spokenText, ...entry }) => entry);
+        for (const entry of inline) {
+            await this.writeTexts(entry.id, { text: entry.text!, spokenText: entry.spokenText });
+        }
+        if (inline.length > 0) await this.persist();
+        return this.entries;
+    }
+
+    private textPath(id: string): string {
+        return path.join(this.textDir, `${id}.json`);
+    }
+
+    private async readTexts(entry: IndexedEntry): Promise<HistoryEntry> {
+        try {
+            const texts = JSON.parse(await fs.promises.readFile(this.textPath(entry.id), 'utf8')) as EntryTexts;
+            return { ...entry, text: texts.text, spokenText: texts.spokenText };
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') throw error;
+            return { ...entry, text: '' };
+        }
+    }
+
+    // The files hold the users' texts, so they are readable by the server's user only
+    private async writeTexts(id: string, texts: EntryTexts) {
+        await fs.promises.mkdir(this.textDir, { recursive: true, mode: 0o700 });
+        const temporary = `${this.textPath(id)}.${process.pid}.tmp`;
+        await fs.promises.writeFile(temporary, JSON.stringify(texts), { mode: 0o600 });
+        await fs.promises.rename(temporary, this.textPath(id));
+    }
+
+    private persist(): Promise<void> {
+        this.writing = this.writing.then(async () => {
+            await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+            const temporary = `${this.filePath}.${process.pid}.tmp`;
+            await fs.promises.writeFile(temporary, JSON.stringify({ entries: this.entries }), { mode: 0o600 });
+            await fs.promises.rename(temporary, this.filePath);
+        });
+        return this.writing;
+    }
+
+    async list(user: string | null, offset: number, limit: number): Promise<HistoryPage> {
+        const entries = (await this.load())
+            .filter(entry => entry.user === user)
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        const page = await Promise.all(entries.slice(offset, offset + limit).map(entry => this.readTexts(entry)));
+        return { entries: page, total: entries.length };
+    }
+
+    async get(id: string): Promise<HistoryEntry | null> {
+        // Looked up in the index first, so only IDs of existing entries ever become file names
+        const entry = (await this.load()).find(existing => existing.id === id);
+        return entry ? this.readTexts(entry) : null;
+    }
+
+    async save({ text, spokenText, ...entry }: HistoryEntry): Promise<void> {
+        const entries = await this.load();
+        await this.writeTexts(entry.id, { text, spokenText });
+        const index = entries.findIndex(existing => existing.id === entry.id);
+        if (index >= 0) {
+            entries[index] = entry;
+        } else {
+            entries.push(entry);
+        }
+        await this.persist();
+    }
+
+    async delete(entry: HistoryEntry): Promise<void> {
+        const entries = await this.load();
+        const index = entries.findIndex(existing => existing.id === entry.id);
+        if (index < 0) return;
+        entries.splice(index, 1);
+        await this.persist();
+        await fs.promises.rm(this.textPath(entry.id), { force: true });
+    }
+}
+
+// Keeps a record of every conversion per user: what was converted, how, and the audio it produced.
+// Only the newest HISTORY_MAX_ENTRIES entries of each user are kept; an entry's audio goes with it.
+export class ConversionHistory {
+    private store: HistoryStore;
+    private generatedDir: string;
+    private maxEntries: number;
+    private writes = new Map<string, Promise<void>>();
+
+    constructor(store: HistoryStore, generatedDir: string, maxEntries: number = parseInt(process.env.HISTORY_MAX_ENTRIES || '500', 10)) {
+        this.store = store;
+        this.generatedDir = generatedDir;
+        this.maxEntries = maxEntries > 0 ? maxEntries : 500;
+    }
+
+    // Called right after the job is queued; the entry is completed by finish() when the job ends
+    record(job: Job, text: string, settings: HistorySettings, source: HistorySource = {}): Promise<void> {
+        const entry: HistoryEntry = {
+            id: job.id,
+            user: job.user ?? null,
+            source: source.fileName ? 'file' : 'text',
+            fileName: source.fileName,
+            text,
+            settings,
+            status: job.state,
+            characters: job.characters,
+            totalChunks: 0,
+            files: [],
+            regeneratedFrom: source.regeneratedFrom,
+            createdAt: job.createdAt,
+        };
+        return this.serialize(job.id, async () => {
+            await this.store.save(entry);
+            await this.prune(entry.user);
+        });
+    }
+
+    finish(job: Job): Promise<void> {
+        return this.serialize(job.id, async () => {
+            const entry = await this.store.get(job.id);
+            if (!entry) return; // deleted while it ran, or made before history was kept
+            Object.assign(entry, {
+                status: job.state,
+                totalChunks: job.totalChunks,
+                files: job.files,
+                mergedFile: job.mergedFile,
+                spokenText: job.spokenText,
+                error: job.error && { message: job.error.message, code: job.error.code },
+                finishedAt: job.finishedAt,
+            });
+            await this.store.save(entry);
+        });
+    }
+
+    list(user: string | null, offset: number, limit: number): Promise<HistoryPage> {
+        return this.store.list(user, offset, limit);
+    }
+
+    get(id: string): Promise<HistoryEntry | null> {
+        return this.store.get(id);
+    }
+
+    // Removes the entry and its audio; callers make sure the conversion isn't running
+    delete(entry: HistoryEntry): Promise<void> {
+        return this.serialize(entry.id, async () => {
+            await this.store.delete(entry);
+            await this.removeAudio(entry);
+        });
+    }
+
+    // Pruned conversions that are still running keep their audio; the scheduled cleanup deletes it later
+    private async prune(user: string | null) {
+        const { total } = await this.store.list(user, 0, 0);
+        if (total <= this.maxEntries) return;
+        const { entries } = await this.store.list(user, this.maxEntries, total - this.maxEntries);
+        for (const entry of entries) {
+            await this.store.delete(entry);
+            if (entry.status !== 'queued' && entry.status !== 'processing') await this.removeAudio(entry);
+        }
+    }
+
+    private async removeAudio(entry: HistoryEntry) {
+        await fs.promises.rm(path.join(this.generatedDir, entry.id), { recursive: true, force: true });
+    }
+
+    // Writes to one entry happen in order, so a fast job's finish() can't run before its record()
+    private serialize(id: string, write: () => Promise<void>): Promise<void> {
+        const previous = this.writes.get(id) || Promise.resolve();
+        const next = previous.catch(() => undefined).then(write);
+        this.writes.set(id, next);
+        next.finally(() => {
+            if (this.writes.get(id) === next) this.writes.delete(id);
+        }).catch(() => undefined);
+        return next;
+    }
+}
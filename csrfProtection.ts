@@ -0,0 +1,39 @@
+import type { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import 'express-session';
+
+declare module 'express-session' {
+    interface SessionData {
+        csrfToken: string;  // required on state-changing requests made with this session
+    }
+}
+
+// The session's CSRF token, created on first use
+export function csrfToken(req: Request): string {
+    return req.session.csrfToken ||= crypto.randomBytes(32).toString('base64url');
+}
+
+// State-changing requests authenticated by the session cookie must echo the session's CSRF token,
+// in an X-CSRF-Token header or a "_csrf" form field. Requests with an API token carry no cookie
+// credentials a forged request could borrow, so they are exempt. Without sign-in there is no session to protect.
+export function csrfProtection(enabled: boolean) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (!enabled || ['GET', 'HEAD', 'OPTIONS'].includes(req.method) || /^Bearer\s/i.test(req.headers.authorization || '')) {
+            return next();
+        }
+        const presented = req.get('X-CSRF-Token') || req.body?._csrf;
+        const expected = req.session.csrfToken;
+        if (typeof presented === 'string' && expected) {
+            // Compared as bytes: a non-ASCII token can have as many characters as the expected one but more bytes
+            const actual = Buffer.from(presented);
+            const wanted = Buffer.from(expected);
+            if (actual.length === wanted.length && crypto.timingSafeEqual(actual, wanted)) {
+                return next();
+            }
+        }
+        if (req.path === '/login') {
+            return res.redirect('/login?error=expired');
+        }
+        res.status(403).json({ error: 'Missing or invalid CSRF token. Reload the page and try again.', code: 'CSRF_TOKEN_INVALID' });
+    };
+}
@@ -0,0 +1,121 @@
+import { DocumentProcessor, DocumentSegment } from './documentProcessor';
+import { isPredefinedVoice, predefinedVoices } from './voices';
+
+export interface ScriptLine {
+    speaker: string;
+    text: string;
+}
+
+export interface SpeakerVoice {
+    voice: string;
+    instructions?: string;
+}
+
+// Explicit speaker mapping as sent by clients: a voice ID or a voice with extra instructions
+export type SpeakerMapping = Record<string, string | SpeakerVoice>;
+
+export class ScriptError extends Error {
+    public statusCode: number;
+    public errorCode: string;
+
+    constructor(message: string, errorCode: string = 'INVALID_SCRIPT') {
+        super(message);
+        this.name = 'ScriptError';
+        this.statusCode = 400;
+        this.errorCode = errorCode;
+    }
+}
+
+// "ALICE: Hello there." A speaker name is up to 40 characters and may contain spaces, digits, dots,
+// apostrophes and hyphens ("Dr. Lee", "Guest 2")
+const SPEAKER_LINE = /^\s*([\p{L}][\p{L}\p{N} .'_-]{0,39}?)\s*:\s*(.*)$/u;
+
+// Dialogue scripts: lines prefixed with a speaker name, each spoken in that speaker's voice
+export class DialogueScript {
+    // Lines without a speaker prefix continue the previous speaker's line; blank lines are ignored
+    static parse(text: string): ScriptLine[] {
+        const lines: ScriptLine[] = [];
+        text.split(/\r?\n/).forEach((raw, index) => {
+            if (!raw.trim()) return;
+            const match = SPEAKER_LINE.exec(raw);
+            if (match) {
+                lines.push({ speaker: match[1].trim(), text: match[2].trim() });
+            } else if (lines.length > 0) {
+                const previous = lines[lines.length - 1];
+                previous.text = `${previous.text} ${raw.trim()}`.trim();
+            } else {
+                throw new ScriptError(`Line ${index + 1} has no speaker. Script lines look like "ALICE: Hello."`);
+            }
+        });
+        const spoken = lines.filter(line => line.text);
+        if (spoken.length === 0) {
+            throw new ScriptError('The script contains no spoken lines. Script lines look like "ALICE: Hello."', 'EMPTY_SCRIPT');
+        }
+        return spoken;
+    }
+
+    // Speaker names in order of first appearance; names are matched case-insensitively
+    static speakers(lines: ScriptLine[]): string[] {
+        const seen = new Map<string, string>();
+        for (const line of lines) {
+            const key = line.speaker.toLowerCase();
+            if (!seen.has(key)) seen.set(key, line.speaker);
+        }
+        return [...seen.values()];
+    }
+
+    // Map every speaker to a voice. Explicitly mapped speakers keep their voice; the others get the
+    // predefined voices not used yet, in list order, starting over if there are more speakers than voices.
+    static assignVoices(lines: ScriptLine[], mapping: SpeakerMapping = {}): Map<string, SpeakerVoice> {
+        const explicit = new Map<string, SpeakerVoice>();
+        for (const [speaker, value] of Object.entries(mapping)) {
+            const speakerVoice = typeof value === 'string' ? { voice: value } : value;
+            const voice = String(speakerVoice?.voice || '').toLowerCase();
+            if (!isPredefinedVoice(voice)) {
+                throw new ScriptError(
+                    `Unknown voice "${voice}" for speaker "${speaker}". Choose one of: ${predefinedVoices.map(known => known.id).join(', ')}.`,
+                    'UNKNOWN_VOICE'
+                );
+            }
+            explicit.set(speaker.toLowerCase(), { voice, instructions: speakerVoice.instructions || undefined });
+        }
+
+        const used = new Set([...explicit.values()].map(speakerVoice => speakerVoice.voice));
+        const available = predefinedVoices.map(voice => voice.id).filter(id => !used.has(id));
+        const pool = available.length > 0 ? available : predefinedVoices.map(voice => voice.id);
+        const assigned = new Map<string, SpeakerVoice>();
+        let next = 0;
+        for (const speaker of this.speakers(lines)) {
+            const key = speaker.toLowerCase();
+            assigned.set(speaker, explicit.get(key) || { voice: pool[next++ % pool.length] });
+        }
+        return assigned;
+    }
+
+    // One speech segment per line in the speaker's voice; with "markup", markup inside a line (pauses, emphasis) applies
+    static toSegments(lines: ScriptLine[], voices: Map<string, SpeakerVoice>, markup: boolean = false): DocumentSegment[] {
+        const byKey = new Map([...voices].map(([speaker, speakerVoice]) => [speaker.toLowerCase(), speakerVoice]));
+        const segments: DocumentSegment[] = [];
+        for (const line of lines) {
+            const speakerVoice = byKey.get(line.speaker.toLowerCase())!;
+            const lineSegments: DocumentSegment[] = markup ? DocumentProcessor.parseMarkup(line.text) : [{ type: 'speech', text: line.text }];
+            for (const segment of lineSegments) {
+                if (segment.type === 'pause') {
+                    segments.push(segment);
+                    continue;
+                }
+                if (segment.voice && !isPredefinedVoice(segment.voice)) {
+                    throw new ScriptError(`Unknown voice "${segment.voice}" in <voice> markup.`, 'UNKNOWN_VOICE');
+                }
+                const instructions = [speakerVoice.instructions, segment.instructions].filter(Boolean).join(' ');
+                segments.push({
+                    type: 'speech',
+                    text: segment.text.trim(),
+                    voice: segment.voice || speakerVoice.voice,
+                    instructions: instructions || undefined,
+                });
+            }
+        }
+        return segments;
+    }
+}
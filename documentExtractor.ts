@@ -0,0 +1,391 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ZipArchive, ZipError } from './zipArchive';
+import { PdfExtractor, PdfExtractionError } from './pdfExtractor';
+
+export type DocumentFormat = 'text' | 'docx' | 'pdf' | 'rtf' | 'doc';
+
+export interface ExtractedParagraph {
+    text: string;
+    heading: boolean;
+}
+
+export interface ExtractedDocument {
+    format: DocumentFormat;
+    text: string;
+    paragraphs: ExtractedParagraph[];
+}
+
+// Error raised when an uploaded document cannot be turned into text
+export class DocumentExtractionError extends Error {
+    public statusCode: number;
+    public errorCode: string;
+
+    constructor(message: string, statusCode: number = 422, errorCode: string = 'EXTRACTION_FAILED') {
+        super(message);
+        this.name = 'DocumentExtractionError';
+        this.statusCode = statusCode;
+        this.errorCode = errorCode;
+    }
+}
+
+// OLE compound file signature used by legacy .doc files and by encrypted OOXML packages
+const COMPOUND_FILE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+// RTF destinations whose content is never part of the readable text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+    'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'fldinst', 'header', 'headerl',
+    'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf', 'themedata', 'colorschememapping',
+    'datastore', 'latentstyles', 'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'xmlnstbl',
+    'filetbl', 'revtbl', 'pgdsctbl', 'bkmkstart', 'bkmkend', 'listtext', 'pntext', 'footnote',
+]);
+
+const RTF_SYMBOLS: Record<string, string> = {
+    emdash: '—', endash: '–', bullet: '•', lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”',
+    emspace: ' ', enspace: ' ', qmspace: ' ',
+};
+
+export class DocumentExtractor {
+    static async extractFromFile(filePath: string, mimetype?: string, originalName?: string): Promise<ExtractedDocument> {
+        const buffer = await fs.promises.readFile(filePath);
+        return this.extract(buffer, mimetype, originalName || filePath);
+    }
+
+    static extract(buffer: Buffer, mimetype?: string, fileName?: string): ExtractedDocument {
+        const format = this.detectFormat(buffer, mimetype, fileName);
+        let paragraphs: ExtractedParagraph[];
+
+        switch (format) {
+            case 'docx':
+                paragraphs = this.extractDocx(buffer);
+                break;
+            case 'pdf':
+                paragraphs = this.extractPdf(buffer);
+                break;
+            case 'rtf':
+                paragraphs = this.extractRtf(buffer.toString('latin1'));
+                break;
+            case 'doc':
+                throw new DocumentExtractionError(
+                    'Legacy Word (.doc) files are not supported. Please save the document as .docx or PDF and try again.',
+                    415,
+                    'UNSUPPORTED_DOCUMENT'
+                );
+            default:
+                paragraphs = this.extractPlainText(buffer);
+        }
+
+        return {
+            format,
+            paragraphs,
+            text: paragraphs.map(paragraph => paragraph.text).join('\n\n'),
+        };
+    }
+
+    static detectFormat(buffer: Buffer, mimetype?: string, fileName?: string): DocumentFormat {
+        // Trust the file contents over the extension or the browser-reported type
+        if (PdfExtractor.isPdf(buffer)) return 'pdf';
+        if (ZipArchive.isZip(buffer)) return 'docx';
+        if (buffer.subarray(0, 5).toString('latin1') === '{\\rtf') return 'rtf';
+        if (buffer.subarray(0, COMPOUND_FILE_SIGNATURE.length).equals(COMPOUND_FILE_SIGNATURE)) {
+            if (this.isEncryptedPackage(buffer)) {
+                throw new DocumentExtractionError(
+                    'The document is password-protected. Remove the password and upload it again.',
+                    422,
+                    'ENCRYPTED_DOCUMENT'
+                );
+            }
+            return 'doc';
+        }
+
+        const extension = path.extname(fileName || '').toLowerCase();
+        if (extension === '.pdf' || mimetype === 'application/pdf') {
+            throw new DocumentExtractionError('The PDF file is damaged and could not be read.', 422, 'CORRUPT_DOCUMENT');
+        }
+        if (extension === '.docx' || mimetype === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
+            throw new DocumentExtractionError('The Word document is damaged and could not be read.', 422, 'CORRUPT_DOCUMENT');
+        }
+        return 'text';
+    }
+
+    private static isEncryptedPackage(buffer: Buffer): boolean {
+        // Encrypted OOXML files are compound files holding "EncryptionInfo" and "EncryptedPackage" streams
+        return buffer.includes(Buffer.from('EncryptionInfo', 'utf16le')) ||
+            buffer.includes(Buffer.from('EncryptedPackage', 'utf16le'));
+    }
+
+    private static extractPlainText(buffer: Buffer): ExtractedParagraph[] {
+        const text = buffer.toString('utf-8').replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+        return text
+            .split(/\n\s*\n/)
+            .map(paragraph => paragraph.trim())
+            .filter(paragraph => paragraph.length > 0)
+            .map(paragraph => ({ text: paragraph, heading: false }));
+    }
+
+    // --- DOCX ---
+
+    private static extractDocx(buffer: Buffer): ExtractedParagraph[] {
+        let xml: string;
+        try {
+            const archive = new ZipArchive(buffer);
+            if (!archive.has('word/document.xml')) {
+                throw new DocumentExtractionError(
+                    'The archive is not a Word document (word/document.xml is missing).',
+                    415,
+                    'UNSUPPORTED_DOCUMENT'
+                );
+            }
+            xml = archive.readText('word/document.xml');
+        } catch (error: any) {
+            if (error instanceof DocumentExtractionError) throw error;
+            if (error instanceof ZipError && error.errorCode === 'ENCRYPTED_ENTRY') {
+                throw new DocumentExtractionError('The document is password-protected.', 422, 'ENCRYPTED_DOCUMENT');
+            }
+            if (error instanceof ZipError && error.errorCode === 'ENTRY_TOO_LARGE') {
+                throw new DocumentExtractionError('The Word document is too large to read.', 413, 'DOCUMENT_TOO_LARGE');
+            }
+            throw new DocumentExtractionError(
+                `The Word document is damaged and could not be read: ${error.message}`,
+                422,
+                'CORRUPT_DOCUMENT'
+            );
+        }
+
+        const paragraphs: ExtractedParagraph[] = [];
+        const tagPattern = /<(\/?)([\w:]+)([^>]*?)(\/?)>|([^<]+)/g;
+        let current = '';
+        let heading = false;
+        let inText = false;
+        let match: RegExpExecArray | null;
+
+        while ((match = tagPattern.exec(xml)) !== null) {
+            const [, closing, tag, attributes, selfClosing, textContent] = match;
+
+            if (textContent !== undefined) {
+                if (inText) current += decodeXmlEntities(textContent);
+                continue;
+            }
+
+            if (tag === 'w:t') {
+                inText = !closing && !selfClosing;
+            } else if (tag === 'w:p') {
+                if (!closing) {
+                    current = '';
+                    heading = false;
+                }
+                if (closing || selfClosing) {
+                    const text = current.replace(/[ \t]+/g, ' ').trim();
+                    if (text) paragraphs.push({ text, heading });
+                    current = '';
+                }
+            } else if (tag === 'w:pStyle' && !closing) {
+                const style = /w:val="([^"]*)"/.exec(attributes)?.[1] || '';
+                if (/^(heading|title|subtitle)/i.test(style)) heading = true;
+            } else if (tag === 'w:outlineLvl' && !closing) {
+                // Level 9 is Word's "body text" outline level
+                if (/w:val="[0-8]"/.test(attributes)) heading = true;
+            } else if ((tag === 'w:tab' || tag === 'w:ptab') && !closing) {
+                current += '\t';
+            } else if ((tag === 'w:br' || tag === 'w:cr') && !closing) {
+                current += '\n';
+            } else if (tag === 'w:noBreakHyphen' && !closing) {
+                current += '-';
+            } else if (tag === 'w:tc' && closing) {
+                current += ' ';
+            }
+        }
+
+        return paragraphs;
+    }
+
+    // --- PDF ---
+
+    private static extractPdf(buffer: Buffer): ExtractedParagraph[] {
+        try {
+            return new PdfExtractor(buffer).extract();
+        } catch (error: any) {
+            if (error instanceof PdfExtractionError) {
+                if (error.errorCode === 'ENCRYPTED') {
+                    throw new DocumentExtractionError(
+                        'The PDF is password-protected. Remove the password and upload it again.',
+                        422,
+                        'ENCRYPTED_DOCUMENT'
+                    );
+                }
+                if (error.errorCode === 'IMAGE_ONLY') {
+                    throw new DocumentExtractionError(
+                        'The PDF contains only scanned images and no selectable text. Run it through OCR first.',
+                        422,
+                        'IMAGE_ONLY_DOCUMENT'
+                    );
+                }
+                if (error.errorCode === 'TOO_LARGE') {
+                    throw new DocumentExtractionError('The PDF is too large to read.', 413, 'DOCUMENT_TOO_LARGE');
+                }
+            }
+            throw new DocumentExtractionError(
+                `The PDF file is damaged and could not be read: ${error.message}`,
+                422,
+                'CORRUPT_DOCUMENT'
+            );
+        }
+    }
+
+    // --- RTF ---
+
+    private static extractRtf(rtf: string): ExtractedParagraph[] {
+        const headingStyles = this.findRtfHeadingStyles(rtf);
+        const decoder = new TextDecoder('windows-1252');
+        const paragraphs: ExtractedParagraph[] = [];
+        const stack: Array<{ skip: boolean; unicodeSkip: number }> = [];
+        let state = { skip: false, unicodeSkip: 1 };
+        let current = '';
+        let heading = false;
+        let pendingSkip = 0; // characters still to drop after a \u escape
+        let ignorableNext = false;
+
+        const endParagraph = () => {
+            const text = current.replace(/[ \t]+/g, ' ').trim();
+            if (text) paragraphs.push({ text, heading });
+            current = '';
+        };
+        const emit = (text: string) => {
+            if (state.skip) return;
+            if (pendingSkip > 0) {
+                pendingSkip--;
+                return;
+            }
+            current += text;
+        };
+
+        const tokenPattern = /\\([a-zA-Z]+)(-?\d+)? ?|\\'([0-9a-fA-F]{2})|\\([^a-zA-Z])|([{}])|([\r\n]+)|([^\\{}\r\n]+)/g;
+        let match: RegExpExecArray | null;
+
+        while ((match = tokenPattern.exec(rtf)) !== null) {
+            const [, word, param, hex, symbol, brace, , plain] = match;
+
+            if (brace === '{') {
+                stack.push(state);
+                state = { ...state };
+                continue;
+            }
+            if (brace === '}') {
+                state = stack.pop() || { skip: false, unicodeSkip: 1 };
+                ignorableNext = false;
+                continue;
+            }
+
+            if (word) {
+                if (ignorableNext || RTF_SKIPPED_DESTINATIONS.has(word)) {
+                    state.skip = true;
+                    ignorableNext = false;
+                }
+                if (state.skip) continue;
+
+                const value = param !== undefined ? parseInt(param, 10) : undefined;
+                switch (word) {
+                    case 'par':
+                    case 'sect':
+                    case 'page':
+                    case 'row':
+                        endParagraph();
+                        break;
+                    case 'pard':
+                        heading = false;
+                        break;
+                    case 'line':
+                        current += '\n';
+                        break;
+                    case 'tab':
+                        current += '\t';
+                        break;
+                    case 'cell':
+                        current += ' ';
+                        break;
+                    case 's':
+                        if (value !== undefined && headingStyles.has(value)) heading = true;
+                        break;
+                    case 'outlinelevel':
+                        heading = true;
+                        break;
+                    case 'uc':
+                        state.unicodeSkip = value ?? 1;
+                        break;
+                    case 'u':
+                        if (value !== undefined) {
+                            current += String.fromCharCode(value < 0 ? value + 65536 : value);
+                            pendingSkip = state.unicodeSkip;
+                        }
+                        break;
+                    default:
+                        if (Object.prototype.hasOwnProperty.call(RTF_SYMBOLS, word)) emit(RTF_SYMBOLS[word]);
+                }
+                continue;
+            }
+
+            if (hex) {
+                emit(decoder.decode(Buffer.from(hex, 'hex')));
+                continue;
+            }
+
+            if (symbol) {
+                switch (symbol) {
+                    case '*':
+                        ignorableNext = true;
+                        break;
+                    case '~':
+                        emit(' ');
+                        break;
+                    case '_':
+                        emit('-');
+                        break;
+                    case '\\':
+                    case '{':
+                    case '}':
+                        emit(symbol);
+                        break;
+                    case '\n':
+                    case '\r':
+                        if (!state.skip) endParagraph();
+                        break;
+                    // \- (optional hyphen) and \: (index entries) carry no readable text
+                }
+                continue;
+            }
+
+            if (plain && !state.skip) {
+                for (const char of plain) emit(char);
+            }
+            // Raw line breaks in RTF source are not significant
+        }
+
+        endParagraph();
+        return paragraphs;
+    }
+
+    private static findRtfHeadingStyles(rtf: string): Set<number> {
+        const styles = new Set<number>();
+        const stylePattern = /\{[^{}]*?\\s(\d+)\b[^{}]*?\s((?:heading|title)[^;{}]*);\}/gi;
+        let match: RegExpExecArray | null;
+        while ((match = stylePattern.exec(rtf)) !== null) {
+            styles.add(parseInt(match[1], 10));
+        }
+        return styles;
+    }
+}
+
+function decodeXmlEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+        switch (entity) {
+            case 'lt': return '<';
+            case 'gt': return '>';
+            case 'amp': return '&';
+            case 'quot': return '"';
+            case 'apos': return "'";
+        }
+        return String.fromCodePoint(entity[1] === 'x'
+            ? parseInt(entity.slice(2), 16)
+            : parseInt(entity.slice(1), 10));
+    });
+}
@@ -1,68 +1,406 @@
+import { TextNormalizer } from './textNormalizer';
+
+export interface DocumentChunk {
+    text: string;
+    start: number; // offset of the first character in the original text
+    end: number;   // offset just past the last character in the original text
+}
+
+// Steps of DocumentProcessor.preprocessText; all run unless set to false, except addPunctuation, which only runs when true
+export interface NormalizationOptions {
+    normalizeAbbreviations?: boolean;
+    expandNumbers?: boolean;
+    improvePronunciation?: boolean;
+    stripMarkdown?: boolean;
+    addPunctuation?: boolean;
+}
+
+// A piece of a document to be spoken: text with optional voice and extra instructions, or a silent pause
+export type DocumentSegment =
+    | { type: 'speech'; text: string; voice?: string; instructions?: string }
+    | { type: 'pause'; durationMs: number };
+
+// Thrown for malformed markup such as unclosed tags or invalid pause lengths
+export class MarkupError extends Error {
+    public statusCode: number;
+    public errorCode: string;
+
+    constructor(message: string) {
+        super(message);
+        this.name = 'MarkupError';
+        this.statusCode = 400;
+        this.errorCode = 'INVALID_MARKUP';
+    }
+}
+
+// Markup understood by parseMarkup: a subset of SSML plus the [pause 2s] shorthand
+const MARKUP_PATTERN = /<(\/?)(speak|break|emphasis|say-as|voice|p|s)\b([^>]*?)(\/?)>|\[pause(?:\s+([^\]]*))?\]/gi;
+const MAX_PAUSE_MS = 10000;
+const DEFAULT_PAUSE_MS = 1000;
+
+// SSML <break strength="..."> lengths
+const BREAK_STRENGTHS: Record<string, number> = {
+    'none': 0, 'x-weak': 250, 'weak': 500, 'medium': 750, 'strong': 1000, 'x-strong': 1250,
+};
+
+const EMPHASIS_INSTRUCTIONS: Record<string, string> = {
+    strong: 'Say this with strong emphasis.',
+    moderate: 'Say this with emphasis.',
+    reduced: 'Say this softly, with reduced emphasis.',
+    none: '',
+};
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+interface MarkupFrame {
+    tag: string;
+    voice?: string;
+    instructions?: string;
+    sayAs?: string;      // interpret-as of an open <say-as>; its text is buffered and transformed on close
+    buffer?: string;
+}
+
+type BoundaryLevel = 'paragraph' | 'sentence' | 'clause' | 'word';
+
+// Boundaries are tried in this order; a piece that is still too long is split at the next level down
+const BOUNDARY_LEVELS: BoundaryLevel[] = ['paragraph', 'sentence', 'clause', 'word'];
+
+// Abbreviations that end in a period but do not end a sentence; others such as "etc." only
+// continue the sentence when a lowercase word follows (see isSentenceEnd)
+const TITLE_ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'sr', 'jr', 'rev', 'gen', 'capt', 'lt', 'col', 'sgt', 'hon', 'mt', 'ft']);
+const COMMON_ABBREVIATIONS = new Set([
+    'e.g', 'i.e', 'vs', 'cf', 'approx', 'ca', 'al', 'viz',
+]);
+
 export class DocumentProcessor {
     static splitDocument(text: string, chunkSize: number = 1000): string[] {
+        return this.chunkDocument(text, chunkSize).map(chunk => chunk.text);
+    }
+
+    // Split text into chunks of at most maxChunkSize characters, breaking at the most natural
+    // boundary available: paragraphs first, then sentences, clauses and finally words.
+    static chunkDocument(text: string, maxChunkSize: number = 1000): DocumentChunk[] {
         if (!text?.trim()) { // Handle empty or whitespace-only strings
             return [];
         }
-        if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+        if (!Number.isInteger(maxChunkSize) || maxChunkSize <= 0) {
             throw new Error("chunkSize must be a positive integer.");
         }
-        const chunks: string[] = [];
-        for (let i = 0; i < text.length; i += chunkSize) {
-            chunks.push(text.slice(i, i + chunkSize));
-        }
+        const chunks: DocumentChunk[] = [];
+        this.packRange(text, 0, text.length, maxChunkSize, 0, chunks);
         return chunks;
     }
 
-    // Add text preprocessing methods
+    private static packRange(text: string, start: number, end: number, maxChunkSize: number, levelIndex: number, chunks: DocumentChunk[]) {
+        if (end - start <= maxChunkSize) {
+            this.pushChunk(text, start, end, chunks);
+            return;
+        }
+        if (levelIndex >= BOUNDARY_LEVELS.length) {
+            // A single "word" longer than the limit (e.g. a URL): cut it, keeping surrogate pairs intact
+            for (let position = start; position < end;) {
+                let cut = Math.min(position + maxChunkSize, end);
+                if (cut < end && /[\uD800-\uDBFF]/.test(text[cut - 1])) cut--;
+                this.pushChunk(text, position, cut, chunks);
+                position = cut;
+            }
+            return;
+        }
+
+        const cuts = this.findBoundaries(text, start, end, BOUNDARY_LEVELS[levelIndex]);
+        if (cuts.length === 0) {
+            this.packRange(text, start, end, maxChunkSize, levelIndex + 1, chunks);
+            return;
+        }
+
+        // Greedily pack consecutive segments; oversized segments are split at the next level down
+        const segmentEnds = [...cuts, end];
+        let chunkStart = start;
+        let chunkEnd = start;
+        let segmentStart = start;
+        for (const segmentEnd of segmentEnds) {
+            if (segmentEnd - segmentStart > maxChunkSize) {
+                if (chunkEnd > chunkStart) this.pushChunk(text, chunkStart, chunkEnd, chunks);
+                this.packRange(text, segmentStart, segmentEnd, maxChunkSize, levelIndex + 1, chunks);
+                chunkStart = chunkEnd = segmentEnd;
+            } else if (segmentEnd - chunkStart > maxChunkSize) {
+                this.pushChunk(text, chunkStart, chunkEnd, chunks);
+                chunkStart = segmentStart;
+                chunkEnd = segmentEnd;
+            } else {
+                chunkEnd = segmentEnd;
+            }
+            segmentStart = segmentEnd;
+        }
+        if (chunkEnd > chunkStart) this.pushChunk(text, chunkStart, chunkEnd, chunks);
+    }
+
+    private static pushChunk(text: string, start: number, end: number, chunks: DocumentChunk[]) {
+        while (start < end && /\s/.test(text[start])) start++;
+        while (end > start && /\s/.test(text[end - 1])) end--;
+        if (end > start) {
+            chunks.push({ text: text.slice(start, end), start, end });
+        }
+    }
 
-    // Add these methods to the DocumentProcessor class
-    static preprocessText(text: string, options: {
-        normalizeAbbreviations?: boolean,
-        expandNumbers?: boolean,
-        improvePronunciation?: boolean,
-        addPunctuation?: boolean,
-    } = {}): string {
+    // Positions inside (start, end) where a new segment may begin
+    private static findBoundaries(text: string, start: number, end: number, level: BoundaryLevel): number[] {
+        const patterns: Record<BoundaryLevel, RegExp> = {
+            paragraph: /\n[ \t]*\n\s*/g,
+            sentence: /[.!?…]+["'”’)\]]*\s+/g,
+            clause: /(?:[,;:]|\s[—–-])\s+|—/g,
+            word: /\s+/g,
+        };
+        const pattern = patterns[level];
+        const segment = text.slice(start, end);
+        const cuts: number[] = [];
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(segment)) !== null) {
+            const cut = start + match.index + match[0].length;
+            if (cut <= start || cut >= end) continue;
+            if (level === 'sentence' && !this.isSentenceEnd(text, start + match.index, cut)) continue;
+            cuts.push(cut);
+        }
+        return cuts;
+    }
+
+    private static isSentenceEnd(text: string, punctuationIndex: number, nextIndex: number): boolean {
+        if (text[punctuationIndex] !== '.') {
+            return true;
+        }
+        const next = text[nextIndex] || '';
+        // "approx. five", "p. 12": a period followed by a lowercase word or digit continues the sentence
+        if (/[a-z0-9]/.test(next)) {
+            return false;
+        }
+        const token = (/(\S+)$/.exec(text.slice(Math.max(0, punctuationIndex - 20), punctuationIndex))?.[1] || '')
+            .replace(/^[("'“‘\[]+/, '')
+            .toLowerCase();
+        if (TITLE_ABBREVIATIONS.has(token)) {
+            return false;
+        }
+        // Initials and dotted acronyms: "J. Smith", "U.S. Army"
+        if (/^[a-z]$/.test(token) || /^([a-z]\.)+[a-z]$/.test(token)) {
+            return false;
+        }
+        return !COMMON_ABBREVIATIONS.has(token);
+    }
+
+    // Markup is only interpreted when asked for, or when the text is an SSML document (starts with <speak>),
+    // so ordinary documents that mention "<p>" or "&amp;" are read as written
+    static isSpeakDocument(text: string): boolean {
+        return /^\s*<speak[\s>]/i.test(text);
+    }
+
+    // Parse markup into speech and pause segments. Supported: <speak>, <p>, <s>, <break time="2s"/>
+    // or strength="...", [pause 2s] / [pause 500ms], <emphasis level="...">, <say-as interpret-as="characters|
+    // spell-out|digits">, and <voice name="onyx" instructions="..."> (nestable). Text without markup is one segment.
+    static parseMarkup(text: string): DocumentSegment[] {
+        const segments: DocumentSegment[] = [];
+        const stack: MarkupFrame[] = [];
+
+        const current = () => {
+            let voice: string | undefined;
+            const instructions: string[] = [];
+            for (const frame of stack) {
+                if (frame.voice) voice = frame.voice;
+                if (frame.instructions) instructions.push(frame.instructions);
+            }
+            return { voice, instructions: instructions.join(' ') || undefined };
+        };
+        const appendText = (raw: string) => {
+            const value = raw.replace(/&(amp|lt|gt|quot|apos);/g, (_, entity) => XML_ENTITIES[entity]);
+            const sayAs = [...stack].reverse().find(frame => frame.sayAs !== undefined);
+            if (sayAs) {
+                sayAs.buffer += value;
+                return;
+            }
+            const { voice, instructions } = current();
+            const last = segments[segments.length - 1];
+            if (last?.type === 'speech' && last.voice === voice && last.instructions === instructions) {
+                last.text += value;
+            } else if (value) {
+                segments.push({ type: 'speech', text: value, voice, instructions });
+            }
+        };
+        const appendPause = (durationMs: number) => {
+            if (durationMs <= 0) return;
+            const last = segments[segments.length - 1];
+            if (last?.type === 'pause') {
+                last.durationMs = Math.min(MAX_PAUSE_MS, last.durationMs + durationMs);
+            } else {
+                segments.push({ type: 'pause', durationMs });
+            }
+        };
+
+        let position = 0;
+        let match: RegExpExecArray | null;
+        MARKUP_PATTERN.lastIndex = 0;
+        while ((match = MARKUP_PATTERN.exec(text)) !== null) {
+            appendText(text.slice(position, match.index));
+            position = match.index + match[0].length;
+
+            if (match[0].startsWith('[')) {
+                appendPause(match[5] ? this.parseDuration(match[5].trim(), match[0]) : DEFAULT_PAUSE_MS);
+                continue;
+            }
+            const [, closing, rawTag, rawAttributes, selfClosing] = match;
+            const tag = rawTag.toLowerCase();
+            const attributes = this.parseAttributes(rawAttributes);
+
+            if (tag === 'break') {
+                if (attributes.time) {
+                    appendPause(this.parseDuration(attributes.time, match[0]));
+                } else {
+                    appendPause(BREAK_STRENGTHS[attributes.strength || 'medium'] ?? BREAK_STRENGTHS.medium);
+                }
+                continue;
+            }
+            if (tag === 'p') {
+                appendText('\n\n'); // paragraph boundaries are where the chunker prefers to split
+            }
+            if (selfClosing) {
+                continue;
+            }
+            if (closing) {
+                const frame = stack.pop();
+                if (!frame || frame.tag !== tag) {
+                    throw new MarkupError(`Unexpected </${tag}>${frame ? `; <${frame.tag}> is still open` : ''}.`);
+                }
+                if (frame.sayAs !== undefined) {
+                    appendText(this.interpretAs(frame.buffer || '', frame.sayAs));
+                }
+                continue;
+            }
+
+            const frame: MarkupFrame = { tag };
+            if (tag === 'voice') {
+                if (!attributes.name) {
+                    throw new MarkupError('<voice> needs a name attribute, e.g. <voice name="onyx">.');
+                }
+                frame.voice = attributes.name.toLowerCase();
+                frame.instructions = attributes.instructions;
+            } else if (tag === 'emphasis') {
+                frame.instructions = EMPHASIS_INSTRUCTIONS[attributes.level || 'moderate'] ?? EMPHASIS_INSTRUCTIONS.moderate;
+            } else if (tag === 'say-as') {
+                frame.sayAs = (attributes['interpret-as'] || '').toLowerCase();
+                frame.buffer = '';
+            }
+            stack.push(frame);
+        }
+        appendText(text.slice(position));
+
+        if (stack.length > 0) {
+            throw new MarkupError(`<${stack[stack.length - 1].tag}> is never closed.`);
+        }
+        // Punctuation left over after a closing tag ("<emphasis>this</emphasis>.") joins the speech before it
+        const result: DocumentSegment[] = [];
+        for (const segment of segments) {
+            const previous = result[result.length - 1];
+            if (segment.type === 'speech' && !/[\p{L}\p{N}]/u.test(segment.text)) {
+                if (previous?.type === 'speech' && segment.text.trim()) previous.text += segment.text;
+                continue;
+            }
+            result.push(segment);
+        }
+        return result;
+    }
+
+    // Chunk every speech segment separately, so no chunk spans a change of voice, instructions or a pause
+    static chunkSegments(segments: DocumentSegment[], maxChunkSize: number = 1000): DocumentSegment[] {
+        const planned: DocumentSegment[] = [];
+        for (const segment of segments) {
+            if (segment.type === 'pause') {
+                planned.push(segment);
+                continue;
+            }
+            for (const chunk of this.chunkDocument(segment.text, maxChunkSize)) {
+                planned.push({ type: 'speech', text: chunk.text, voice: segment.voice, instructions: segment.instructions });
+            }
+        }
+        return planned;
+    }
+
+    // "2s", "1.5 s", "500ms" or a bare number of seconds
+    private static parseDuration(value: string, source: string): number {
+        const match = /^(\d+(?:\.\d+)?)\s*(ms|s)?$/i.exec(value.trim());
+        if (!match) {
+            throw new MarkupError(`Invalid pause length in ${source}. Use seconds or milliseconds, e.g. 2s or 500ms.`);
+        }
+        const durationMs = parseFloat(match[1]) * (match[2]?.toLowerCase() === 'ms' ? 1 : 1000);
+        if (durationMs > MAX_PAUSE_MS) {
+            throw new MarkupError(`Pauses can be at most ${MAX_PAUSE_MS / 1000} seconds (${source}).`);
+        }
+        return Math.round(durationMs);
+    }
+
+    private static parseAttributes(raw: string): Record<string, string> {
+        const attributes: Record<string, string> = {};
+        const pattern = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(raw)) !== null) {
+            attributes[match[1].toLowerCase()] = match[2] ?? match[3];
+        }
+        return attributes;
+    }
+
+    // <say-as>: spell out letters or digits one by one; other interpretations are left to the voice
+    private static interpretAs(text: string, interpretAs: string): string {
+        switch (interpretAs) {
+            case 'characters':
+            case 'spell-out':
+                return [...text.replace(/\s+/g, '')].join(' ');
+            case 'digits':
+                return text.replace(/\d+/g, digits => [...digits].join(' '));
+            default:
+                return text;
+        }
+    }
+
+    // Rewrite text into the words a narrator would say. Every step but addPunctuation is on unless turned off; URLs and
+    // symbols go first so their dots and digits are not read as abbreviations or numbers.
+    static preprocessText(text: string, options: NormalizationOptions = {}): string {
         let processedText = text;
-        
-        if (options.normalizeAbbreviations) {
+
+        if (options.improvePronunciation !== false) {
+            processedText = this.improvePronunciation(processedText);
+        }
+
+        if (options.normalizeAbbreviations !== false) {
             processedText = this.expandAbbreviations(processedText);
         }
-        
-        if (options.expandNumbers) {
+
+        if (options.expandNumbers !== false) {
             processedText = this.expandNumbers(processedText);
         }
-        
-        if (options.improvePronunciation) {
-            processedText = this.improvePronunciation(processedText);
-        }
-        
-        if (options.addPunctuation) {
+
+        // Before the markdown goes, while headings and list items can still be told apart
+        if (options.addPunctuation === true) {
             processedText = this.addPunctuation(processedText);
         }
-        
+
+        if (options.stripMarkdown !== false) {
+            processedText = TextNormalizer.stripMarkdown(processedText);
+        }
+
         return processedText;
     }
 
     static expandAbbreviations(text: string): string {
-        // Replace common abbreviations
-        const abbreviations = {
-            'Dr.': 'Doctor',
-            'Mr.': 'Mister',
-            'Mrs.': 'Missus',
-            'e.g.': 'for example',
-            'i.e.': 'that is',
-            'etc.': 'etcetera',
-            // Add more as needed
-        };
-        
-        let processedText = text;
-        for (const [abbr, expanded] of Object.entries(abbreviations)) {
-            processedText = processedText.replace(new RegExp(`\\b${abbr.replace('.', '\\.')}\\b`, 'g'), expanded);
-        }
-        
-        return processedText;
+        return TextNormalizer.expandAbbreviations(text);
     }
 
-    // Additional helper methods for other preprocessing steps
-    // ...
+    // Cardinals, ordinals, money, percentages, fractions, dates, times, phone numbers, units and Roman numerals
+    static expandNumbers(text: string): string {
+        return TextNormalizer.expandNumbers(text);
+    }
+
+    // URLs, email addresses and symbols such as & and ±
+    static improvePronunciation(text: string): string {
+        return TextNormalizer.replaceSymbols(TextNormalizer.expandUrlsAndEmails(text));
+    }
+
+    static addPunctuation(text: string): string {
+        return TextNormalizer.addPunctuation(text);
+    }
 }
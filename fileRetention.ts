@@ -0,0 +1,259 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface RetentionPolicy {
+    ttlSeconds: number;             // generated audio older than this is deleted
+    maxBytes: number | null;        // total size of generated audio; oldest conversions go first above it (null: no cap)
+    uploadTtlSeconds: number;       // uploads are deleted once read, so older ones were left behind by a crash
+    intervalSeconds: number;        // how often the scheduler runs (0: only when triggered)
+}
+
+export type CleanupReason = 'expired' | 'over-limit' | 'orphaned-upload';
+
+export interface CleanupReport {
+    dryRun: boolean;
+    startedAt: string;
+    finishedAt: string;
+    deleted: Array<{ path: string; bytes: number; reason: CleanupReason }>;  // paths relative to the writable directory
+    emptyDirectories: string[];     // removed (or, in a dry run, that would be) once their contents were gone
+    freedBytes: number;
+    generatedBytes: number;         // size of the generated audio left afterwards
+    skipped: number;                // conversions still running, which are never touched
+    errors: string[];
+}
+
+// One conversion's directory, or a file directly in the generated directory (from before per-job directories)
+interface StoredItem {
+    path: string;
+    name: string;
+    bytes: number;
+    modifiedMs: number;             // newest modification inside a directory
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+    const value = parseInt(process.env[name] || '', 10);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// Size and newest modification time of a file or everything below a directory
+async function measure(itemPath: string): Promise<{ bytes: number; modifiedMs: number }> {
+    const stats = await fs.promises.stat(itemPath);
+    if (!stats.isDirectory()) return { bytes: stats.size, modifiedMs: stats.mtimeMs };
+    let bytes = 0;
+    let modifiedMs = stats.mtimeMs;
+    for (const name of await fs.promises.readdir(itemPath)) {
+        const inner = await measure(path.join(itemPath, name));
+        bytes += inner.bytes;
+        modifiedMs = Math.max(modifiedMs, inner.modifiedMs);
+    }
+    return { bytes, modifiedMs };
+}
+
+// Deletes generated audio past its age or beyond the disk cap, and uploads left behind, on a schedule or on demand.
+// "isActive" tells which conversions are still queued or running, in this process or another one sharing the
+// directory, so their directories are left alone.
+export class FileRetention {
+    private writableDir: string;
+    private generatedDir: string;
+    private uploadDir: string;
+    private policy: RetentionPolicy;
+    private isActive: (jobId: string) => Promise<boolean>;
+    private running: Promise<CleanupReport> | null = null;
+    private timer: NodeJS.Timeout | null = null;
+    public lastReport: CleanupReport | null = null;
+
+    constructor(writableDir: string, generatedDir: string, uploadDir: string, isActive: (jobId: string) => Promise<boolean>,
+                policy: RetentionPolicy = FileRetention.configuredPolicy()) {
+        this.writableDir = writableDir;
+        this.generatedDir = generatedDir;
+        this.uploadDir = uploadDir;
+        this.isActive = isActive;
+        this.policy = policy;
+    }
+
+    static configuredPolicy(): RetentionPolicy {
+        const maxMb = numberFromEnv('RETENTION_MAX_MB', 0);
+        return {
+            ttlSeconds: numberFromEnv('RETENTION_TTL_SECONDS', 24 * 60 * 60),
+            maxBytes: maxMb > 0 ? maxMb * 1024 * 1024 : null,
+            uploadTtlSeconds: numberFromEnv('RETENTION_UPLOAD_TTL_SECONDS', 60 * 60),
+            intervalSeconds: numberFromEnv('RETENTION_INTERVAL_SECONDS', 60 * 60),
+        };
+    }
+
+    getPolicy(): RetentionPolicy {
+        return { ...this.policy };
+    }
+
+    isRunning(): boolean {
+        return this.running !== null;
+    }
+
+    // Run once shortly after startup, then every intervalSeconds. The timer doesn't keep the process alive.
+    start() {
+        if (this.policy.intervalSeconds === 0 || this.timer) return;
+        const tick = () => {
+            if (this.running) return;
+            this.run().catch(error => console.error('Scheduled cleanup failed:', error));
+        };
+        setTimeout(tick, 10 * 1000).unref();
+        this.timer = setInterval(tick, this.policy.intervalSeconds * 1000);
+        this.timer.unref();
+    }
+
+    stop() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    // A dry run reports what would be deleted without deleting anything.
+    // Only one cleanup runs at a time; callers asking while one runs get its report.
+    run(options: { dryRun?: boolean } = {}): Promise<CleanupReport> {
+        if (this.running) return this.running;
+        this.running = this.cleanup(!!options.dryRun).finally(() => {
+            this.running = null;
+        });
+        return this.running;
+    }
+
+    private async cleanup(dryRun: boolean): Promise<CleanupReport> {
+        const report: CleanupReport = {
+            dryRun,
+            startedAt: new Date().toISOString(),
+            finishedAt: '',
+            deleted: [],
+            emptyDirectories: [],
+            freedBytes: 0,
+            generatedBytes: 0,
+            skipped: 0,
+            errors: [],
+        };
+        const now = Date.now();
+        const removed = new Set<string>();
+        const remove = async (itemPath: string, bytes: number, reason: CleanupReason) => {
+            try {
+                if (!dryRun) await fs.promises.rm(itemPath, { recursive: true, force: true });
+                removed.add(itemPath);
+                report.deleted.push({ path: path.relative(this.writableDir, itemPath), bytes, reason });
+                report.freedBytes += bytes;
+            } catch (error: any) {
+                report.errors.push(`${itemPath}: ${error.message}`);
+            }
+        };
+
+        // Generated audio: expired conversions first, then the oldest until the total fits under the cap
+        const items: StoredItem[] = [];
+        for (const item of await this.listGenerated(report)) {
+            if (await this.isActive(item.name)) {
+                report.skipped++;
+            } else {
+                items.push(item);
+            }
+        }
+        items.sort((a, b) => a.modifiedMs - b.modifiedMs);
+        let totalBytes = items.reduce((sum, item) => sum + item.bytes, 0);
+        for (const item of items) {
+            if (now - item.modifiedMs > this.policy.ttlSeconds * 1000) {
+                await remove(item.path, item.bytes, 'expired');
+            } else if (this.policy.maxBytes !== null && totalBytes > this.policy.maxBytes) {
+                await remove(item.path, item.bytes, 'over-limit');
+            } else {
+                continue;
+            }
+            if (removed.has(item.path)) totalBytes -= item.bytes;
+        }
+        report.generatedBytes = totalBytes;
+
+        await this.removeOrphanedUploads(this.uploadDir, now, remove, report);
+
+        for (const root of [this.generatedDir, this.uploadDir]) {
+            await this.removeEmptyDirectories(root, true, removed, dryRun, report);
+        }
+
+        report.finishedAt = new Date().toISOString();
+        console.log(`${dryRun ? 'Cleanup dry run' : 'Cleanup'}: ${report.deleted.length} items and ${report.emptyDirectories.length} empty directories, ` +
+            `${Math.round(report.freedBytes / 1024)} KB${dryRun ? ' would be' : ''} freed`);
+        this.lastReport = report;
+        return report;
+    }
+
+    private async listGenerated(report: CleanupReport): Promise<StoredItem[]> {
+        let names: string[];
+        try {
+            names = await fs.promises.readdir(this.generatedDir);
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') report.errors.push(`${this.generatedDir}: ${error.message}`);
+            return [];
+        }
+        const items: StoredItem[] = [];
+        for (const name of names) {
+            const itemPath = path.join(this.generatedDir, name);
+            try {
+                items.push({ path: itemPath, name, ...await measure(itemPath) });
+            } catch (error: any) {
+                // Deleted by someone else in the meantime (e.g. DELETE /history/:id)
+                if (error.code !== 'ENOENT') report.errors.push(`${itemPath}: ${error.message}`);
+            }
+        }
+        return items;
+    }
+
+    private async removeOrphanedUploads(dir: string, now: number,
+                                        remove: (itemPath: string, bytes: number, reason: CleanupReason) => Promise<void>,
+                                        report: CleanupReport) {
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(dir, { withFileTypes: true });
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') report.errors.push(`${dir}: ${error.message}`);
+            return;
+        }
+        for (const entry of entries) {
+            const entryPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                await this.removeOrphanedUploads(entryPath, now, remove, report);
+                continue;
+            }
+            try {
+                const stats = await fs.promises.stat(entryPath);
+                if (now - stats.mtimeMs > this.policy.uploadTtlSeconds * 1000) {
+                    await remove(entryPath, stats.size, 'orphaned-upload');
+                }
+            } catch (error: any) {
+                if (error.code !== 'ENOENT') report.errors.push(`${entryPath}: ${error.message}`);
+            }
+        }
+    }
+
+    // Bottom-up, so directories emptied by removing their empty subdirectories go too. The roots themselves
+    // and the directories of running conversions are kept. Returns whether the directory is (or would be) gone.
+    private async removeEmptyDirectories(dir: string, isRoot: boolean, removed: Set<string>, dryRun: boolean,
+                                         report: CleanupReport): Promise<boolean> {
+        if (removed.has(dir)) return true;
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(dir, { withFileTypes: true });
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') report.errors.push(`${dir}: ${error.message}`);
+            return error.code === 'ENOENT';
+        }
+        let empty = true;
+        for (const entry of entries) {
+            const entryPath = path.join(dir, entry.name);
+            const gone = entry.isDirectory()
+                ? await this.removeEmptyDirectories(entryPath, false, removed, dryRun, report)
+                : removed.has(entryPath);
+            if (!gone) empty = false;
+        }
+        if (!empty || isRoot || (path.dirname(dir) === this.generatedDir && await this.isActive(path.basename(dir)))) return false;
+        try {
+            if (!dryRun) await fs.promises.rmdir(dir);
+            report.emptyDirectories.push(path.relative(this.writableDir, dir));
+            return true;
+        } catch (error: any) {
+            // Something was written into it meanwhile
+            if (error.code !== 'ENOTEMPTY' && error.code !== 'ENOENT') report.errors.push(`${dir}: ${error.message}`);
+            return false;
+        }
+    }
+}
@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import crypto from 'crypto';
+
+// Written into every job's output directory; records who the audio belongs to
+export const OWNER_FILE = '.owner.json';
+
+export interface AudioOwner {
+    user: string | null;        // null for conversions made while authentication was off
+    createdAt: string;
+}
+
+export type SignatureCheck = 'valid' | 'expired' | 'invalid';
+
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const FILE_PATTERN = /^[A-Za-z0-9_-]+\.[a-z0-9]+$/;
+
+export async function writeAudioOwner(outputDir: string, owner: AudioOwner): Promise<void> {
+    await fs.promises.writeFile(path.join(outputDir, OWNER_FILE), JSON.stringify(owner));
+}
+
+// Private storage for generated audio: one directory per job (named by its random ID), an owner record in each,
+// and HMAC-signed links that let anyone holding them download a file until they expire
+export class GeneratedAudio {
+    private generatedDir: string;
+    private secret: string | Buffer;
+
+    constructor(generatedDir: string, secret: string | Buffer) {
+        this.generatedDir = generatedDir;
+        this.secret = secret;
+    }
+
+    // The file on disk for a job ID and file name, or null when either isn't a name this app generates
+    resolve(jobId: string, file: string): string | null {
+        if (!JOB_ID_PATTERN.test(jobId) || !FILE_PATTERN.test(file)) return null;
+        return path.resolve(this.generatedDir, jobId, file);
+    }
+
+    // Undefined when the directory has no owner record (it predates them, or doesn't exist)
+    async owner(jobId: string): Promise<AudioOwner | undefined> {
+        if (!JOB_ID_PATTERN.test(jobId)) return undefined;
+        try {
+            return JSON.parse(await fs.promises.readFile(path.join(this.generatedDir, jobId, OWNER_FILE), 'utf8')) as AudioOwner;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private signature(urlPath: string, expires: number): string {
+        return crypto.createHmac('sha256', this.secret).update(`${urlPath}\n${expires}`).digest('hex');
+    }
+
+    // The URL path with "expires" (Unix seconds) and "signature" appended
+    sign(urlPath: string, expiresAt: Date): string {
+        const expires = Math.floor(expiresAt.getTime() / 1000);
+        return `${urlPath}?expires=${expires}&signature=${this.signature(urlPath, expires)}`;
+    }
+
+    verify(urlPath: string, expires: unknown, signature: unknown): SignatureCheck {
+        if (typeof expires !== 'string' || !/^\d+$/.test(expires) || typeof signature !== 'string') return 'invalid';
+        const expected = Buffer.from(this.signature(urlPath, Number(expires)), 'hex');
+        const actual = Buffer.from(signature, 'hex');
+        if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return 'invalid';
+        // Checked after the signature, so a tampered expiry is reported as invalid rather than expired
+        return Number(expires) * 1000 < Date.now() ? 'expired' : 'valid';
+    }
+}
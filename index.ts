@@ -2,6 +2,32 @@ import express, { Request, Response, NextFunction } from 'express';
 import multer from 'multer';
 import session from 'express-session';
 import { SpeechGenerator } from './speechGenerator';
+import { DocumentProcessor, MarkupError } from './documentProcessor';
+import { isPredefinedVoice, predefinedVoices } from './voices';
+import { DialogueScript, ScriptError, SpeakerMapping } from './dialogueScript';
+import { ChatClient } from './chatClient';
+import { Translator } from './translator';
+import { SUMMARY_PRESETS, TextSummarizer, isSummaryLength } from './textSummarizer';
+import { LanguageInfo, findLanguage, languageInstructions, supportedLanguages } from './languages';
+import { configuredProviderName, createTtsProvider, VOICE_OPTION_RANGES, VoiceOptions } from './ttsProvider';
+import { DocumentExtractor, DocumentExtractionError } from './documentExtractor';
+import { JobProgress, JobQueue, SpeechJobInput } from './jobQueue';
+import { Job, MemoryJobStore, RedisClient, RedisJobStore } from './jobStore';
+import { AUDIO_FORMATS, AudioFormat, GAIN_FORMATS, audioContentType, isAudioFormat } from './audioUtils';
+import { AudioMerger } from './audioMerger';
+import { CachedTtsProvider, createAudioCache } from './audioCache';
+import { Analytics, FileAnalyticsStore, RedisAnalyticsStore } from './analytics';
+import { FileLexiconStore, LexiconEntryInput, LexiconError, PronunciationLexicon, RedisLexiconStore } from './pronunciationLexicon';
+import { MemoryUsageCounterStore, QuotaExceededError, RedisUsageCounterStore, UsageMeter } from './usageMeter';
+import { AccountError, FileUserStore, RedisUserStore, UserAccount, UserAccounts, credentialVersion, toPublicUser } from './userAccounts';
+import { ApiTokenError, ApiTokens, FileApiTokenStore, RedisApiTokenStore, TokenScope, toPublicToken } from './apiTokens';
+import { AuditLog, FileAuditStore, RedisAuditStore } from './auditLog';
+import { LoginThrottle, MemoryLoginAttemptStore, RedisLoginAttemptStore } from './loginThrottle';
+import { MemoryTokenBucketStore, RateLimiter, RedisTokenBucketStore, parseRateLimitPolicy } from './rateLimiter';
+import { GeneratedAudio } from './generatedAudio';
+import { ConversionHistory, FileHistoryStore, HistoryEntry, HistorySource, RedisHistoryStore } from './conversionHistory';
+import { FileRetention } from './fileRetention';
+import { csrfProtection, csrfToken } from './csrfProtection';
 import * as fs from 'fs';
 import * as path from 'path';
 import dotenvSafe from 'dotenv-safe';
@@ -10,6 +36,23 @@ import RedisStore from 'connect-redis';
 import { createClient } from 'redis';
 import crypto from 'crypto';
 
+declare module 'express-session' {
+    interface SessionData {
+        userId: string;     // the signed-in account
+        credentialVersion: string;  // the account's credentialVersion at sign-in; a password change ends the session
+    }
+}
+
+declare global {
+    namespace Express {
+        interface Request {
+            account?: UserAccount;   // loaded from the session or API token by checkAuth on every request
+            tokenScopes?: TokenScope[];  // set when the request authenticated with an API token
+            apiTokenId?: string;         // likewise
+        }
+    }
+}
+
 // Only validate .env.example in non-production environments
 if (process.env.NODE_ENV !== 'production') {
     // Allow empty values for development
@@ -22,7 +65,8 @@ if (process.env.NODE_ENV !== 'production') {
 }
 
 // Validate required environment variables
-if (!process.env.OPENAI_API_KEY) {
+const ttsProviderName = configuredProviderName();
+if (ttsProviderName === 'openai' && !process.env.OPENAI_API_KEY && !process.env.OPENAI_BASE_URL) {
     throw new Error("OPENAI_API_KEY environment variable is not set.");
 }
 if (process.env.ENABLE_AUTH === 'true' && !process.env.SESSION_SECRET) {
@@ -30,6 +74,11 @@ if (process.env.ENABLE_AUTH === 'true' && !process.env.SESSION_SECRET) {
 }
 
 const app = express();
+// Behind a reverse proxy (e.g. Vercel), trust X-Forwarded-For so req.ip is the client's address
+if (process.env.TRUST_PROXY) {
+    const trustProxy = process.env.TRUST_PROXY;
+    app.set('trust proxy', trustProxy === 'true' ? true : /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+}
 app.use(express.json());
 app.use(express.urlencoded({ extended: true })); // Parse URL-encoded form data
 
@@ -64,28 +113,26 @@ if (distPublicPath !== publicPath && fs.existsSync(distPublicPath)) {
     app.use(express.static(distPublicPath));
 }
 
-// Serve generated files (adding this before other routes)
-const writableDir = process.env.WRITABLE_DIR || '/tmp'; // Default to '/tmp' for Vercel
-const generatedDir = path.join(writableDir, 'generated');
-// Ensure the generated directory exists
-if (!fs.existsSync(generatedDir)) {
-    fs.mkdirSync(generatedDir, { recursive: true });
+async function initializeRedisClient(): Promise<RedisClient | null> {
+    const redisUrl = process.env.REDIS_URL;
+    if (!redisUrl) {
+        return null;
+    }
+    const redisClient = createClient({ url: redisUrl });
+    redisClient.on('error', (err) => console.error('Redis Client Error:', err));
+    try {
+        await redisClient.connect();
+        console.log('Connected to Redis');
+    } catch (err: any) {
+        console.error('Failed to connect to Redis:', err.message);
+        throw err;
+    }
+    return redisClient;
 }
-app.use('/generated', express.static(generatedDir));
 
-async function initializeSessionStore() {
-    const redisUrl = process.env.REDIS_URL;
-    if (redisUrl) {
+function initializeSessionStore(redisClient: RedisClient | null) {
+    if (redisClient) {
         // Use Redis if REDIS_URL is provided
-        const redisClient = createClient({ url: redisUrl });
-        redisClient.on('error', (err) => console.error('Redis Client Error:', err));
-        try {
-            await redisClient.connect();
-            console.log('Connected to Redis');
-        } catch (err) {
-            console.error('Failed to connect to Redis:', err.message);
-            throw err;
-        }
         return new RedisStore({ client: redisClient });
     } else {
         // Fallback to MemoryStore
@@ -102,6 +149,7 @@ const ALLOWED_FILE_TYPES = [
     'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
     'application/pdf',
     'application/rtf',
+    'text/rtf',
 ];
 
 // Configure multer storage and file filter
@@ -128,7 +176,7 @@ const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilt
     if (ALLOWED_FILE_TYPES.includes(file.mimetype)) {
         cb(null, true);
     } else {
-        cb(new Error('Invalid file type. Only text documents are allowed.'), false);
+        cb(new Error('Invalid file type. Only text, Word, PDF and RTF documents are allowed.'));
     }
 };
 
@@ -158,7 +206,8 @@ const handleMulterError = (err: any, req: Request, res: Response, next: NextFunc
 };
 
 (async () => {
-    const sessionStore = await initializeSessionStore();
+    const redisClient = await initializeRedisClient();
+    const sessionStore = initializeSessionStore(redisClient);
     app.use(session({
         store: sessionStore,
         secret: process.env.SESSION_SECRET || 'default_secret', // Use a secure secret in production
@@ -216,23 +265,123 @@ const handleMulterError = (err: any, req: Request, res: Response, next: NextFunc
         next();
     });
 
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-        throw new Error("OPENAI_API_KEY environment variable is not set.");
-    }
+    const ttsProvider = createTtsProvider(process.env.OPENAI_API_KEY || '');
+    console.log(`Using TTS provider: ${ttsProvider.name}`);
+
+    // Use a writable directory for uploads and generated files
+    const writableDir = process.env.WRITABLE_DIR || '/tmp'; // Default to '/tmp' for Vercel
+    const uploadDir = path.join(writableDir, 'uploads');
+    const generatedDir = path.join(writableDir, 'generated');
+
+    // Ensure the uploads and generated directories exist
+    [uploadDir, generatedDir].forEach(dir => {
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+    });
 
     const enableAuth = process.env.ENABLE_AUTH === 'true'; // Toggle authentication via environment variable
-    const username = process.env.APP_USERNAME || "admin"; // Default username
-    const password = process.env.APP_PASSWORD || "password"; // Default password
 
-    // Middleware to check authentication
-    function checkAuth(req: Request, res: Response, next: NextFunction) {
-        if (!enableAuth || req.session.isAuthenticated) {
+    // User accounts, in Redis when available and in a JSON file otherwise.
+    // The first administrator is created from APP_USERNAME/APP_PASSWORD while there are no accounts yet.
+    const accounts = new UserAccounts(redisClient
+        ? new RedisUserStore(redisClient)
+        : new FileUserStore(path.join(writableDir, 'users.json')));
+    if (enableAuth) {
+        const admin = await accounts.ensureAdmin(process.env.APP_USERNAME || "admin", process.env.APP_PASSWORD || "password");
+        if (admin) {
+            console.log(`Created administrator account "${admin.username}"`);
+            if (!process.env.APP_PASSWORD) {
+                console.warn('APP_PASSWORD is not set: the administrator password is "password". Change it after signing in.');
+            }
+        }
+    }
+
+    // Personal API tokens for scripts, sent as "Authorization: Bearer <token>"
+    const apiTokens = new ApiTokens(redisClient
+        ? new RedisApiTokenStore(redisClient)
+        : new FileApiTokenStore(path.join(writableDir, 'api-tokens.json')));
+
+    // Pages opened in a browser are sent to the login form; API clients get a JSON 401
+    function rejectUnauthenticated(req: Request, res: Response) {
+        if (req.method === 'GET' && (req.headers.accept || '').includes('text/html')) {
+            return res.redirect('/login');
+        }
+        res.set('WWW-Authenticate', 'Bearer');
+        res.status(401).json({
+            error: 'Authentication required. Sign in or send an API token as "Authorization: Bearer <token>".',
+            code: 'AUTH_REQUIRED'
+        });
+    }
+
+    // Security events (lockouts, account and token changes), in Redis or an append-only file
+    const audit = new AuditLog(redisClient
+        ? new RedisAuditStore(redisClient)
+        : new FileAuditStore(path.join(writableDir, 'audit.jsonl')));
+
+    // Failed sign-ins per username and per address, counted in Redis when available
+    const loginThrottle = new LoginThrottle(redisClient ? new RedisLoginAttemptStore(redisClient) : new MemoryLoginAttemptStore());
+
+    // Middleware to check authentication, by API token or session. The account is looked up on every request,
+    // so disabling a user, changing their role or changing their password takes effect immediately.
+    async function checkAuth(req: Request, res: Response, next: NextFunction) {
+        if (!enableAuth) {
             return next();
         }
-        res.redirect('/login');
+        try {
+            const bearer = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '');
+            if (bearer) {
+                const token = await apiTokens.verify(bearer[1]);
+                const account = token && await accounts.get(token.userId);
+                if (!token || !account || account.disabled) {
+                    res.set('WWW-Authenticate', 'Bearer error="invalid_token"');
+                    return res.status(401).json({ error: 'The API token is invalid, expired or revoked.', code: 'INVALID_TOKEN' });
+                }
+                req.account = account;
+                req.tokenScopes = token.scopes;
+                req.apiTokenId = token.id;
+                return next();
+            }
+            const account = req.session.userId ? await accounts.get(req.session.userId) : null;
+            if (account && !account.disabled && req.session.credentialVersion === credentialVersion(account)) {
+                req.account = account;
+                return next();
+            }
+        } catch (error) {
+            return next(error);
+        }
+        if (req.session.userId) {
+            return req.session.destroy(() => rejectUnauthenticated(req, res));
+        }
+        rejectUnauthenticated(req, res);
     }
 
+    // Requests made with an API token need one of the given scopes; signed-in sessions may do everything their role allows
+    function requireScope(...scopes: TokenScope[]) {
+        return (req: Request, res: Response, next: NextFunction) => {
+            if (!req.tokenScopes || scopes.some(scope => req.tokenScopes!.includes(scope))) {
+                return next();
+            }
+            res.status(403).json({
+                error: `This API token needs the ${scopes.map(scope => `"${scope}"`).join(' or ')} scope for this request.`,
+                code: 'INSUFFICIENT_SCOPE'
+            });
+        };
+    }
+
+    // Token-bucket rate limits. The routes answered before sign-in is checked (the login form, the CSRF token,
+    // sign-out and signed audio links) are limited per client address, as no user or token is known yet.
+    const rateLimiter = new RateLimiter(redisClient ? new RedisTokenBucketStore(redisClient) : new MemoryTokenBucketStore());
+    const limitByAddress = rateLimiter.limit('address', parseRateLimitPolicy(process.env.RATE_LIMIT_ADDRESS, { capacity: 300, windowSeconds: 60 }), req => `ip:${req.ip}`);
+    app.use(['/login', '/logout', '/csrf-token', '/generated'], limitByAddress);
+
+    app.use(csrfProtection(enableAuth));
+
+    // The page fetches its CSRF token here and sends it with every POST, PUT, PATCH and DELETE
+    app.get('/csrf-token', (req, res) => {
+        res.json({ csrfToken: enableAuth ? csrfToken(req) : null });
+    });
+
     // Serve the login page with WCAG-compliant form
     app.get('/login', (req, res) => {
         if (!enableAuth) {
@@ -344,6 +493,7 @@ const handleMulterError = (err: any, req: Request, res: Response, next: NextFunc
                     <h1>Login</h1>
                     <div id="error-message" class="error-message" role="alert"></div>
                     <form id="login-form" method="POST" action="/login">
+                        <input type="hidden" name="_csrf" value="${csrfToken(req)}">
                         <div class="form-group">
                             <label for="username">Username:</label>
                             <input type="text" id="username" name="username" required autocomplete="username" aria-required="true">
@@ -361,7 +511,15 @@ const handleMulterError = (err: any, req: Request, res: Response, next: NextFunc
                     const error = urlParams.get('error');
                     if (error) {
                         const errorMessage = document.getElementById('error-message');
-                        errorMessage.textContent = 'Invalid username or password. Please try again.';
+                        const retry = Number(urlParams.get('retry')) || 0;
+                        const wait = retry >= 120 ? Math.ceil(retry / 60) + ' minutes' : retry + (retry === 1 ? ' second' : ' seconds');
+                        if (error === 'locked') {
+                            errorMessage.textContent = 'Too many failed sign-in attempts. Try again in ' + wait + '.';
+                        } else if (error === 'expired') {
+                            errorMessage.textContent = 'The sign-in form expired. Please try again.';
+                        } else {
+                            errorMessage.textContent = 'Invalid username or password. ' + (retry > 0 ? 'Wait ' + wait + ' before trying again.' : 'Please try again.');
+                        }
                         errorMessage.style.display = 'block';
                     }
                     // Focus on username field when page loads
@@ -373,16 +531,46 @@ const handleMulterError = (err: any, req: Request, res: Response, next: NextFunc
     });
 
     // Handle login form submission
-    app.post('/login', (req, res) => {
+    app.post('/login', async (req, res, next) => {
         if (!enableAuth) {
             return res.redirect('/');
         }
-        const { username: providedUsername, password: providedPassword } = req.body;
-        if (providedUsername === username && providedPassword === password) {
-            req.session.isAuthenticated = true;
-            return res.redirect('/');
+        const username = typeof req.body.username === 'string' ? req.body.username : '';
+        const ip = req.ip || 'unknown';
+        try {
+            // Locked out or still waiting after a failure: refused without checking the password
+            const wait = await loginThrottle.retryAfter(username, ip);
+            if (wait > 0) {
+                res.set('Retry-After', String(wait));
+                return res.redirect(`/login?error=locked&retry=${wait}`);
+            }
+            const account = await accounts.authenticate(username, req.body.password);
+            if (!account) {
+                const failure = await loginThrottle.recordFailure(username, ip);
+                for (const scope of failure.lockedOut) {
+                    await audit.record({
+                        event: 'login.lockout',
+                        actor: null,
+                        target: scope === 'user' ? username : ip,
+                        ip,
+                        detail: { scope, seconds: failure.retryAfterSeconds }
+                    });
+                }
+                return res.redirect(failure.lockedOut.length > 0
+                    ? `/login?error=locked&retry=${failure.retryAfterSeconds}`
+                    : `/login?error=true&retry=${failure.retryAfterSeconds}`);
+            }
+            await loginThrottle.reset(username);
+            // A fresh session ID on sign-in, so an ID planted before login can't be reused
+            req.session.regenerate(error => {
+                if (error) return next(error);
+                req.session.userId = account.id;
+                req.session.credentialVersion = credentialVersion(account);
+                res.redirect('/');
+            });
+        } catch (error) {
+            next(error);
         }
-        res.redirect('/login?error=true');
     });
 
     // Handle logout
@@ -392,20 +580,86 @@ const handleMulterError = (err: any, req: Request, res: Response, next: NextFunc
         });
     });
 
+    // The caller may see a conversion made by this user: their own, or any as an administrator.
+    // Everyone may see everything when authentication is off.
+    function canAccessConversion(req: Request, owner: string | null): boolean {
+        return !enableAuth || req.account?.role === 'admin' || (owner !== null && owner === req.account?.username);
+    }
+
+    // Generated audio is private. Links are signed with SESSION_SECRET; without one, with a key that lasts until restart.
+    if (!process.env.SESSION_SECRET) {
+        console.warn('SESSION_SECRET is not set: signed audio links will stop working when the server restarts.');
+    }
+    const generatedAudio = new GeneratedAudio(generatedDir, process.env.SESSION_SECRET || crypto.randomBytes(32));
+    const signedUrlTtlSeconds = parseInt(process.env.SIGNED_URL_TTL_SECONDS || '3600', 10);
+
+    function sendGeneratedFile(res: Response, filePath: string) {
+        const contentType = audioContentType(filePath);
+        if (contentType) res.setHeader('Content-Type', contentType);
+        res.setHeader('Cache-Control', 'private, no-store');
+        res.sendFile(filePath, error => {
+            if (error && !res.headersSent) {
+                res.status(404).json({ error: 'Audio file not found. It may have been deleted.', code: 'FILE_NOT_FOUND' });
+            }
+        });
+    }
+
+    // A signed link ("expires" and "signature") is enough on its own; requests without one fall through to the
+    // session or API token check below
+    function serveSignedAudio(req: Request, res: Response, next: NextFunction) {
+        if (req.query.signature === undefined && req.query.expires === undefined) {
+            return next();
+        }
+        const filePath = generatedAudio.resolve(req.params.jobId, req.params.file);
+        if (!filePath) {
+            return res.status(404).json({ error: 'Audio file not found.', code: 'FILE_NOT_FOUND' });
+        }
+        const check = generatedAudio.verify(`/generated/${req.params.jobId}/${req.params.file}`, req.query.expires, req.query.signature);
+        if (check === 'expired') {
+            return res.status(410).json({ error: 'This link has expired. Ask for a new one.', code: 'LINK_EXPIRED' });
+        }
+        if (check === 'invalid') {
+            return res.status(403).json({ error: 'This link is not valid.', code: 'INVALID_SIGNATURE' });
+        }
+        sendGeneratedFile(res, filePath);
+    }
+
+    async function serveOwnedAudio(req: Request, res: Response) {
+        const filePath = generatedAudio.resolve(req.params.jobId, req.params.file);
+        const owner = filePath ? await generatedAudio.owner(req.params.jobId) : undefined;
+        if (!filePath || (!owner && !fs.existsSync(filePath))) {
+            return res.status(404).json({ error: 'Audio file not found.', code: 'FILE_NOT_FOUND' });
+        }
+        // Directories without an owner record predate them and are treated like anonymous conversions
+        if (!canAccessConversion(req, owner ? owner.user : null)) {
+            return res.status(403).json({ error: 'This audio belongs to another user.', code: 'FORBIDDEN' });
+        }
+        sendGeneratedFile(res, filePath);
+    }
+
+    // Generated audio: by signed link, or for the signed-in owner
+    app.get('/generated/:jobId/:file', serveSignedAudio, checkAuth, requireScope('generate', 'history'), serveOwnedAudio);
+
     // Use authentication middleware for protected routes
     app.use(checkAuth);
 
-    // Use a writable directory for uploads and generated files
-    const writableDir = process.env.WRITABLE_DIR || '/tmp'; // Default to '/tmp' for Vercel
-    const uploadDir = path.join(writableDir, 'uploads');
-    const generatedDir = path.join(writableDir, 'generated');
+    // Everything else is limited per API token, signed-in user or (without either) client address.
+    // Every route shares the default limit; speech generation also has its own, much lower one.
+    function rateLimitKey(req: Request): string {
+        if (req.apiTokenId) return `token:${req.apiTokenId}`;
+        if (req.account) return `user:${req.account.id}`;
+        return `ip:${req.ip}`;
+    }
+    app.use(rateLimiter.limit('default', parseRateLimitPolicy(process.env.RATE_LIMIT_DEFAULT, { capacity: 120, windowSeconds: 60 }), rateLimitKey));
+    const limitGeneration = rateLimiter.limit('generate', parseRateLimitPolicy(process.env.RATE_LIMIT_GENERATE, { capacity: 10, windowSeconds: 60 }), rateLimitKey);
 
-    // Ensure the uploads and generated directories exist
-    [uploadDir, generatedDir].forEach(dir => {
-        if (!fs.existsSync(dir)) {
-            fs.mkdirSync(dir, { recursive: true });
+    // Admin endpoints: accounts with the admin role when authentication is on, everyone otherwise (like the rest of the app)
+    function requireAdmin(req: Request, res: Response, next: NextFunction) {
+        if (!enableAuth || req.account?.role === 'admin') {
+            return requireScope('admin')(req, res, next);
         }
-    });
+        res.status(403).json({ error: 'This endpoint is only available to administrators.', code: 'ADMIN_REQUIRED' });
+    }
 
     // Serve the main upload page
     app.get('/', (req, res) => {
@@ -431,235 +685,1266 @@ const handleMulterError = (err: any, req: Request, res: Response, next: NextFunc
                               Searched paths: ${possiblePaths.join(', ')}`);
     });
 
-    // Serve generated files
-    app.use('/generated', express.static(generatedDir));
-
     // Serve robots.txt file
     app.use('/robots.txt', express.static(path.join(__dirname, 'public', 'robots.txt')));
 
-    // Predefined list of voices including Shimmer and Nova
-    const predefinedVoices = [
-        { id: 'shimmer', name: 'Shimmer (Female, Enthusiastic)' },
-        { id: 'nova', name: 'Nova (Female, Gentle)' },
-        { id: 'alloy', name: 'Alloy (Non-binary, Neutral)' },
-        { id: 'coral', name: 'Coral (Female, Warm)' },
-        { id: 'echo', name: 'Echo (Male, Baritone)' },
-        { id: 'fable', name: 'Fable (Male, British)' },
-        { id: 'onyx', name: 'Onyx (Male, Deep)' },
-        { id: 'sage', name: 'Sage (Male, Calm)' },
-        { id: 'ash', name: 'Ash (Male, Formal)' },
-        { id: 'ballad', name: 'Ballad (Male, Soothing)' }
-    ];
-
     // Endpoint to fetch the list of voices
     app.get('/voices', (req, res) => {
         res.json({ voices: predefinedVoices });
     });
 
-    // Endpoint to process the uploaded file - use error handling middleware
-    app.post('/process', upload.single('file'), handleMulterError, async (req: Request, res: Response) => {
-        if (!req.file) {
-            return res.status(400).json({ 
-                error: 'Uploaded file is required',
-                code: 'FILE_REQUIRED' 
-            });
+    // Target languages for /translate-and-speak
+    app.get('/languages', (req, res) => {
+        res.json({ languages: supportedLanguages.map(({ code, name }) => ({ code, name })) });
+    });
+
+    // Chat completions for translation and summaries, on the same OpenAI-compatible endpoint as speech
+    const chatClient = new ChatClient(process.env.OPENAI_API_KEY || '');
+    const translator = new Translator(process.env.OPENAI_API_KEY || '', chatClient);
+    const summarizer = new TextSummarizer(process.env.OPENAI_API_KEY || '', chatClient);
+
+    // Pronunciation dictionaries, in Redis when available and in a JSON file next to the generated audio otherwise
+    const lexicon = new PronunciationLexicon(redisClient
+        ? new RedisLexiconStore(redisClient)
+        : new FileLexiconStore(path.join(writableDir, 'lexicon.json')));
+
+    // The signed-in user's name, or null when authentication is off.
+    // Personal dictionaries, quotas and analytics are kept under this name.
+    function currentUser(req: Request): string | null {
+        return req.account ? req.account.username : null;
+    }
+
+    // Identical chunks (same text, voice, instructions, model, format and speed) are served from the audio cache
+    const audioCache = createAudioCache(redisClient, writableDir);
+    const speechProvider = audioCache ? new CachedTtsProvider(ttsProvider, audioCache) : ttsProvider;
+
+    // Background job queue; job records live in Redis when available so status survives restarts
+    const jobStore = redisClient ? new RedisJobStore(redisClient) : new MemoryJobStore();
+    const jobQueue = new JobQueue(jobStore, () => new SpeechGenerator(speechProvider), { generatedDir });
+
+    // Every finished conversion is recorded for /admin/analytics, in Redis or an append-only file
+    const analytics = new Analytics(redisClient
+        ? new RedisAnalyticsStore(redisClient)
+        : new FileAnalyticsStore(path.join(writableDir, 'analytics.jsonl')));
+    jobQueue.on('finished', (job: Job) => {
+        analytics.trackConversion(job).catch(err => console.error(`Failed to record analytics for job ${job.id}:`, err));
+    });
+
+    // Character quotas per user and for the whole service, counted in Redis when available
+    const usageMeter = new UsageMeter(redisClient ? new RedisUsageCounterStore(redisClient) : new MemoryUsageCounterStore(), ttsProvider.model);
+    jobQueue.on('finished', (job: Job) => {
+        // Jobs that produced no audio didn't cost anything, so their characters are given back
+        if (job.state !== 'completed' && job.completedChunks === 0) {
+            usageMeter.refund(job.user ?? null, job.characters, new Date(job.createdAt))
+                .catch(err => console.error(`Failed to refund quota for job ${job.id}:`, err));
         }
-        const voice = req.body.voice || "alloy"; // Default to "alloy" if no voice is selected
-        const instructions = req.body.instructions || "Speak in a neutral tone."; // Default instructions
+    });
+
+    // Every conversion is kept in its user's history, in Redis or a local file
+    const history = new ConversionHistory(redisClient
+        ? new RedisHistoryStore(redisClient)
+        : new FileHistoryStore(path.join(writableDir, 'history.json')), generatedDir);
+    jobQueue.on('finished', (job: Job) => {
+        history.finish(job).catch(err => console.error(`Failed to update history for job ${job.id}:`, err));
+    });
+
+    // Started once every 'finished' listener is in place, so jobs failed as interrupted are refunded and recorded too
+    jobQueue.start();
+
+    // Count the submitted text against the caller's quotas, then queue the job and add it to the caller's history.
+    // Sends a 429 and returns null when a quota would be exceeded.
+    async function submitMetered(req: Request, res: Response, input: Omit<SpeechJobInput, 'user'>): Promise<Job | null> {
+        const user = currentUser(req);
         try {
-            // Read file asynchronously
-            let document: string;
-            try {
-                document = await fs.promises.readFile(req.file.path, 'utf-8');
-            } catch (readError) {
-                console.error('Error reading file:', readError);
-                return res.status(400).json({ 
-                    error: 'Could not read the uploaded file. Make sure it contains valid text.',
-                    code: 'FILE_READ_ERROR'
+            await usageMeter.reserve(user, input.text.length);
+        } catch (error: any) {
+            if (!(error instanceof QuotaExceededError)) throw error;
+            console.warn(`Quota exceeded for ${user ?? 'anonymous'}: ${error.message}`);
+            res.set('Retry-After', String(error.retryAfterSeconds));
+            res.status(error.statusCode).json({ error: error.message, code: error.errorCode, quota: error.quota });
+            return null;
+        }
+        let job: Job;
+        try {
+            job = await jobQueue.submit({ ...input, user });
+        } catch (error) {
+            await usageMeter.refund(user, input.text.length, new Date());
+            throw error;
+        }
+        // Regenerations pass on the original's file name and ID in res.locals.historySource
+        const source: HistorySource = res.locals.historySource || { fileName: req.file?.originalname };
+        history.record(job, input.text, {
+            voice: job.voice,
+            // Translations get the language's narration style added to the caller's instructions; only the latter is kept
+            instructions: job.language ? req.body.instructions || '' : job.instructions,
+            format: job.format,
+            voiceOptions: job.voiceOptions,
+            merge: job.merge,
+            normalize: job.normalize,
+            punctuate: job.punctuate,
+            markup: job.markup,
+            script: !!input.segments,
+            speakers: job.speakers,
+            language: job.language,
+            summary: job.summary,
+        }, source).catch(err => console.error(`Failed to add job ${job.id} to the history:`, err));
+        return job;
+    }
+
+    // Conversions answer at once with 202 and a job ID to poll. "wait" (or "async": false, from before background
+    // processing was the default) holds the request open until the job finishes and answers with its result instead.
+    function wantsToWait(req: Request): boolean {
+        const wait = req.body.wait ?? req.query.wait;
+        const async = req.body.async ?? req.query.async;
+        return wait === true || wait === 'true' || async === false || async === 'false';
+    }
+
+    // "merge" joins the chunks into one file, returned as "file" alongside the individual parts
+    function wantsMerged(req: Request): boolean {
+        return req.body.merge === true || req.body.merge === 'true' || req.query.merge === 'true';
+    }
+
+    // Text normalization (numbers, dates, units, abbreviations read out as words) is on unless "normalize" is false
+    function wantsNormalized(req: Request): boolean {
+        const value = req.body.normalize ?? req.query.normalize;
+        return value !== false && value !== 'false';
+    }
+
+    // "punctuate" gives headings, list items and paragraph ends without punctuation a full stop, so they are
+    // read with a pause. Off by default: it only helps text whose line breaks are not in mid-sentence.
+    function wantsPunctuated(req: Request): boolean {
+        return req.body.punctuate === true || req.body.punctuate === 'true' || req.query.punctuate === 'true';
+    }
+
+    // Pause/voice/emphasis markup is only interpreted with "markup": true or when the text starts with <speak>;
+    // otherwise text like "use <p> tags" or "&amp;" is spoken as written
+    function wantsMarkup(req: Request, text: string): boolean {
+        return req.body.markup === true || req.body.markup === 'true' || req.query.markup === 'true' || DocumentProcessor.isSpeakDocument(text);
+    }
+
+    // "voice" is one of the predefined voices (default alloy). Sends a 400 and returns null for any other name.
+    function resolveVoice(req: Request, res: Response): string | null {
+        const voice = String(req.body.voice || 'alloy').toLowerCase();
+        if (!isPredefinedVoice(voice)) {
+            res.status(400).json({
+                error: `Unknown voice "${voice}". Choose one of: ${predefinedVoices.map(known => known.id).join(', ')}.`,
+                code: 'UNKNOWN_VOICE'
+            });
+            return null;
+        }
+        return voice;
+    }
+
+    // "format" selects the output audio format (default mp3). Sends a 400 and returns null when it can't be used.
+    function resolveOutputFormat(req: Request, res: Response): AudioFormat | null {
+        const format = String(req.body.format || req.query.format || 'mp3').toLowerCase();
+        if (!isAudioFormat(format)) {
+            res.status(400).json({
+                error: `Unsupported audio format "${format}". Choose one of: ${AUDIO_FORMATS.join(', ')}.`,
+                code: 'INVALID_FORMAT'
+            });
+            return null;
+        }
+        if (!ttsProvider.formats.includes(format)) {
+            res.status(400).json({
+                error: `The ${ttsProvider.name} speech provider cannot produce ${format} audio. Choose one of: ${ttsProvider.formats.join(', ')}.`,
+                code: 'UNSUPPORTED_FORMAT'
+            });
+            return null;
+        }
+        if (wantsMerged(req) && !AudioMerger.canMerge(format)) {
+            res.status(400).json({
+                error: `${format} audio cannot be combined into a single file. Choose one of: ${AudioMerger.FORMATS.join(', ')}.`,
+                code: 'MERGE_NOT_SUPPORTED'
+            });
+            return null;
+        }
+        return format;
+    }
+
+    // Optional "speed", "pitch" and "volume" fields (numbers or numeric strings from form uploads).
+    // Sends a 400 and returns null when a value is out of range or can't be applied to the format.
+    function resolveVoiceOptions(req: Request, res: Response, format: AudioFormat): VoiceOptions | null {
+        const voiceOptions: VoiceOptions = {};
+        for (const option of Object.keys(VOICE_OPTION_RANGES) as Array<keyof VoiceOptions>) {
+            const raw = req.body[option];
+            if (raw === undefined || raw === null || raw === '') continue;
+            const value = Number(raw);
+            const [min, max] = VOICE_OPTION_RANGES[option];
+            if (!Number.isFinite(value) || value < min || value > max) {
+                res.status(400).json({
+                    error: `${option} must be a number between ${min} and ${max}.`,
+                    code: `INVALID_${option.toUpperCase()}`
                 });
+                return null;
             }
-            // Check if document is empty
-            if (!document.trim()) {
-                return res.status(400).json({ 
-                    error: 'The uploaded file is empty or contains no text.',
-                    code: 'EMPTY_FILE'
+            voiceOptions[option] = value;
+        }
+        if (voiceOptions.volume !== undefined && voiceOptions.volume !== 1 && !GAIN_FORMATS.includes(format)) {
+            res.status(400).json({
+                error: `Volume can only be adjusted for ${GAIN_FORMATS.join(' or ')} output.`,
+                code: 'VOLUME_NOT_SUPPORTED'
+            });
+            return null;
+        }
+        return voiceOptions;
+    }
+
+    // Check pause/voice/emphasis markup before queueing, so mistakes are reported instead of failing the job.
+    // Sends a 400 and returns false when the markup is invalid or names an unknown voice.
+    function validateMarkup(text: string, res: Response): boolean {
+        try {
+            const unknownVoices = DocumentProcessor.parseMarkup(text)
+                .map(segment => segment.type === 'speech' ? segment.voice : undefined)
+                .filter((voice): voice is string => !!voice && !isPredefinedVoice(voice));
+            if (unknownVoices.length > 0) {
+                res.status(400).json({
+                    error: `Unknown voice "${unknownVoices[0]}" in <voice> markup. Choose one of: ${predefinedVoices.map(known => known.id).join(', ')}.`,
+                    code: 'UNKNOWN_VOICE'
                 });
+                return false;
             }
-            const speechGenerator = new SpeechGenerator(apiKey);
-            console.log(`Generating speech with voice: "${voice}" and instructions: "${instructions}"`);
-            const generatedFiles = await speechGenerator.generateSpeechFromDocument(document, generatedDir, voice, instructions);
-            // Remove uploaded file asynchronously
-            await fs.promises.unlink(req.file.path);
-            console.log('Speech generation complete. Files saved to:', generatedDir);
-            if (generatedFiles.length === 0) {
-                return res.status(500).json({ 
-                    error: 'Failed to generate any audio files.',
-                    code: 'NO_FILES_GENERATED'
-                });
+            return true;
+        } catch (error) {
+            if (error instanceof MarkupError) {
+                res.status(error.statusCode).json({ error: error.message, code: error.errorCode });
+                return false;
             }
-            res.status(200).json({ 
-                message: 'Speech generation complete', 
-                files: generatedFiles.map(file => `/generated/${path.basename(file)}`),
-                totalChunks: generatedFiles.length,
-                voice: voice
+            throw error;
+        }
+    }
+
+    // Dialogue scripts ("script": true) are "NAME: line" text; "speakers" optionally maps names to voices,
+    // e.g. {"ALICE": "nova", "BOB": {"voice": "onyx", "instructions": "Sound tired."}}
+    function wantsScript(req: Request): boolean {
+        return req.body.script === true || req.body.script === 'true' || req.query.script === 'true';
+    }
+
+    // Parse a dialogue script into per-speaker segments. Sends a 400 and returns null when it can't be used.
+    function prepareScript(text: string, markup: boolean, req: Request, res: Response): Pick<SpeechJobInput, 'segments' | 'speakers'> | null {
+        let mapping: unknown = req.body.speakers || {};
+        if (typeof mapping === 'string') {
+            try {
+                mapping = mapping.trim() ? JSON.parse(mapping) : {}; // form uploads send the mapping as JSON text
+            } catch {
+                mapping = null;
+            }
+        }
+        if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+            res.status(400).json({
+                error: 'speakers must be an object mapping speaker names to voices, e.g. {"ALICE": "nova"}.',
+                code: 'INVALID_SPEAKERS'
             });
-        } catch (error: any) {
-            // Detailed error logging
-            console.error('Error generating speech:', error);
-            // Check if it's an OpenAI Error with statusCode
-            if (error.name === 'OpenAIError') {
-                return res.status(error.statusCode).json({
-                    error: error.message,
-                    code: error.errorCode,
-                });
+            return null;
+        }
+        try {
+            const lines = DialogueScript.parse(text);
+            const voices = DialogueScript.assignVoices(lines, mapping as SpeakerMapping);
+            const segments = DialogueScript.toSegments(lines, voices, markup);
+            const speakers = Object.fromEntries([...voices].map(([speaker, speakerVoice]) => [speaker, speakerVoice.voice]));
+            return { segments, speakers };
+        } catch (error) {
+            if (error instanceof ScriptError || error instanceof MarkupError) {
+                res.status(error.statusCode).json({ error: error.message, code: error.errorCode });
+                return null;
             }
-            // Handle timeout errors specifically
-            if (error.message && (error.message.includes('timeout') || 
-                                 error.message.includes('timed out') || 
-                                 error.code === 'ECONNABORTED' ||
-                                 error.code === 'ETIMEDOUT')) {
-                return res.status(504).json({
-                    error: 'The request to generate speech timed out. Try with a smaller text file.',
-                    code: 'TIMEOUT_ERROR'
-                });
+            throw error;
+        }
+    }
+
+    // Summary audio ("summary": "brief" | "standard" | "detailed"): the job speaks a summary instead of the full text.
+    // Returns {} when no summary was asked for; sends an error and returns null when it can't be made.
+    function prepareSummary(req: Request, res: Response): Pick<SpeechJobInput, 'summary' | 'prepareText'> | null {
+        const length = req.body.summary || req.query.summary;
+        if (!length || length === 'none' || length === 'false') {
+            return {};
+        }
+        if (!isSummaryLength(length)) {
+            res.status(400).json({
+                error: `Unknown summary length "${length}". Choose one of: ${Object.entries(SUMMARY_PRESETS).map(([name, preset]) => `${name} (${preset.description})`).join(', ')}.`,
+                code: 'INVALID_SUMMARY_LENGTH'
+            });
+            return null;
+        }
+        if (wantsScript(req)) {
+            res.status(400).json({
+                error: 'Dialogue scripts cannot be summarized. Turn off either script or summary mode.',
+                code: 'SUMMARY_NOT_SUPPORTED'
+            });
+            return null;
+        }
+        if (!chatClient.isConfigured()) {
+            res.status(503).json({
+                error: 'Summaries are not available: no OpenAI API key or compatible endpoint is configured.',
+                code: 'SUMMARY_UNAVAILABLE'
+            });
+            return null;
+        }
+        return {
+            summary: length,
+            prepareText: (text, signal) => summarizer.summarizeDocument(text, length, { signal })
+        };
+    }
+
+    // Characters counted against the caller's quota and what they cost at the configured model's price
+    function jobUsage(job: Job) {
+        return { characters: job.characters, estimatedCostUsd: usageMeter.estimateCost(job.characters) };
+    }
+
+    function sendJobAccepted(res: Response, job: Job) {
+        res.status(202).json({
+            message: 'Speech generation started',
+            jobId: job.id,
+            statusUrl: `/jobs/${job.id}`,
+            voice: job.voice,
+            format: job.format,
+            speakers: job.speakers,
+            language: job.language,
+            summary: job.summary,
+            normalize: job.normalize,
+            punctuate: job.punctuate,
+            markup: job.markup,
+            spokenText: job.spokenText,
+            usage: jobUsage(job)
+        });
+    }
+
+    // Synchronous requests wait for their job; if the client goes away first the job is cancelled
+    async function respondWhenFinished(res: Response, job: Job) {
+        const cancelOnDisconnect = () => {
+            if (!res.writableFinished) {
+                console.log(`Client disconnected before job ${job.id} finished`);
+                jobQueue.cancel(job.id);
             }
-            // Handle other OpenAI API errors
-            if (error.message && error.message.includes('OpenAI API')) {
-                return res.status(502).json({
-                    error: 'Error communicating with the OpenAI service. Please try again later.',
-                    code: 'API_ERROR',
-                    detail: process.env.NODE_ENV === 'development' ? error.message : undefined
+        };
+        res.on('close', cancelOnDisconnect);
+        const finished = await jobQueue.waitFor(job.id);
+        res.off('close', cancelOnDisconnect);
+        sendJobResult(res, finished);
+    }
+
+    function sendJobResult(res: Response, job: Job) {
+        if (job.state !== 'completed') {
+            const error = job.error || JobQueue.describeError({});
+            return res.status(error.statusCode).json({
+                error: error.message,
+                code: error.code,
+                detail: error.detail
+            });
+        }
+        res.status(200).json({ 
+            message: 'Speech generation complete', 
+            jobId: job.id,
+            files: job.files,
+            totalChunks: job.files.length,
+            file: job.mergedFile,
+            voice: job.voice,
+            format: job.format,
+            speakers: job.speakers,
+            language: job.language,
+            summary: job.summary,
+            normalize: job.normalize,
+            punctuate: job.punctuate,
+            markup: job.markup,
+            spokenText: job.spokenText,
+            usage: jobUsage(job)
+        });
+    }
+
+    // Extract plain text from the uploaded document (text, DOCX, PDF or RTF) and delete the upload.
+    // Sends an error response and returns null when the file can't be read or contains no text.
+    async function readUploadedDocument(file: Express.Multer.File, res: Response): Promise<string | null> {
+        let document: string;
+        try {
+            const extracted = await DocumentExtractor.extractFromFile(file.path, file.mimetype, file.originalname);
+            console.log(`Extracted ${extracted.text.length} characters from ${extracted.format} upload`);
+            document = extracted.text;
+        } catch (readError: any) {
+            console.error('Error reading file:', readError);
+            if (readError instanceof DocumentExtractionError) {
+                res.status(readError.statusCode).json({
+                    error: readError.message,
+                    code: readError.errorCode
                 });
+                return null;
             }
-            // Generic error handler for other errors
-            res.status(500).json({ 
-                error: 'Failed to generate speech. Please try again later.',
-                code: 'GENERAL_ERROR',
-                detail: process.env.NODE_ENV === 'development' ? error.message : undefined
+            res.status(400).json({ 
+                error: 'Could not read the uploaded file. Make sure it contains valid text.',
+                code: 'FILE_READ_ERROR'
             });
+            return null;
+        } finally {
+            // The upload is no longer needed once its text has been extracted
+            await fs.promises.unlink(file.path).catch(() => undefined);
         }
-    });
-
-    // Endpoint to process direct text input
-    app.post('/process-text', async (req: Request, res: Response) => {
-        const { text, voice, instructions } = req.body;
-        console.log('Received /process-text request:', { 
-            textPresent: !!text, 
-            textLength: text ? text.length : 0,
-            textType: typeof text,
-            voice, 
-            instructions 
-        }); // Enhanced logging
+        // Check if document is empty
+        if (!document.trim()) {
+            res.status(400).json({ 
+                error: 'The uploaded file is empty or contains no text.',
+                code: 'EMPTY_FILE'
+            });
+            return null;
+        }
+        return document;
+    }
 
+    // Validate typed-in text. Sends a 400 and returns null when it is missing, empty or too long.
+    function readTextInput(text: unknown, res: Response): string | null {
         // More robust text validation
         if (!text || typeof text !== 'string') {
             console.warn('Text input is missing or invalid type:', typeof text);
-            return res.status(400).json({ 
+            res.status(400).json({ 
                 error: 'Text input is required',
                 code: 'TEXT_REQUIRED' 
             });
+            return null;
         }
         const trimmedText = text.trim();
         if (trimmedText.length === 0) {
             console.warn('Text input is empty (just whitespace)');
-            return res.status(400).json({ 
+            res.status(400).json({ 
                 error: 'Text input cannot be empty',
                 code: 'TEXT_EMPTY' 
             });
+            return null;
         }
         if (trimmedText.length > 5000) {
             console.warn(`Text input is too long: ${trimmedText.length} characters`);
-            return res.status(400).json({ 
+            res.status(400).json({ 
                 error: 'Text is too long. Maximum length is 5000 characters.',
                 code: 'TEXT_TOO_LONG' 
             });
+            return null;
+        }
+        return trimmedText;
+    }
+
+    // Queue speech for text that has already been read and checked, using the voice and options in req.body,
+    // and answer with the job: 202 when the client asked for "async", otherwise the result once it has finished
+    async function speakText(req: Request, res: Response, text: string) {
+        const voice = resolveVoice(req, res);
+        if (!voice) return;
+        const instructions = req.body.instructions || "Speak in a neutral tone."; // Default instructions
+        const format = resolveOutputFormat(req, res);
+        const voiceOptions = format && resolveVoiceOptions(req, res, format);
+        const summary = voiceOptions && prepareSummary(req, res);
+        if (!format || !voiceOptions || !summary) return;
+        const markup = wantsMarkup(req, text);
+        let script: Pick<SpeechJobInput, 'segments' | 'speakers'> = {};
+        if (wantsScript(req)) {
+            const prepared = prepareScript(text, markup, req, res);
+            if (!prepared) return;
+            script = prepared;
+        } else if (markup && !validateMarkup(text, res)) {
+            return;
         }
-        const selectedVoice = voice || "alloy";
-        const voiceInstructions = instructions || "Speak in a neutral tone.";
         try {
-            const speechGenerator = new SpeechGenerator(apiKey);
-            console.log(`Generating speech for direct text with voice: "${selectedVoice}" and instructions: "${voiceInstructions}"`);
-            // Create a temporary directory for this request if it doesn't exist
-            const sessionId = req.session.id || Date.now().toString();
-            const outputDir = path.join(generatedDir, sessionId);
-            if (!fs.existsSync(outputDir)) {
-                fs.mkdirSync(outputDir, { recursive: true });
+            console.log(`Generating speech with voice: "${voice}" and instructions: "${instructions}"`);
+            const job = await submitMetered(req, res, { text, voice, instructions, format, voiceOptions, merge: wantsMerged(req), normalize: wantsNormalized(req), punctuate: wantsPunctuated(req), markup, lexicon: await lexicon.entriesFor(currentUser(req)), ...script, ...summary });
+            if (!job) return;
+            if (!wantsToWait(req)) {
+                return sendJobAccepted(res, job);
             }
-            const generatedFiles = await speechGenerator.generateSpeechFromDocument(trimmedText, outputDir, selectedVoice, voiceInstructions);
-            console.log('Speech generation complete. Files saved to:', outputDir);
-            if (generatedFiles.length === 0) {
-                console.warn('Failed to generate any audio files.'); // Log if no files were generated
-                return res.status(500).json({ 
-                    error: 'Failed to generate any audio files.',
-                    code: 'NO_FILES_GENERATED'
-                });
+            await respondWhenFinished(res, job);
+        } catch (error: any) {
+            // Detailed error logging
+            console.error('Error generating speech:', error);
+            const { statusCode, message, code, detail } = JobQueue.describeError(error);
+            res.status(statusCode).json({ error: message, code, detail });
+        }
+    }
+
+    // Like speakText, but the text is translated into "language" first.
+    // Translation runs inside the job; the translated text is returned as spokenText.
+    async function translateText(req: Request, res: Response, text: string, language: LanguageInfo) {
+        if (!chatClient.isConfigured()) {
+            return res.status(503).json({
+                error: 'Translation is not available: no OpenAI API key or compatible endpoint is configured.',
+                code: 'TRANSLATION_UNAVAILABLE'
+            });
+        }
+        const voice = resolveVoice(req, res);
+        if (!voice) return;
+        const format = resolveOutputFormat(req, res);
+        const voiceOptions = format && resolveVoiceOptions(req, res, format);
+        const summary = voiceOptions && prepareSummary(req, res);
+        const markup = wantsMarkup(req, text);
+        if (!format || !voiceOptions || !summary || (markup && !validateMarkup(text, res))) return;
+        // The language's narration style comes first; the caller's own instructions refine it
+        const instructions = [languageInstructions(language), req.body.instructions].filter(Boolean).join(' ');
+        try {
+            console.log(`Translating ${text.length} characters to ${language.name} and generating speech with voice: "${voice}"`);
+            const job = await submitMetered(req, res, {
+                text,
+                voice,
+                instructions,
+                format,
+                voiceOptions,
+                merge: wantsMerged(req),
+                // The normalizer writes English words, so translations into other languages are spoken as translated
+                normalize: language.code === 'en' && wantsNormalized(req),
+                punctuate: wantsPunctuated(req),
+                markup,
+                lexicon: await lexicon.entriesFor(currentUser(req)),
+                language: language.code,
+                summary: summary.summary,
+                // With a summary length the document is summarized first and only the summary is translated
+                prepareText: async (source, signal) => {
+                    const text = summary.prepareText ? await summary.prepareText(source, signal) : source;
+                    return translator.translateDocument(text, language, { signal });
+                }
+            });
+            if (!job) return;
+            if (!wantsToWait(req)) {
+                return sendJobAccepted(res, job);
             }
-            res.status(200).json({ 
-                message: 'Speech generation complete', 
-                files: generatedFiles.map(file => `/generated/${path.basename(path.dirname(file))}/${path.basename(file)}`),
-                totalChunks: generatedFiles.length,
-                voice: selectedVoice
+            await respondWhenFinished(res, job);
+        } catch (error: any) {
+            console.error('Error translating and generating speech:', error);
+            const { statusCode, message, code, detail } = JobQueue.describeError(error);
+            res.status(statusCode).json({ error: message, code, detail });
+        }
+    }
+
+    // Endpoint to process the uploaded file - use error handling middleware
+    app.post('/process', requireScope('generate'), limitGeneration, upload.single('file'), handleMulterError, async (req: Request, res: Response) => {
+        if (!req.file) {
+            return res.status(400).json({ 
+                error: 'Uploaded file is required',
+                code: 'FILE_REQUIRED' 
             });
+        }
+        const document = await readUploadedDocument(req.file, res);
+        if (document === null) return;
+        await speakText(req, res, document);
+    });
+
+    // Endpoint to process direct text input
+    app.post('/process-text', requireScope('generate'), limitGeneration, async (req: Request, res: Response) => {
+        const { text, voice, instructions } = req.body;
+        console.log('Received /process-text request:', { 
+            textPresent: !!text, 
+            textLength: text ? text.length : 0,
+            textType: typeof text,
+            voice, 
+            instructions 
+        }); // Enhanced logging
+
+        const trimmedText = readTextInput(text, res);
+        if (trimmedText === null) return;
+        await speakText(req, res, trimmedText);
+    });
+    // Translate text or an uploaded document into "language", then speak the translation
+    app.post('/translate-and-speak', requireScope('generate'), limitGeneration, upload.single('file'), handleMulterError, async (req: Request, res: Response) => {
+        const language = findLanguage(req.body.language);
+        if (!language) {
+            if (req.file) await fs.promises.unlink(req.file.path).catch(() => undefined);
+            return res.status(400).json({
+                error: req.body.language
+                    ? `Unsupported language "${req.body.language}". Choose one of: ${supportedLanguages.map(known => known.code).join(', ')}.`
+                    : 'A target language is required.',
+                code: req.body.language ? 'UNSUPPORTED_LANGUAGE' : 'LANGUAGE_REQUIRED'
+            });
+        }
+        const text = req.file ? await readUploadedDocument(req.file, res) : readTextInput(req.body.text, res);
+        if (text === null) return;
+        await translateText(req, res, text, language);
+    });
+
+    // "scope" picks the dictionary: "user" (the signed-in user's own entries) or "global" (shared by everyone).
+    // Defaults to the user's dictionary when signed in. Changing the global dictionary takes an administrator, and
+    // the "admin" scope when an API token is used. Sends a 400 or 403 and returns undefined when it can't be used.
+    function resolveLexiconOwner(req: Request, res: Response, write: boolean = false): string | null | undefined {
+        const user = currentUser(req);
+        const scope = req.body?.scope || req.query.scope || (user ? 'user' : 'global');
+        if (scope === 'global') {
+            if (write && enableAuth && req.account?.role !== 'admin') {
+                res.status(403).json({ error: 'Only administrators can change the global dictionary.', code: 'ADMIN_REQUIRED' });
+                return undefined;
+            }
+            if (write && req.tokenScopes && !req.tokenScopes.includes('admin')) {
+                res.status(403).json({ error: 'This API token needs the "admin" scope to change the global dictionary.', code: 'INSUFFICIENT_SCOPE' });
+                return undefined;
+            }
+            return null;
+        }
+        if (scope !== 'user') {
+            res.status(400).json({ error: 'scope must be "user" or "global".', code: 'INVALID_SCOPE' });
+            return undefined;
+        }
+        if (!user) {
+            res.status(400).json({
+                error: 'Personal dictionary entries need a signed-in user. Enable authentication or use the global scope.',
+                code: 'USER_SCOPE_UNAVAILABLE'
+            });
+            return undefined;
+        }
+        return user;
+    }
+
+    function sendLexiconError(res: Response, error: any) {
+        if (error instanceof LexiconError) {
+            return res.status(error.statusCode).json({ error: error.message, code: error.errorCode });
+        }
+        console.error('Pronunciation dictionary error:', error);
+        res.status(500).json({
+            error: 'Failed to update the pronunciation dictionary.',
+            code: 'LEXICON_ERROR',
+            detail: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+
+    // Pronunciation dictionary: list entries (both dictionaries unless "scope" is given)
+    app.get('/lexicon', requireScope('generate'), async (req: Request, res: Response) => {
+        try {
+            const user = currentUser(req);
+            if (req.query.scope) {
+                const owner = resolveLexiconOwner(req, res);
+                if (owner === undefined) return;
+                return res.json({ entries: await lexicon.list(owner) });
+            }
+            const entries = [...(user ? await lexicon.list(user) : []), ...await lexicon.list(null)];
+            res.json({ entries, user });
         } catch (error) {
-            // Reuse the same error handling logic as in the /process endpoint
-            console.error('Error generating speech:', error);
-            if (error.name === 'OpenAIError') {
-                return res.status(error.statusCode).json({
-                    error: error.message,
-                    code: error.errorCode,
-                });
+            sendLexiconError(res, error);
+        }
+    });
+
+    app.post('/lexicon', requireScope('generate'), async (req: Request, res: Response) => {
+        const owner = resolveLexiconOwner(req, res, true);
+        if (owner === undefined) return;
+        try {
+            res.status(201).json(await lexicon.add(owner, req.body as LexiconEntryInput));
+        } catch (error) {
+            sendLexiconError(res, error);
+        }
+    });
+
+    app.put('/lexicon/:id', requireScope('generate'), async (req: Request, res: Response) => {
+        const owner = resolveLexiconOwner(req, res, true);
+        if (owner === undefined) return;
+        try {
+            res.json(await lexicon.update(owner, req.params.id, req.body as LexiconEntryInput));
+        } catch (error) {
+            sendLexiconError(res, error);
+        }
+    });
+
+    app.delete('/lexicon/:id', requireScope('generate'), async (req: Request, res: Response) => {
+        const owner = resolveLexiconOwner(req, res, true);
+        if (owner === undefined) return;
+        try {
+            await lexicon.remove(owner, req.params.id);
+            res.json({ message: 'Dictionary entry deleted', id: req.params.id });
+        } catch (error) {
+            sendLexiconError(res, error);
+        }
+    });
+
+    // Download one dictionary as CSV ("format=csv", the default) or JSON, in the shape /lexicon/import accepts
+    app.get('/lexicon/export', requireScope('generate'), async (req: Request, res: Response) => {
+        const owner = resolveLexiconOwner(req, res);
+        if (owner === undefined) return;
+        const format = req.query.format === 'json' ? 'json' : 'csv';
+        try {
+            const entries = await lexicon.list(owner);
+            res.setHeader('Content-Disposition', `attachment; filename="lexicon-${owner === null ? 'global' : 'user'}.${format}"`);
+            if (format === 'json') {
+                return res.json({ entries: entries.map(({ term, spoken, caseSensitive, wholeWord }) => ({ term, spoken, caseSensitive, wholeWord })) });
             }
-            if (error.message && (error.message.includes('timeout') || 
-                                 error.message.includes('timed out') || 
-                                 error.code === 'ECONNABORTED' ||
-                                 error.code === 'ETIMEDOUT')) {
-                return res.status(504).json({
-                    error: 'The request to generate speech timed out. Try with a smaller text.',
-                    code: 'TIMEOUT_ERROR'
+            res.type('text/csv').send(PronunciationLexicon.toCsv(entries));
+        } catch (error) {
+            sendLexiconError(res, error);
+        }
+    });
+
+    // Import entries as {"entries": [...]} or {"csv": "term,spoken,..."}; "mode": "replace" swaps the whole dictionary
+    app.post('/lexicon/import', requireScope('generate'), async (req: Request, res: Response) => {
+        const owner = resolveLexiconOwner(req, res, true);
+        if (owner === undefined) return;
+        const mode = req.body.mode || 'merge';
+        if (mode !== 'merge' && mode !== 'replace') {
+            return res.status(400).json({ error: 'mode must be "merge" or "replace".', code: 'INVALID_IMPORT' });
+        }
+        try {
+            const inputs = typeof req.body.csv === 'string'
+                ? PronunciationLexicon.parseCsv(req.body.csv)
+                : Array.isArray(req.body.entries) ? req.body.entries as LexiconEntryInput[] : null;
+            if (!inputs) {
+                return res.status(400).json({
+                    error: 'Send the entries as "entries" (an array of {term, spoken}) or as "csv" text.',
+                    code: 'INVALID_IMPORT'
                 });
             }
-            if (error.message && error.message.includes('OpenAI API')) {
-                return res.status(502).json({
-                    error: 'Error communicating with the OpenAI service. Please try again later.',
-                    code: 'API_ERROR',
-                    detail: process.env.NODE_ENV === 'development' ? error.message : undefined
+            res.json({ message: 'Dictionary imported', ...await lexicon.import(owner, inputs, mode) });
+        } catch (error) {
+            sendLexiconError(res, error);
+        }
+    });
+
+    // The caller's character usage and quotas for today and this month, plus the service-wide caps
+    app.get('/me/usage', async (req: Request, res: Response) => {
+        try {
+            res.json(await usageMeter.usage(currentUser(req)));
+        } catch (error: any) {
+            console.error('Error reading usage:', error);
+            res.status(500).json({
+                error: 'Failed to read your usage.',
+                code: 'USAGE_ERROR',
+                detail: process.env.NODE_ENV === 'development' ? error.message : undefined
+            });
+        }
+    });
+
+    function sendHistoryError(res: Response, error: any) {
+        console.error('Conversion history error:', error);
+        res.status(500).json({
+            error: 'Failed to read the conversion history.',
+            code: 'HISTORY_ERROR',
+            detail: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+
+    // The history outlives the audio: the cleanup deletes old conversions' files
+    function hasAudio(jobId: string): Promise<boolean> {
+        return fs.promises.access(path.join(generatedDir, jobId)).then(() => true, () => false);
+    }
+
+    // Sends an error and returns null when the entry doesn't exist or belongs to another user
+    async function readOwnedHistoryEntry(req: Request, res: Response): Promise<HistoryEntry | null> {
+        let entry: HistoryEntry | null;
+        try {
+            entry = await history.get(req.params.id);
+        } catch (error) {
+            sendHistoryError(res, error);
+            return null;
+        }
+        if (!entry) {
+            res.status(404).json({ error: 'History entry not found.', code: 'HISTORY_NOT_FOUND' });
+            return null;
+        }
+        if (!canAccessConversion(req, entry.user)) {
+            res.status(403).json({ error: 'This conversion belongs to another user.', code: 'FORBIDDEN' });
+            return null;
+        }
+        return entry;
+    }
+
+    // The caller's past conversions, newest first, with a preview instead of the full text.
+    // "limit" (1-100, default 20) and "offset" page through them.
+    app.get('/history', requireScope('history'), async (req: Request, res: Response) => {
+        const limit = req.query.limit === undefined ? 20 : Number(req.query.limit);
+        const offset = req.query.offset === undefined ? 0 : Number(req.query.offset);
+        if (!Number.isInteger(limit) || limit < 1 || limit > 100 || !Number.isInteger(offset) || offset < 0) {
+            return res.status(400).json({
+                error: 'limit must be a whole number between 1 and 100, and offset a whole number of 0 or more.',
+                code: 'INVALID_PAGE'
+            });
+        }
+        try {
+            const page = await history.list(currentUser(req), offset, limit);
+            const entries = await Promise.all(page.entries.map(async ({ text, ...entry }) => ({
+                ...entry,
+                preview: text.length > 200 ? `${text.slice(0, 200)}…` : text,
+                audioAvailable: await hasAudio(entry.id)
+            })));
+            res.json({ entries, total: page.total, limit, offset });
+        } catch (error) {
+            sendHistoryError(res, error);
+        }
+    });
+
+    app.get('/history/:id', requireScope('history'), async (req: Request, res: Response) => {
+        const entry = await readOwnedHistoryEntry(req, res);
+        if (entry) {
+            res.json({ ...entry, audioAvailable: await hasAudio(entry.id) });
+        }
+    });
+
+    // Remove a conversion from the history together with its audio
+    app.delete('/history/:id', requireScope('history'), async (req: Request, res: Response) => {
+        const entry = await readOwnedHistoryEntry(req, res);
+        if (!entry) return;
+        try {
+            const job = await jobQueue.get(entry.id);
+            if (job && !JobQueue.isFinished(job)) {
+                return res.status(409).json({
+                    error: 'The conversion is still running. Cancel it first with DELETE /jobs/:id.',
+                    code: 'CONVERSION_RUNNING'
                 });
             }
-            res.status(500).json({ 
-                error: 'Failed to generate speech. Please try again later.',
-                code: 'GENERAL_ERROR',
+            await history.delete(entry);
+            res.json({ message: 'History entry deleted', id: entry.id });
+        } catch (error) {
+            sendHistoryError(res, error);
+        }
+    });
+
+    // Convert an entry's text again with its original settings. Fields in the body replace them,
+    // e.g. {"voice": "nova"}; the response is the same as the conversion endpoints'.
+    app.post('/history/:id/regenerate', requireScope('generate'), limitGeneration, async (req: Request, res: Response) => {
+        const entry = await readOwnedHistoryEntry(req, res);
+        if (!entry) return;
+        const { settings } = entry;
+        req.body = {
+            voice: settings.voice,
+            instructions: settings.instructions,
+            format: settings.format,
+            ...settings.voiceOptions,
+            merge: settings.merge,
+            normalize: settings.normalize,
+            punctuate: settings.punctuate,
+            markup: settings.markup,
+            script: settings.script,
+            speakers: settings.speakers,
+            language: settings.language,
+            summary: settings.summary,
+            ...req.body
+        };
+        const source: HistorySource = { fileName: entry.fileName, regeneratedFrom: entry.id };
+        res.locals.historySource = source;
+        if (!req.body.language) {
+            return speakText(req, res, entry.text);
+        }
+        const language = findLanguage(req.body.language);
+        if (!language) {
+            return res.status(400).json({
+                error: `Unsupported language "${req.body.language}". Choose one of: ${supportedLanguages.map(known => known.code).join(', ')}.`,
+                code: 'UNSUPPORTED_LANGUAGE'
+            });
+        }
+        await translateText(req, res, entry.text, language);
+    });
+
+    // Audio cache size and hit/miss counters
+    app.get('/cache', requireAdmin, async (req: Request, res: Response) => {
+        if (!audioCache) {
+            return res.json({ enabled: false });
+        }
+        try {
+            const stats = await audioCache.stats();
+            const lookups = stats.hits + stats.misses;
+            res.json({ enabled: true, ...stats, hitRate: lookups > 0 ? stats.hits / lookups : null });
+        } catch (error: any) {
+            console.error('Error reading audio cache statistics:', error);
+            res.status(500).json({
+                error: 'Failed to read the audio cache statistics.',
+                code: 'CACHE_ERROR',
                 detail: process.env.NODE_ENV === 'development' ? error.message : undefined
             });
         }
     });
 
-    // Updated asynchronous cleanup function using fs.promises
-    async function deleteOldFiles(directory: string, maxAge: number) {
+    // Empty the audio cache; the next request for every chunk is synthesized again
+    app.delete('/cache', requireAdmin, async (req: Request, res: Response) => {
+        if (!audioCache) {
+            return res.status(404).json({ error: 'The audio cache is disabled.', code: 'CACHE_DISABLED' });
+        }
         try {
-            const now = Date.now();
-            const files = await fs.promises.readdir(directory);
-            await Promise.all(files.map(async file => {
-                const filePath = path.join(directory, file);
-                try {
-                    const stats = await fs.promises.stat(filePath);
-                    if (now - stats.mtimeMs > maxAge) {
-                        await fs.promises.unlink(filePath);
-                        console.log(`Deleted old file: ${filePath}`);
-                    }
-                } catch (err) {
-                    console.error(`Error processing file ${filePath}:`, err);
-                }
+            await audioCache.clear();
+            res.json({ message: 'Audio cache cleared' });
+        } catch (error: any) {
+            console.error('Error clearing the audio cache:', error);
+            res.status(500).json({
+                error: 'Failed to clear the audio cache.',
+                code: 'CACHE_ERROR',
+                detail: process.env.NODE_ENV === 'development' ? error.message : undefined
+            });
+        }
+    });
+
+    function sendAccountError(res: Response, error: any) {
+        if (error instanceof AccountError) {
+            return res.status(error.statusCode).json({ error: error.message, code: error.errorCode });
+        }
+        console.error('User account error:', error);
+        res.status(500).json({
+            error: 'Failed to update the user account.',
+            code: 'ACCOUNT_ERROR',
+            detail: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+
+    // Account endpoints only make sense with sign-in enabled
+    function requireAccounts(req: Request, res: Response, next: NextFunction) {
+        if (enableAuth) {
+            return next();
+        }
+        res.status(404).json({ error: 'User accounts are not enabled on this server.', code: 'AUTH_DISABLED' });
+    }
+
+    // The signed-in account (null when authentication is off)
+    app.get('/me', (req: Request, res: Response) => {
+        res.json({ user: req.account ? toPublicUser(req.account) : null });
+    });
+
+    // A password change ends every other session of the account on its next request (see checkAuth);
+    // the session that made the change stays signed in
+    function keepSessionSignedIn(req: Request, account: UserAccount) {
+        if (req.session.userId === account.id) {
+            req.session.credentialVersion = credentialVersion(account);
+        }
+    }
+
+    // Change your own password; the current one is required
+    app.post('/me/password', requireAccounts, async (req: Request, res: Response) => {
+        try {
+            const account = req.account!;
+            if (!await accounts.authenticate(account.username, req.body.currentPassword)) {
+                return res.status(403).json({ error: 'The current password is incorrect.', code: 'INVALID_PASSWORD' });
+            }
+            const updated = await accounts.setPassword(account.id, req.body.newPassword);
+            keepSessionSignedIn(req, updated);
+            res.json({ message: 'Password changed' });
+        } catch (error) {
+            sendAccountError(res, error);
+        }
+    });
+
+    function sendApiTokenError(res: Response, error: any) {
+        if (error instanceof ApiTokenError) {
+            return res.status(error.statusCode).json({ error: error.message, code: error.errorCode });
+        }
+        console.error('API token error:', error);
+        res.status(500).json({
+            error: 'Failed to update the API tokens.',
+            code: 'API_TOKEN_ERROR',
+            detail: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+
+    // Tokens are managed from a signed-in session only, so a leaked token can't mint or revoke others
+    function requireSession(req: Request, res: Response, next: NextFunction) {
+        if (!req.tokenScopes) {
+            return next();
+        }
+        res.status(403).json({ error: 'API tokens can only be managed from a signed-in session.', code: 'SESSION_REQUIRED' });
+    }
+
+    // Your API tokens (without the secrets, which are only shown when a token is created)
+    app.get('/me/tokens', requireAccounts, requireSession, async (req: Request, res: Response) => {
+        try {
+            res.json({ tokens: (await apiTokens.list(req.account!.id)).map(toPublicToken) });
+        } catch (error) {
+            sendApiTokenError(res, error);
+        }
+    });
+
+    // Create a token with a "name", optional "scopes" (default ["generate"]) and optional "expiresInDays"
+    app.post('/me/tokens', requireAccounts, requireSession, async (req: Request, res: Response) => {
+        try {
+            const { name, scopes, expiresInDays } = req.body;
+            const { token, record } = await apiTokens.create(req.account!.id, { name, scopes, expiresInDays }, req.account!.role === 'admin');
+            await audit.record({ event: 'token.create', actor: req.account!.username, target: record.id, ip: req.ip, detail: { name: record.name, scopes: record.scopes } });
+            res.status(201).json({ ...toPublicToken(record), token });
+        } catch (error) {
+            sendApiTokenError(res, error);
+        }
+    });
+
+    app.delete('/me/tokens/:id', requireAccounts, requireSession, async (req: Request, res: Response) => {
+        try {
+            await apiTokens.revoke(req.account!.id, req.params.id);
+            await audit.record({ event: 'token.revoke', actor: req.account!.username, target: req.params.id, ip: req.ip });
+            res.json({ message: 'Token revoked' });
+        } catch (error) {
+            sendApiTokenError(res, error);
+        }
+    });
+
+    // User administration: list, create, change role or disable, and reset passwords
+    app.get('/admin/users', requireAccounts, requireAdmin, async (req: Request, res: Response) => {
+        try {
+            res.json({ users: (await accounts.list()).map(toPublicUser) });
+        } catch (error) {
+            sendAccountError(res, error);
+        }
+    });
+
+    app.post('/admin/users', requireAccounts, requireAdmin, async (req: Request, res: Response) => {
+        try {
+            const { username, password, role } = req.body;
+            const user = await accounts.create({ username, password, role });
+            await audit.record({ event: 'user.create', actor: req.account!.username, target: user.username, ip: req.ip, detail: { role: user.role } });
+            res.status(201).json(toPublicUser(user));
+        } catch (error) {
+            sendAccountError(res, error);
+        }
+    });
+
+    // "role" and "disabled" may be changed; disabled users are signed out on their next request
+    app.patch('/admin/users/:id', requireAccounts, requireAdmin, async (req: Request, res: Response) => {
+        try {
+            const { role, disabled } = req.body;
+            const user = await accounts.update(req.params.id, { role, disabled });
+            await audit.record({ event: 'user.update', actor: req.account!.username, target: user.username, ip: req.ip, detail: { role: user.role, disabled: user.disabled } });
+            res.json(toPublicUser(user));
+        } catch (error) {
+            sendAccountError(res, error);
+        }
+    });
+
+    app.post('/admin/users/:id/password', requireAccounts, requireAdmin, async (req: Request, res: Response) => {
+        try {
+            const user = await accounts.setPassword(req.params.id, req.body.password);
+            keepSessionSignedIn(req, user);
+            await audit.record({ event: 'user.password_reset', actor: req.account!.username, target: user.username, ip: req.ip });
+            res.json({ message: 'Password reset', user: toPublicUser(user) });
+        } catch (error) {
+            sendAccountError(res, error);
+        }
+    });
+
+    // Lift a sign-in lockout before it expires
+    app.post('/admin/users/:id/unlock', requireAccounts, requireAdmin, async (req: Request, res: Response) => {
+        try {
+            const user = await accounts.get(req.params.id);
+            if (!user) {
+                return res.status(404).json({ error: 'User not found.', code: 'USER_NOT_FOUND' });
+            }
+            await loginThrottle.reset(user.username);
+            await audit.record({ event: 'login.unlock', actor: req.account!.username, target: user.username, ip: req.ip });
+            res.json({ message: 'Sign-in unlocked', user: toPublicUser(user) });
+        } catch (error) {
+            sendAccountError(res, error);
+        }
+    });
+
+    // "from" and "to" query parameters as dates (whole days, UTC) or timestamps, defaulting to the last 30 days.
+    // Sends a 400 and returns null when they can't be read.
+    function readDateRange(req: Request, res: Response): { from: Date; to: Date } | null {
+        const parseDate = (value: unknown, endOfDay: boolean): Date | null => {
+            if (typeof value !== 'string' || !value) return null;
+            const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+            const date = new Date(dateOnly ? `${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z` : value);
+            return Number.isNaN(date.getTime()) ? null : date;
+        };
+        const to = req.query.to ? parseDate(req.query.to, true) : new Date();
+        const from = req.query.from ? parseDate(req.query.from, false) : to && new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+        if (!from || !to || from > to) {
+            res.status(400).json({
+                error: 'from and to must be dates (YYYY-MM-DD) or timestamps, with from before to.',
+                code: 'INVALID_DATE_RANGE'
+            });
+            return null;
+        }
+        return { from, to };
+    }
+
+    const optionalQuery = (value: unknown) => typeof value === 'string' ? value : undefined;
+
+    // Audit trail, newest first. "event" is an event name or a prefix such as "login."; "actor" and "target" narrow it further.
+    app.get('/admin/audit', requireAdmin, async (req: Request, res: Response) => {
+        const range = readDateRange(req, res);
+        if (!range) return;
+        try {
+            const events = await audit.query({
+                ...range,
+                event: optionalQuery(req.query.event),
+                actor: optionalQuery(req.query.actor),
+                target: optionalQuery(req.query.target),
+            });
+            res.json({ from: range.from.toISOString(), to: range.to.toISOString(), events });
+        } catch (error: any) {
+            console.error('Error reading the audit log:', error);
+            res.status(500).json({
+                error: 'Failed to read the audit log.',
+                code: 'AUDIT_ERROR',
+                detail: process.env.NODE_ENV === 'development' ? error.message : undefined
+            });
+        }
+    });
+
+    // Usage report: totals and breakdowns by voice, user, format and day. "from" and "to" are dates or
+    // timestamps (default: the last 30 days); "user", "voice" and "format" narrow the report.
+    app.get('/admin/analytics', requireAdmin, async (req: Request, res: Response) => {
+        const range = readDateRange(req, res);
+        if (!range) return;
+        try {
+            res.json(await analytics.getStats({
+                ...range,
+                user: optionalQuery(req.query.user),
+                voice: optionalQuery(req.query.voice),
+                format: optionalQuery(req.query.format),
             }));
-        } catch (err) {
-            console.error(`Error reading directory ${directory}:`, err);
+        } catch (error: any) {
+            console.error('Error reading analytics:', error);
+            res.status(500).json({
+                error: 'Failed to read the analytics.',
+                code: 'ANALYTICS_ERROR',
+                detail: process.env.NODE_ENV === 'development' ? error.message : undefined
+            });
+        }
+    });
+
+    // Endpoint to poll the state of a background conversion
+    // The job named in the URL, if the caller may see it. Sends 404, 403 or 500 and returns null otherwise.
+    async function readOwnedJob(req: Request, res: Response): Promise<Job | null> {
+        let job: Job | null;
+        try {
+            job = await jobQueue.get(req.params.id);
+        } catch (error: any) {
+            console.error('Error reading job status:', error);
+            res.status(500).json({
+                error: 'Could not read the job status. Please try again later.',
+                code: 'JOB_STATUS_ERROR'
+            });
+            return null;
+        }
+        if (!job) {
+            res.status(404).json({
+                error: 'Job not found. It may have expired.',
+                code: 'JOB_NOT_FOUND'
+            });
+            return null;
+        }
+        if (!canAccessConversion(req, job.user ?? null)) {
+            res.status(403).json({ error: 'This conversion belongs to another user.', code: 'FORBIDDEN' });
+            return null;
         }
+        return job;
     }
 
-    // Endpoint to trigger cleanup of old files
-    app.post('/cleanup', (req: Request, res: Response) => {
-        const maxAge = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
-        deleteOldFiles(generatedDir, maxAge);
-        res.status(200).json({ message: 'Cleanup triggered' });
+    app.get('/jobs/:id', requireScope('generate', 'history'), async (req: Request, res: Response) => {
+        const job = await readOwnedJob(req, res);
+        if (job) {
+            res.status(200).json(job);
+        }
+    });
+
+    // Signed links to a completed job's audio that work without signing in, e.g. to share or embed them.
+    // "expiresIn" is in seconds (default SIGNED_URL_TTL_SECONDS, at most 7 days).
+    app.get('/jobs/:id/links', requireScope('generate', 'history'), async (req: Request, res: Response) => {
+        const expiresIn = req.query.expiresIn === undefined ? signedUrlTtlSeconds : Number(req.query.expiresIn);
+        if (!Number.isInteger(expiresIn) || expiresIn < 1 || expiresIn > 7 * 24 * 60 * 60) {
+            return res.status(400).json({
+                error: 'expiresIn must be a whole number of seconds between 1 and 604800 (7 days).',
+                code: 'INVALID_EXPIRY'
+            });
+        }
+        const job = await readOwnedJob(req, res);
+        if (!job) return;
+        if (job.state !== 'completed') {
+            return res.status(409).json({ error: 'The job has not completed.', code: 'JOB_NOT_COMPLETED' });
+        }
+        const expiresAt = new Date(Date.now() + expiresIn * 1000);
+        res.json({
+            expiresAt: expiresAt.toISOString(),
+            files: job.files.map(file => generatedAudio.sign(file, expiresAt)),
+            file: job.mergedFile && generatedAudio.sign(job.mergedFile, expiresAt)
+        });
+    });
+
+    // Endpoint to cancel a queued or running background job
+    app.delete('/jobs/:id', requireScope('generate'), async (req: Request, res: Response) => {
+        const job = await readOwnedJob(req, res);
+        if (!job) return;
+        if (JobQueue.isFinished(job)) {
+            return res.status(409).json({
+                error: `The job has already ${job.state === 'completed' ? 'completed' : 'ended'}.`,
+                code: 'JOB_FINISHED'
+            });
+        }
+        if (!jobQueue.cancel(job.id)) {
+            return res.status(409).json({
+                error: 'The job is running on another server instance and cannot be cancelled here.',
+                code: 'JOB_NOT_LOCAL'
+            });
+        }
+        res.status(202).json({ message: 'Cancellation requested', jobId: job.id });
+    });
+
+    // Server-Sent Events stream of per-chunk progress for a job. The first event is a snapshot of the
+    // job so clients that connect late still see parts that are already finished.
+    app.get('/jobs/:id/events', requireScope('generate', 'history'), async (req: Request, res: Response) => {
+        const jobId = req.params.id;
+        const job = await readOwnedJob(req, res);
+        if (!job) return;
+
+        // Streams stay open for as long as the job runs, so lift the request timeout
+        req.setTimeout(0);
+        res.setTimeout(0);
+        res.status(200).set({
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no'
+        });
+        res.flushHeaders();
+
+        const send = (event: string, data: unknown) => {
+            res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        };
+        send('snapshot', job);
+        if (JobQueue.isFinished(job)) {
+            send('done', job);
+            return res.end();
+        }
+
+        const onProgress = (progress: JobProgress) => {
+            if (progress.jobId === jobId) send('progress', progress);
+        };
+        const onFinished = (finished: Job) => {
+            if (finished.id !== jobId) return;
+            send('done', finished);
+            close();
+        };
+        // Jobs running on another instance only show up in the shared store, so poll it instead
+        const poll = jobQueue.isLocal(jobId) ? null : setInterval(async () => {
+            try {
+                const current = await jobQueue.get(jobId);
+                if (!current) return close();
+                send('snapshot', current);
+                if (JobQueue.isFinished(current)) onFinished(current);
+            } catch (error: any) {
+                console.error('Error polling job status:', error);
+            }
+        }, 2000);
+        const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+
+        function close() {
+            jobQueue.off('progress', onProgress);
+            jobQueue.off('finished', onFinished);
+            clearInterval(heartbeat);
+            if (poll) clearInterval(poll);
+            res.end();
+        }
+
+        jobQueue.on('progress', onProgress);
+        jobQueue.on('finished', onFinished);
+        req.on('close', close);
+    });
+
+    // Old audio and leftover uploads are deleted on a schedule (RETENTION_* settings); administrators can also
+    // trigger a cleanup, or preview one with "dryRun". The old /cleanup path keeps working.
+    const retention = new FileRetention(writableDir, generatedDir, uploadDir, jobId => jobQueue.isUnfinished(jobId));
+    retention.start();
+
+    app.get('/admin/cleanup', requireAdmin, (req: Request, res: Response) => {
+        res.json({ policy: retention.getPolicy(), running: retention.isRunning(), lastReport: retention.lastReport });
+    });
+
+    app.post(['/admin/cleanup', '/cleanup'], requireAdmin, async (req: Request, res: Response) => {
+        const dryRun = req.body?.dryRun === true || req.body?.dryRun === 'true' || req.query.dryRun === 'true';
+        try {
+            const report = await retention.run({ dryRun });
+            if (!report.dryRun) {
+                await audit.record({
+                    event: 'files.cleanup',
+                    actor: currentUser(req),
+                    ip: req.ip,
+                    detail: { deleted: report.deleted.length, freedBytes: report.freedBytes }
+                });
+            }
+            res.json(report);
+        } catch (error: any) {
+            console.error('Error cleaning up files:', error);
+            res.status(500).json({
+                error: 'Failed to clean up old files.',
+                code: 'CLEANUP_ERROR',
+                detail: process.env.NODE_ENV === 'development' ? error.message : undefined
+            });
+        }
     });
 
     app.get('/status', (req: Request, res: Response) => {
@@ -0,0 +1,387 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { SpeechGenerator, ChunkProgressEvent, SpeechGenerationCancelledError } from './speechGenerator';
+import { Job, JobError, JobStore } from './jobStore';
+import { AudioMerger } from './audioMerger';
+import { writeAudioOwner } from './generatedAudio';
+import type { AudioFormat } from './audioUtils';
+import type { VoiceOptions } from './ttsProvider';
+import type { DocumentSegment } from './documentProcessor';
+import type { LexiconEntry } from './pronunciationLexicon';
+
+export interface SpeechJobInput {
+    text: string;
+    voice: string;
+    instructions: string;
+    format?: AudioFormat;
+    voiceOptions?: VoiceOptions;
+    merge?: boolean;
+    normalize?: boolean;
+    punctuate?: boolean;
+    markup?: boolean;
+    lexicon?: LexiconEntry[];            // pronunciation entries of the requesting user, resolved when the job is submitted
+    segments?: DocumentSegment[];        // pre-parsed segments (dialogue scripts); text is used for statistics only
+    speakers?: Record<string, string>;
+    language?: string;
+    summary?: string;
+    user?: string | null;                // who requested the job; null or absent when authentication is off
+    // Rewrites the text inside the job before synthesis (translation, summary); the result is reported as spokenText
+    prepareText?: (text: string, signal: AbortSignal) => Promise<string>;
+}
+
+// Payload broadcast to listeners (such as the SSE endpoint) for every chunk transition
+export interface JobProgress {
+    jobId: string;
+    type: ChunkProgressEvent['type'];
+    index: number;
+    total: number;
+    completed: number;
+    skipped: number;
+    file?: string;
+    attempt?: number;
+    reason?: string;
+    error?: string;
+}
+
+export interface JobQueueOptions {
+    generatedDir: string;       // directory each job gets its own sub-folder in
+    publicPrefix?: string;      // URL prefix the generated directory is served under
+    concurrency?: number;       // number of jobs converted at the same time
+}
+
+// Runs speech generation in the background so HTTP requests can return a job ID immediately.
+// Emits 'progress' (JobProgress) for each chunk transition and 'finished' (Job) when a job ends.
+export class JobQueue extends EventEmitter {
+    private store: JobStore;
+    private createGenerator: () => SpeechGenerator;
+    private generatedDir: string;
+    private publicPrefix: string;
+    private concurrency: number;
+    private pending: Array<{ job: Job; input: SpeechJobInput }> = [];
+    private active = new Map<string, Job>();
+    private controllers = new Map<string, AbortController>();
+    private writes = new Map<string, Promise<void>>();
+    private instance = crypto.randomUUID();
+    private recoveryTimer: NodeJS.Timeout | null = null;
+    private static HEARTBEAT_SECONDS = 20;
+
+    constructor(store: JobStore, createGenerator: () => SpeechGenerator, options: JobQueueOptions) {
+        super();
+        this.setMaxListeners(0); // every open progress stream and synchronous request adds listeners
+        this.store = store;
+        this.createGenerator = createGenerator;
+        this.generatedDir = options.generatedDir;
+        this.publicPrefix = options.publicPrefix || '/generated';
+        this.concurrency = options.concurrency || parseInt(process.env.JOB_CONCURRENCY || '2', 10);
+    }
+
+    async submit(input: SpeechJobInput): Promise<Job> {
+        const now = new Date().toISOString();
+        const job: Job = {
+            id: crypto.randomUUID(),
+            state: 'queued',
+            voice: input.voice,
+            instructions: input.instructions,
+            format: input.format || 'mp3',
+            voiceOptions: input.voiceOptions || {},
+            speakers: input.speakers,
+            language: input.language,
+            summary: input.summary,
+            user: input.user ?? undefined,
+            instance: this.instance,
+            characters: input.text.length,
+            totalChunks: 0,
+            completedChunks: 0,
+            skippedChunks: 0,
+            chunks: [],
+            files: [],
+            merge: !!input.merge,
+            normalize: !!input.normalize,
+            punctuate: !!input.punctuate,
+            markup: !!input.markup,
+            createdAt: now,
+            updatedAt: now,
+        };
+        await this.store.save(job);
+        this.pending.push({ job, input });
+        console.log(`Queued job ${job.id} (${job.characters} characters, ${this.pending.length} waiting)`);
+        setImmediate(() => this.drain());
+        return job;
+    }
+
+    // Keep this process marked as alive, and fail jobs left unfinished by processes that aren't any more
+    // (a restart or crash loses the queue, which lives in memory). Checked at startup and every 20 seconds.
+    start() {
+        if (this.recoveryTimer) return;
+        const tick = async () => {
+            try {
+                await this.store.heartbeat(this.instance, JobQueue.HEARTBEAT_SECONDS * 3);
+                await this.recoverInterrupted();
+            } catch (error) {
+                console.error('Failed to check for interrupted jobs:', error);
+            }
+        };
+        tick();
+        this.recoveryTimer = setInterval(tick, JobQueue.HEARTBEAT_SECONDS * 1000);
+        this.recoveryTimer.unref();
+    }
+
+    stop() {
+        if (this.recoveryTimer) clearInterval(this.recoveryTimer);
+        this.recoveryTimer = null;
+    }
+
+    private async recoverInterrupted() {
+        for (const job of await this.store.unfinished()) {
+            if (this.isLocal(job.id) || (job.instance && await this.store.isAlive(job.instance))) continue;
+            console.warn(`Job ${job.id} was interrupted while ${job.state}; marking it as failed`);
+            await this.finish(job, {
+                state: 'failed',
+                error: {
+                    message: 'The conversion was interrupted by a server restart. Please submit it again.',
+                    code: 'JOB_INTERRUPTED',
+                    statusCode: 503,
+                },
+            });
+        }
+    }
+
+    // True while the job is queued or running in this process (and so emits progress events here)
+    isLocal(id: string): boolean {
+        return this.active.has(id) || this.pending.some(entry => entry.job.id === id);
+    }
+
+    // True while the job is queued or running in any process sharing the job store
+    async isUnfinished(id: string): Promise<boolean> {
+        if (this.isLocal(id)) return true;
+        const job = await this.store.get(id);
+        return !!job && !JobQueue.isFinished(job);
+    }
+
+    // Stop a queued or running job. Chunks already generated are kept; returns false if the job is not running here.
+    cancel(id: string): boolean {
+        const pendingIndex = this.pending.findIndex(entry => entry.job.id === id);
+        if (pendingIndex >= 0) {
+            const [{ job }] = this.pending.splice(pendingIndex, 1);
+            this.finish(job, { state: 'cancelled', error: JobQueue.cancelledError() });
+            return true;
+        }
+        const controller = this.controllers.get(id);
+        if (!controller) return false;
+        console.log(`Cancelling job ${id}`);
+        controller.abort();
+        return true;
+    }
+
+    static isFinished(job: Job): boolean {
+        return job.state === 'completed' || job.state === 'failed' || job.state === 'cancelled';
+    }
+
+    async get(id: string): Promise<Job | null> {
+        // Jobs running in this process are always fresher than the stored copy
+        return this.active.get(id) || this.store.get(id);
+    }
+
+    // Resolves once the job has completed, failed or been cancelled
+    waitFor(id: string): Promise<Job> {
+        return new Promise((resolve, reject) => {
+            const onFinished = (job: Job) => {
+                if (job.id !== id) return;
+                this.off('finished', onFinished);
+                resolve(job);
+            };
+            this.on('finished', onFinished);
+            this.get(id).then(job => {
+                if (!job) {
+                    this.off('finished', onFinished);
+                    reject(new Error(`Job ${id} not found`));
+                } else if (JobQueue.isFinished(job)) {
+                    onFinished(job);
+                }
+            }, reject);
+        });
+    }
+
+    private drain() {
+        while (this.active.size < this.concurrency && this.pending.length > 0) {
+            const next = this.pending.shift()!;
+            const controller = new AbortController();
+            this.active.set(next.job.id, next.job);
+            this.controllers.set(next.job.id, controller);
+            this.run(next.job, next.input, controller.signal)
+                .catch(err => console.error(`Job ${next.job.id} crashed:`, err))
+                .finally(() => {
+                    this.active.delete(next.job.id);
+                    this.controllers.delete(next.job.id);
+                    this.drain();
+                });
+        }
+    }
+
+    private async run(job: Job, input: SpeechJobInput, signal: AbortSignal) {
+        const outputDir = path.join(this.generatedDir, job.id);
+        this.update(job, { state: 'processing', startedAt: new Date().toISOString() });
+        console.log(`Starting job ${job.id} with voice: "${job.voice}"`);
+
+        let outcome: Partial<Job>;
+        try {
+            await fs.promises.mkdir(outputDir, { recursive: true });
+            await writeAudioOwner(outputDir, { user: job.user ?? null, createdAt: job.createdAt });
+            let text = input.text;
+            if (input.prepareText) {
+                text = await input.prepareText(text, signal);
+                if (signal.aborted) throw new SpeechGenerationCancelledError();
+                this.update(job, { spokenText: text });
+            }
+            const generator = this.createGenerator();
+            const options = {
+                onProgress: (event: ChunkProgressEvent) => this.recordProgress(job, event),
+                signal,
+                format: job.format,
+                voiceOptions: job.voiceOptions,
+                normalize: job.normalize,
+                punctuate: job.punctuate,
+                markup: job.markup,
+                lexicon: input.lexicon,
+            };
+            const files = input.segments
+                ? await generator.generateSpeechFromSegments(input.segments, outputDir, input.voice, input.instructions, options)
+                : await generator.generateSpeechFromDocument(text, outputDir, input.voice, input.instructions, options);
+            if (files.length === 0) {
+                outcome = {
+                    state: 'failed',
+                    error: { message: 'Failed to generate any audio files.', code: 'NO_FILES_GENERATED', statusCode: 500 },
+                };
+            } else {
+                outcome = { state: 'completed', files: files.map(file => this.toUrl(job, file)), audioSeconds: await JobQueue.audioSeconds(files, job.format) };
+                if (input.merge) {
+                    const mergedPath = path.join(outputDir, `merged.${job.format}`);
+                    await generator.combineAudioFiles(files, mergedPath);
+                    outcome.mergedFile = this.toUrl(job, mergedPath);
+                }
+            }
+        } catch (error: any) {
+            if (error instanceof SpeechGenerationCancelledError || signal.aborted) {
+                outcome = { state: 'cancelled', error: JobQueue.cancelledError() };
+            } else {
+                console.error(`Error generating speech for job ${job.id}:`, error);
+                outcome = { state: 'failed', error: JobQueue.describeError(error) };
+            }
+        }
+        await this.finish(job, outcome);
+    }
+
+    private async finish(job: Job, outcome: Partial<Job>) {
+        const now = new Date().toISOString();
+        Object.assign(job, outcome, { updatedAt: now, finishedAt: now });
+        await this.persist(job).catch(err => console.error(`Failed to save job ${job.id}:`, err));
+        console.log(`Job ${job.id} ${job.state}: ${job.completedChunks}/${job.totalChunks} chunks generated`);
+        this.emit('finished', job);
+    }
+
+    // Total playing time of the chunk files, when their format can be measured
+    private static async audioSeconds(files: string[], format: AudioFormat): Promise<number | undefined> {
+        let totalMs = 0;
+        for (const file of files) {
+            const durationMs = AudioMerger.durationMs(await fs.promises.readFile(file), format);
+            if (durationMs === null) return undefined;
+            totalMs += durationMs;
+        }
+        return Math.round(totalMs / 100) / 10;
+    }
+
+    private static cancelledError(): JobError {
+        return { message: 'The conversion was cancelled.', code: 'JOB_CANCELLED', statusCode: 409 };
+    }
+
+    private recordProgress(job: Job, event: ChunkProgressEvent) {
+        if (job.chunks.length !== event.total) {
+            job.totalChunks = event.total;
+            job.chunks = Array.from({ length: event.total }, (_, index) => ({ index, state: 'pending' as const }));
+        }
+        const chunk = job.chunks[event.index];
+        const progress: JobProgress = { jobId: job.id, type: event.type, index: event.index, total: event.total, completed: 0, skipped: 0 };
+        switch (event.type) {
+            case 'start':
+                chunk.state = 'processing';
+                break;
+            case 'retry':
+                progress.attempt = event.attempt;
+                progress.reason = event.reason;
+                break;
+            case 'complete':
+                chunk.state = 'completed';
+                chunk.file = this.toUrl(job, event.filePath);
+                progress.file = chunk.file;
+                job.completedChunks++;
+                break;
+            case 'skip':
+                chunk.state = 'skipped';
+                chunk.error = event.error;
+                progress.error = event.error;
+                job.skippedChunks++;
+                break;
+        }
+        progress.completed = job.completedChunks;
+        progress.skipped = job.skippedChunks;
+        this.update(job, {});
+        this.emit('progress', progress);
+    }
+
+    private update(job: Job, changes: Partial<Job>) {
+        Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+        this.persist(job).catch(err => console.error(`Failed to save job ${job.id}:`, err));
+    }
+
+    // Serialize writes per job so an older snapshot never overwrites a newer one
+    private persist(job: Job): Promise<void> {
+        const snapshot = structuredClone(job);
+        const previous = this.writes.get(job.id) || Promise.resolve();
+        const write = previous.catch(() => undefined).then(() => this.store.save(snapshot));
+        this.writes.set(job.id, write);
+        write.finally(() => {
+            if (this.writes.get(job.id) === write) this.writes.delete(job.id);
+        }).catch(() => undefined);
+        return write;
+    }
+
+    private toUrl(job: Job, filePath: string): string {
+        return `${this.publicPrefix}/${job.id}/${path.basename(filePath)}`;
+    }
+
+    // Map a generation failure to the status code and error code the API reports
+    static describeError(error: any): JobError {
+        if (error.name === 'OpenAIError' || error.name === 'ChatError' || error.name === 'MarkupError') {
+            return { message: error.message, code: error.errorCode, statusCode: error.statusCode };
+        }
+        if (error.name === 'AudioMergeError') {
+            return { message: `Failed to merge the audio files: ${error.message}`, code: error.errorCode, statusCode: 500 };
+        }
+        if (error.message && (error.message.includes('timeout') ||
+                             error.message.includes('timed out') ||
+                             error.code === 'ECONNABORTED' ||
+                             error.code === 'ETIMEDOUT')) {
+            return {
+                message: 'The request to generate speech timed out. Try with a smaller text.',
+                code: 'TIMEOUT_ERROR',
+                statusCode: 504,
+            };
+        }
+        if (error.message && error.message.includes('OpenAI API')) {
+            return {
+                message: 'Error communicating with the OpenAI service. Please try again later.',
+                code: 'API_ERROR',
+                statusCode: 502,
+                detail: process.env.NODE_ENV === 'development' ? error.message : undefined,
+            };
+        }
+        return {
+            message: 'Failed to generate speech. Please try again later.',
+            code: 'GENERAL_ERROR',
+            statusCode: 500,
+            detail: process.env.NODE_ENV === 'development' ? error.message : undefined,
+        };
+    }
+}
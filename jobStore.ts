@@ -0,0 +1,152 @@
+import { createClient } from 'redis';
+import type { AudioFormat } from './audioUtils';
+import type { VoiceOptions } from './ttsProvider';
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+export type JobState = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+export type ChunkState = 'pending' | 'processing' | 'completed' | 'skipped';
+
+export interface JobChunk {
+    index: number;
+    state: ChunkState;
+    file?: string;
+    error?: string;
+}
+
+export interface JobError {
+    message: string;
+    code: string;
+    statusCode: number;
+    detail?: string;
+}
+
+export interface Job {
+    id: string;
+    state: JobState;
+    voice: string;
+    instructions: string;
+    format: AudioFormat;
+    voiceOptions: VoiceOptions;
+    speakers?: Record<string, string>;  // speaker -> voice, for dialogue scripts
+    language?: string;                  // target language of a translation job
+    summary?: string;                   // summary length preset of a summary job
+    spokenText?: string;                // the text actually spoken when the job rewrote its input (translation or summary)
+    user?: string;                      // the signed-in user who submitted the job
+    instance?: string;                  // the server process that queued the job and runs it
+    characters: number;
+    totalChunks: number;
+    completedChunks: number;
+    skippedChunks: number;
+    chunks: JobChunk[];
+    files: string[];
+    merge: boolean;             // whether the chunks are joined into a single file when the job completes
+    mergedFile?: string;
+    normalize: boolean;         // whether numbers, dates and abbreviations were rewritten as words before synthesis
+    punctuate: boolean;         // whether headings, list items and paragraph ends were given a full stop (with normalize)
+    markup: boolean;            // whether pause, emphasis and voice markup in the text was interpreted
+    error?: JobError;
+    createdAt: string;
+    updatedAt: string;
+    startedAt?: string;
+    finishedAt?: string;
+    audioSeconds?: number;      // playing time of the generated audio (mp3, wav and pcm only)
+}
+
+export interface JobStore {
+    get(id: string): Promise<Job | null>;
+    save(job: Job): Promise<void>;
+    unfinished(): Promise<Job[]>;                                       // jobs that are queued or processing
+    heartbeat(instance: string, ttlSeconds: number): Promise<void>;     // mark a server process as alive for ttlSeconds
+    isAlive(instance: string): Promise<boolean>;
+}
+
+function isUnfinished(job: Job): boolean {
+    return job.state === 'queued' || job.state === 'processing';
+}
+
+const JOB_TTL_SECONDS = parseInt(process.env.JOB_TTL_SECONDS || '86400', 10); // Keep job records for 1 day
+
+// Stores jobs in Redis so their status survives restarts and is visible to every instance
+export class RedisJobStore implements JobStore {
+    private client: RedisClient;
+
+    constructor(client: RedisClient) {
+        this.client = client;
+    }
+
+    async get(id: string): Promise<Job | null> {
+        const raw = await this.client.get(`job:${id}`);
+        return raw ? JSON.parse(raw) as Job : null;
+    }
+
+    // Unfinished jobs are also listed in a set, so they can be found after the process running them has died
+    async save(job: Job): Promise<void> {
+        const transaction = this.client.multi().set(`job:${job.id}`, JSON.stringify(job), { EX: JOB_TTL_SECONDS });
+        if (isUnfinished(job)) {
+            transaction.sAdd('jobs:unfinished', job.id);
+        } else {
+            transaction.sRem('jobs:unfinished', job.id);
+        }
+        await transaction.exec();
+    }
+
+    async unfinished(): Promise<Job[]> {
+        const ids = await this.client.sMembers('jobs:unfinished');
+        if (ids.length === 0) return [];
+        const raw = await this.client.mGet(ids.map(id => `job:${id}`));
+        const expired = ids.filter((_, index) => !raw[index]);
+        if (expired.length > 0) await this.client.sRem('jobs:unfinished', expired);
+        return raw
+            .filter((value): value is string => !!value)
+            .map(value => JSON.parse(value) as Job)
+            .filter(isUnfinished);
+    }
+
+    async heartbeat(instance: string, ttlSeconds: number): Promise<void> {
+        await this.client.set(`jobs:instance:${instance}`, '1', { EX: ttlSeconds });
+    }
+
+    async isAlive(instance: string): Promise<boolean> {
+        return (await this.client.exists(`jobs:instance:${instance}`)) > 0;
+    }
+}
+
+// In-process fallback used when REDIS_URL is not configured
+export class MemoryJobStore implements JobStore {
+    private jobs = new Map<string, { job: Job; expiresAt: number }>();
+
+    async get(id: string): Promise<Job | null> {
+        const entry = this.jobs.get(id);
+        if (!entry) return null;
+        if (entry.expiresAt < Date.now()) {
+            this.jobs.delete(id);
+            return null;
+        }
+        return structuredClone(entry.job);
+    }
+
+    async save(job: Job): Promise<void> {
+        this.jobs.set(job.id, { job: structuredClone(job), expiresAt: Date.now() + JOB_TTL_SECONDS * 1000 });
+        this.evictExpired();
+    }
+
+    async unfinished(): Promise<Job[]> {
+        this.evictExpired();
+        return [...this.jobs.values()].map(entry => structuredClone(entry.job)).filter(isUnfinished);
+    }
+
+    // Jobs kept in memory die with the process that runs them, so every instance they name is this one
+    async heartbeat(): Promise<void> {}
+
+    async isAlive(): Promise<boolean> {
+        return true;
+    }
+
+    private evictExpired() {
+        const now = Date.now();
+        for (const [id, entry] of this.jobs) {
+            if (entry.expiresAt < now) this.jobs.delete(id);
+        }
+    }
+}
@@ -0,0 +1,46 @@
+export interface LanguageInfo {
+    code: string;          // ISO 639-1
+    name: string;
+    accent?: string;       // preferred accent or variety for narration
+}
+
+// Target languages for translation; each maps to narration instructions suited to the language
+export const supportedLanguages: LanguageInfo[] = [
+    { code: 'en', name: 'English' },
+    { code: 'es', name: 'Spanish', accent: 'a neutral Latin American accent' },
+    { code: 'fr', name: 'French', accent: 'a standard metropolitan French accent' },
+    { code: 'de', name: 'German' },
+    { code: 'it', name: 'Italian' },
+    { code: 'pt', name: 'Portuguese', accent: 'a Brazilian accent' },
+    { code: 'nl', name: 'Dutch' },
+    { code: 'pl', name: 'Polish' },
+    { code: 'ru', name: 'Russian' },
+    { code: 'uk', name: 'Ukrainian' },
+    { code: 'tr', name: 'Turkish' },
+    { code: 'ar', name: 'Arabic', accent: 'Modern Standard Arabic pronunciation' },
+    { code: 'fa', name: 'Persian' },
+    { code: 'hi', name: 'Hindi' },
+    { code: 'bn', name: 'Bengali' },
+    { code: 'ur', name: 'Urdu' },
+    { code: 'zh', name: 'Chinese', accent: 'standard Mandarin pronunciation' },
+    { code: 'ja', name: 'Japanese' },
+    { code: 'ko', name: 'Korean' },
+    { code: 'vi', name: 'Vietnamese' },
+    { code: 'tl', name: 'Tagalog' },
+    { code: 'sw', name: 'Swahili' },
+    { code: 'so', name: 'Somali' },
+    { code: 'ht', name: 'Haitian Creole' }
+];
+
+// Look a language up by code ("es") or English name ("spanish")
+export function findLanguage(value: unknown): LanguageInfo | undefined {
+    if (typeof value !== 'string') return undefined;
+    const wanted = value.trim().toLowerCase();
+    return supportedLanguages.find(language => language.code === wanted || language.name.toLowerCase() === wanted);
+}
+
+// Narration instructions for speech in the given language
+export function languageInstructions(language: LanguageInfo): string {
+    const accent = language.accent ? ` with ${language.accent}` : '';
+    return `Speak in natural, native-sounding ${language.name}${accent}. Pronounce names and places as a native ${language.name} speaker would.`;
+}
@@ -0,0 +1,41 @@
+import { OpenAIError } from './openaiClient';
+import { AudioFormat, silence } from './audioUtils';
+import type { SpeechRequestOptions, TtsProvider, VoiceOptions } from './ttsProvider';
+
+// Roughly how fast a narrator reads: ~150 words per minute
+const CHARACTERS_PER_SECOND = 14;
+const MIN_DURATION_MS = 500;
+
+// Offline provider that returns silence of about the length real narration would have.
+// Useful for development, demos and air-gapped machines; select it with TTS_PROVIDER=local.
+export class LocalTtsProvider implements TtsProvider {
+    public readonly name = 'local';
+    public readonly model = 'silence';
+    public readonly formats: readonly AudioFormat[] = ['mp3', 'wav', 'pcm'];
+
+    async generateSpeech(
+        text: string,
+        voice: string = "alloy",
+        instructions: string = "Speak in a neutral tone.",
+        voiceOptions: VoiceOptions = {},
+        output: AudioFormat = "mp3",
+        requestOptions: SpeechRequestOptions = {}
+    ): Promise<Buffer> {
+        if (requestOptions.signal?.aborted) {
+            throw new OpenAIError("Speech request was cancelled.", 499, 'REQUEST_CANCELLED');
+        }
+        const durationMs = LocalTtsProvider.estimateDurationMs(text, voiceOptions.speed);
+        console.log(`Local TTS provider: ${durationMs}ms of ${output} silence for ${text.length} characters (voice: ${voice})`);
+
+        const audio = silence(output, durationMs);
+        if (!audio) {
+            throw new OpenAIError(`The local TTS provider cannot produce "${output}" audio.`, 400, 'UNSUPPORTED_FORMAT');
+        }
+        return audio;
+    }
+
+    static estimateDurationMs(text: string, speed: number = 1): number {
+        const seconds = text.trim().length / CHARACTERS_PER_SECOND / (speed > 0 ? speed : 1);
+        return Math.max(MIN_DURATION_MS, Math.round(seconds * 1000));
+    }
+}
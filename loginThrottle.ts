@@ -0,0 +1,159 @@
+import type { RedisClient } from './jobStore';
+
+export interface LoginLimits {
+    freeAttempts: number;       // failures per username before each further attempt has to wait
+    maxFailures: number;        // failures per username that lock it out
+    maxFailuresPerIp: number;   // failures from one address that lock it out (offices share addresses, so this is higher)
+    windowSeconds: number;      // failures older than this are forgotten
+    lockoutSeconds: number;
+}
+
+// Failure counters and blocks, keyed by "user:<name>" or "ip:<address>"
+export interface LoginAttemptStore {
+    addFailure(key: string, windowSeconds: number): Promise<number>;
+    block(key: string, until: number): Promise<void>;
+    blockedUntil(key: string): Promise<number | null>;
+    reset(key: string): Promise<void>;
+}
+
+export class RedisLoginAttemptStore implements LoginAttemptStore {
+    private client: RedisClient;
+
+    constructor(client: RedisClient) {
+        this.client = client;
+    }
+
+    async addFailure(key: string, windowSeconds: number): Promise<number> {
+        const failures = await this.client.incr(`login:failures:${key}`);
+        // The window starts with the first failure
+        if (failures === 1) {
+            await this.client.expire(`login:failures:${key}`, windowSeconds);
+        }
+        return failures;
+    }
+
+    async block(key: string, until: number): Promise<void> {
+        await this.client.set(`login:blocked:${key}`, String(until), { PXAT: until });
+    }
+
+    async blockedUntil(key: string): Promise<number | null> {
+        const until = await this.client.get(`login:blocked:${key}`);
+        return until ? Number(until) : null;
+    }
+
+    async reset(key: string): Promise<void> {
+        await this.client.del([`login:failures:${key}`, `login:blocked:${key}`]);
+    }
+}
+
+// In-process fallback used when REDIS_URL is not configured
+export class MemoryLoginAttemptStore implements LoginAttemptStore {
+    private failures = new Map<string, { count: number; expiresAt: number }>();
+    private blocks = new Map<string, number>();
+
+    async addFailure(key: string, windowSeconds: number): Promise<number> {
+        const now = Date.now();
+        const current = this.failures.get(key);
+        const entry = current && current.expiresAt > now ? current : { count: 0, expiresAt: now + windowSeconds * 1000 };
+        entry.count++;
+        this.failures.set(key, entry);
+        return entry.count;
+    }
+
+    async block(key: string, until: number): Promise<void> {
+        this.blocks.set(key, until);
+    }
+
+    async blockedUntil(key: string): Promise<number | null> {
+        const until = this.blocks.get(key);
+        if (until === undefined) return null;
+        if (until <= Date.now()) {
+            this.blocks.delete(key);
+            return null;
+        }
+        return until;
+    }
+
+    async reset(key: string): Promise<void> {
+        this.failures.delete(key);
+        this.blocks.delete(key);
+    }
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+    const value = parseInt(process.env[name] || '', 10);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export interface LoginFailure {
+    retryAfterSeconds: number;              // 0 when the next attempt may be made right away
+    lockedOut: Array<'user' | 'ip'>;        // what this failure locked out
+}
+
+// Slows down password guessing. After a few failures for a username, each further attempt has to wait
+// twice as long as the previous one (1 s, 2 s, 4 s, ...); at the limit the username is locked out.
+// Addresses are only locked out, at a higher limit.
+export class LoginThrottle {
+    private store: LoginAttemptStore;
+    private limits: LoginLimits;
+
+    constructor(store: LoginAttemptStore, limits: LoginLimits = LoginThrottle.configuredLimits()) {
+        this.store = store;
+        this.limits = limits;
+    }
+
+    static configuredLimits(): LoginLimits {
+        return {
+            freeAttempts: 3,
+            maxFailures: numberFromEnv('LOGIN_MAX_FAILURES', 10),
+            maxFailuresPerIp: numberFromEnv('LOGIN_MAX_FAILURES_PER_IP', 50),
+            windowSeconds: numberFromEnv('LOGIN_FAILURE_WINDOW_SECONDS', 900),
+            lockoutSeconds: numberFromEnv('LOGIN_LOCKOUT_SECONDS', 900),
+        };
+    }
+
+    private static userKey(username: string): string {
+        return `user:${username.toLowerCase()}`;
+    }
+
+    // Seconds until the username and address may try again; 0 when they may try now
+    async retryAfter(username: string, ip: string): Promise<number> {
+        const until = Math.max(
+            await this.store.blockedUntil(LoginThrottle.userKey(username)) || 0,
+            await this.store.blockedUntil(`ip:${ip}`) || 0);
+        return Math.max(0, Math.ceil((until - Date.now()) / 1000));
+    }
+
+    async recordFailure(username: string, ip: string): Promise<LoginFailure> {
+        const now = Date.now();
+        const lockedOut: LoginFailure['lockedOut'] = [];
+        let blockedUntil = 0;
+
+        const userKey = LoginThrottle.userKey(username);
+        const userFailures = await this.store.addFailure(userKey, this.limits.windowSeconds);
+        if (userFailures >= this.limits.maxFailures) {
+            blockedUntil = now + this.limits.lockoutSeconds * 1000;
+            lockedOut.push('user');
+        } else if (userFailures >= this.limits.freeAttempts) {
+            blockedUntil = now + 1000 * 2 ** (userFailures - this.limits.freeAttempts);
+        }
+        if (blockedUntil > 0) {
+            await this.store.block(userKey, blockedUntil);
+        }
+
+        const ipFailures = await this.store.addFailure(`ip:${ip}`, this.limits.windowSeconds);
+        if (ipFailures >= this.limits.maxFailuresPerIp) {
+            const ipBlockedUntil = now + this.limits.lockoutSeconds * 1000;
+            await this.store.block(`ip:${ip}`, ipBlockedUntil);
+            blockedUntil = Math.max(blockedUntil, ipBlockedUntil);
+            lockedOut.push('ip');
+        }
+        return { retryAfterSeconds: Math.max(0, Math.ceil((blockedUntil - now) / 1000)), lockedOut };
+    }
+
+    // Clear the username's failures and lockout, after a successful sign-in or when an administrator unlocks it.
+    // The address's failures stay, since other usernames share them.
+    async reset(username: string): Promise<void> {
+        await this.store.reset(LoginThrottle.userKey(username));
+    }
+}
@@ -1,34 +1,55 @@
 import axios from 'axios';
 import dotenv from "dotenv";
+import type { SpeechRequestOptions, TtsProvider, VoiceOptions } from './ttsProvider';
+import { AUDIO_FORMATS, AudioFormat } from './audioUtils';
 
 dotenv.config();
 
-// Voice options interface (moved outside the class)
-interface VoiceOptions {
-    speed?: number;      // 0.5 to 2.0
-    pitch?: number;      // -10 to 10
-    volume?: number;     // 0.5 to 2.0
-}
-
 // Custom error class to provide better error handling
 export class OpenAIError extends Error {
     public statusCode: number;
     public errorCode: string;
+    public retryAfterMs?: number; // Set for rate-limit errors when the server says how long to wait
 
-    constructor(message: string, statusCode: number = 500, errorCode: string = 'API_ERROR') {
+    constructor(message: string, statusCode: number = 500, errorCode: string = 'API_ERROR', retryAfterMs?: number) {
         super(message);
         this.name = 'OpenAIError';
         this.statusCode = statusCode;
         this.errorCode = errorCode;
+        this.retryAfterMs = retryAfterMs;
     }
 }
 
-export class OpenAIClient {
+// Parse a Retry-After header given either in seconds or as an HTTP date
+function parseRetryAfter(header: unknown): number | undefined {
+    if (typeof header !== 'string' || !header.trim()) return undefined;
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export interface OpenAIClientOptions {
+    baseUrl?: string;    // Any OpenAI-compatible API root, e.g. http://localhost:8000/v1
+    model?: string;      // Speech model name
+}
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini-tts';
+
+export class OpenAIClient implements TtsProvider {
+    public readonly name = 'openai';
+    public readonly formats = AUDIO_FORMATS;
     private apiKey: string;
+    private baseUrl: string;
+    public readonly model: string;
 
-constructor(apiKey: string) {
+    constructor(apiKey: string, options: OpenAIClientOptions = {}) {
         this.apiKey = apiKey;
-        if (!this.apiKey) {
+        this.baseUrl = (options.baseUrl || process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+        this.model = options.model || process.env.TTS_MODEL || DEFAULT_MODEL;
+        // Self-hosted compatible servers often run without authentication
+        if (!this.apiKey && this.baseUrl === DEFAULT_BASE_URL) {
             throw new Error("OpenAI API key is missing. Please set it in the .env file.");
         }
     }
@@ -38,7 +59,8 @@ constructor(apiKey: string) {
         voice: string = "alloy",
         instructions: string = "Speak in a neutral tone.",
         voiceOptions: VoiceOptions = {},
-        output: string = "mp3" // Default output format
+        output: AudioFormat = "mp3", // Default output format
+        requestOptions: SpeechRequestOptions = {}
     ): Promise<Buffer> {
         const maxRetries = 3; // Retry up to 3 times for transient errors
         let attempt = 0;
@@ -46,43 +68,47 @@ constructor(apiKey: string) {
 
         while (attempt < maxRetries) {
             try {
-                // Incorporate voice options into instructions
+                // The API has no pitch parameter, so pitch is requested in the instructions
                 let formattedInstructions = instructions;
-                if (voiceOptions.speed) {
-                    formattedInstructions += ` Speak at ${voiceOptions.speed > 1 ? 'a faster' : 'a slower'} pace.`;
-                }
                 if (voiceOptions.pitch) {
                     formattedInstructions += ` Use ${voiceOptions.pitch > 0 ? 'a higher' : 'a lower'} pitch.`;
                 }
 
                 const payload = {
-                    model: "gpt-4o-mini-tts",
+                    model: this.model,
                     input: text,
                     voice,
-                    instructions: formattedInstructions
+                    instructions: formattedInstructions,
+                    response_format: output,
+                    ...(voiceOptions.speed !== undefined ? { speed: voiceOptions.speed } : {})
                 };
 
                 console.log('Sending request to OpenAI API for text-to-speech...');
                 console.log('Request payload:', JSON.stringify(payload, null, 2)); // Log the payload for debugging
 
                 const response = await axios.post(
-                    'https://api.openai.com/v1/audio/speech',
+                    `${this.baseUrl}/audio/speech`,
                     payload,
                     {
                         headers: {
-                            'Authorization': `Bearer ${this.apiKey}`,
+                            ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
                             'Content-Type': 'application/json',
                         },
                         responseType: 'arraybuffer', // Expect binary data for audio
-                        timeout // Use the configurable timeout
+                        timeout, // Use the configurable timeout
+                        signal: requestOptions.signal
                     }
                 );
 
                 console.log('Received response from OpenAI API.');
                 console.log(`Response status: ${response.status}`);
                 return Buffer.from(response.data);
-            } catch (error) {
+            } catch (error: any) {
                 attempt++;
+
+                if (axios.isCancel(error) || requestOptions.signal?.aborted) {
+                    throw new OpenAIError("Speech request was cancelled.", 499, 'REQUEST_CANCELLED');
+                }
                 
                 // Handle different types of errors
                 if (error.response) {
@@ -106,7 +132,8 @@ constructor(apiKey: string) {
                         throw new OpenAIError(
                             "OpenAI API rate limit exceeded. Please try again after some time.",
                             429,
-                            'RATE_LIMIT_EXCEEDED'
+                            'RATE_LIMIT_EXCEEDED',
+                            parseRetryAfter(error.response.headers?.['retry-after'])
                         );
                     }
                     
@@ -167,6 +194,7 @@ constructor(apiKey: string) {
                 }
                 
                 // Wait before retrying
+                requestOptions.onRetry?.(attempt, error.response ? `HTTP ${error.response.status}` : error.message);
                 await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
             }
         }
@@ -0,0 +1,1046 @@
+import * as zlib from 'zlib';
+import type { ExtractedParagraph } from './documentExtractor';
+import { MAX_ENTRY_BYTES } from './zipArchive';
+
+// Plain-text extraction from PDF content streams. This is not a renderer: it
+// walks the page tree, interprets the text operators, and groups the glyph
+// runs back into lines and paragraphs using their positions on the page.
+
+export class PdfExtractionError extends Error {
+    public errorCode: string;
+
+    constructor(message: string, errorCode: string = 'CORRUPT_PDF') {
+        super(message);
+        this.name = 'PdfExtractionError';
+        this.errorCode = errorCode;
+    }
+}
+
+class PdfName {
+    constructor(public value: string) {}
+}
+
+class PdfRef {
+    constructor(public num: number, public gen: number) {}
+}
+
+class PdfKeyword {
+    constructor(public value: string) {}
+}
+
+type PdfDict = Map<string, PdfValue>;
+type PdfValue = number | boolean | null | Buffer | PdfName | PdfRef | PdfDict | PdfValue[];
+type PdfToken = PdfValue | PdfKeyword;
+
+interface PdfObject {
+    value: PdfValue;
+    stream?: Buffer;
+}
+
+interface PdfFont {
+    bytesPerCode: number;
+    toUnicode: Map<number, string> | null;
+    differences: Map<number, string>;
+    widths: Map<number, number>;
+    defaultWidth: number;
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set(Array.from('()<>[]{}/%').map(c => c.charCodeAt(0)));
+const MAX_FORM_DEPTH = 8;
+
+const windows1252 = new TextDecoder('windows-1252');
+
+// Glyph names commonly found in /Differences arrays
+const GLYPH_NAMES: Record<string, string> = {
+    space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%',
+    ampersand: '&', quotesingle: "'", parenleft: '(', parenright: ')', asterisk: '*',
+    plus: '+', comma: ',', hyphen: '-', period: '.', slash: '/', colon: ':', semicolon: ';',
+    less: '<', equal: '=', greater: '>', question: '?', at: '@', bracketleft: '[',
+    backslash: '\\', bracketright: ']', underscore: '_', braceleft: '{', braceright: '}',
+    zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7',
+    eight: '8', nine: '9', quoteleft: '‘', quoteright: '’', quotedblleft: '“',
+    quotedblright: '”', endash: '–', emdash: '—', bullet: '•',
+    ellipsis: '…', fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl',
+    copyright: '©', registered: '®', trademark: '™', degree: '°',
+    nbspace: ' ', minus: '-',
+};
+
+export class PdfExtractor {
+    private data: Buffer;
+    private objects = new Map<number, PdfObject>();
+    private trailers: PdfDict[] = [];
+    private fontCache = new Map<number | PdfValue, PdfFont>();
+    private imageCount = 0;
+
+    constructor(data: Buffer) {
+        this.data = data;
+    }
+
+    static isPdf(buffer: Buffer): boolean {
+        return buffer.subarray(0, 1024).toString('latin1').includes('%PDF-');
+    }
+
+    extract(): ExtractedParagraph[] {
+        if (!PdfExtractor.isPdf(this.data)) {
+            throw new PdfExtractionError('File does not have a PDF header.');
+        }
+        this.parseObjects();
+        if (this.objects.size === 0) {
+            throw new PdfExtractionError('No PDF objects could be read. The file may be damaged.');
+        }
+        if (this.trailers.some(trailer => trailer.has('Encrypt'))) {
+            throw new PdfExtractionError('The PDF is encrypted or password-protected.', 'ENCRYPTED');
+        }
+
+        const paragraphs: ExtractedParagraph[] = [];
+        for (const page of this.collectPages()) {
+            const collector = new TextCollector();
+            const content = this.pageContent(page.dict);
+            if (content) {
+                this.interpret(content, page.resources, collector, IDENTITY, 0);
+            }
+            paragraphs.push(...collector.paragraphs());
+        }
+
+        if (paragraphs.length === 0 && this.imageCount > 0) {
+            throw new PdfExtractionError(
+                'The PDF contains only images (for example a scanned document) and no selectable text.',
+                'IMAGE_ONLY'
+            );
+        }
+        return paragraphs;
+    }
+
+    // --- Object parsing ---
+
+    private parseObjects() {
+        const text = this.data.toString('latin1');
+        const objectPattern = /(\d+)\s+(\d+)\s+obj\b/g;
+        let match: RegExpExecArray | null;
+
+        while ((match = objectPattern.exec(text)) !== null) {
+            const num = parseInt(match[1], 10);
+            const lexer = new PdfLexer(this.data, objectPattern.lastIndex);
+            let value: PdfToken;
+            try {
+                value = lexer.readToken();
+            } catch {
+                continue;
+            }
+            if (value instanceof PdfKeyword) {
+                continue;
+            }
+
+            const object: PdfObject = { value };
+            lexer.skipWhitespace();
+            if (value instanceof Map && text.startsWith('stream', lexer.pos)) {
+                const bounds = this.streamBounds(value, lexer.pos + 'stream'.length);
+                object.stream = this.data.subarray(bounds.start, bounds.end);
+                objectPattern.lastIndex = bounds.end;
+            }
+            this.objects.set(num, object);
+
+            if (value instanceof Map && this.nameOf(value.get('Type')) === 'XRef') {
+                this.trailers.push(value);
+            }
+        }
+
+        const trailerPattern = /trailer\s*<</g;
+        while ((match = trailerPattern.exec(text)) !== null) {
+            try {
+                const trailer = new PdfLexer(this.data, match.index + 'trailer'.length).readToken();
+                if (trailer instanceof Map) {
+                    this.trailers.push(trailer);
+                }
+            } catch {
+                // A damaged trailer is not fatal; the object scan already found what it could
+            }
+        }
+
+        this.expandObjectStreams();
+    }
+
+    private streamBounds(dict: PdfDict, afterKeyword: number): { start: number; end: number } {
+        let start = afterKeyword;
+        if (this.data[start] === 0x0d) start++;
+        if (this.data[start] === 0x0a) start++;
+
+        const length = dict.get('Length');
+        if (typeof length === 'number' && start + length <= this.data.length) {
+            const trailing = this.data.subarray(start + length, start + length + 32).toString('latin1');
+            if (/^\s*endstream/.test(trailing)) {
+                return { start, end: start + length };
+            }
+        }
+
+        // Length is indirect or wrong: fall back to searching for the end marker
+        let end = this.data.indexOf('endstream', start, 'latin1');
+        if (end < 0) end = this.data.length;
+        let trimmed = end;
+        if (this.data[trimmed - 1] === 0x0a) trimmed--;
+        if (this.data[trimmed - 1] === 0x0d) trimmed--;
+        return { start, end: Math.max(start, trimmed) };
+    }
+
+    private expandObjectStreams() {
+        for (const object of Array.from(this.objects.values())) {
+            if (!(object.value instanceof Map) || !object.stream) continue;
+            if (this.nameOf(object.value.get('Type')) !== 'ObjStm') continue;
+
+            const decoded = this.decodeStream(object.value, object.stream);
+            if (!decoded) continue;
+            const count = this.resolve(object.value.get('N'));
+            const first = this.resolve(object.value.get('First'));
+            if (typeof count !== 'number' || typeof first !== 'number') continue;
+
+            const header = new PdfLexer(decoded);
+            const entries: Array<[number, number]> = [];
+            for (let i = 0; i < count; i++) {
+                const num = header.readToken();
+                const offset = header.readToken();
+                if (typeof num !== 'number' || typeof offset !== 'number') break;
+                entries.push([num, offset]);
+            }
+            for (const [num, offset] of entries) {
+                if (this.objects.has(num)) continue;
+                try {
+                    const value = new PdfLexer(decoded, first + offset).readToken();
+                    if (!(value instanceof PdfKeyword)) {
+                        this.objects.set(num, { value });
+                    }
+                } catch {
+                    continue;
+                }
+            }
+        }
+    }
+
+    private resolve(value: PdfValue | undefined, depth: number = 0): PdfValue | undefined {
+        if (value instanceof PdfRef && depth < 16) {
+            return this.resolve(this.objects.get(value.num)?.value, depth + 1);
+        }
+        return value;
+    }
+
+    private resolveDict(value: PdfValue | undefined): PdfDict | null {
+        const resolved = this.resolve(value);
+        return resolved instanceof Map ? resolved : null;
+    }
+
+    private resolveArray(value: PdfValue | undefined): PdfValue[] {
+        const resolved = this.resolve(value);
+        return Array.isArray(resolved) ? resolved : [];
+    }
+
+    private nameOf(value: PdfValue | undefined): string | null {
+        const resolved = this.resolve(value);
+        return resolved instanceof PdfName ? resolved.value : null;
+    }
+
+    private streamOf(value: PdfValue | undefined): { dict: PdfDict; data: Buffer } | null {
+        if (!(value instanceof PdfRef)) return null;
+        const object = this.objects.get(value.num);
+        if (!object?.stream || !(object.value instanceof Map)) return null;
+        const data = this.decodeStream(object.value, object.stream);
+        return data ? { dict: object.value, data } : null;
+    }
+
+    // --- Stream filters ---
+
+    private decodeStream(dict: PdfDict, raw: Buffer): Buffer | null {
+        const filter = this.resolve(dict.get('Filter'));
+        const filters = Array.isArray(filter) ? filter : filter ? [filter] : [];
+        let data: Buffer | null = raw;
+
+        for (const entry of filters) {
+            const name = this.nameOf(entry);
+            if (!data) return null;
+            switch (name) {
+                case 'FlateDecode':
+                case 'Fl':
+                    data = inflate(data);
+                    break;
+                case 'ASCIIHexDecode':
+                case 'AHx':
+                    data = decodeAsciiHex(data);
+                    break;
+                case 'ASCII85Decode':
+                case 'A85':
+                    data = decodeAscii85(data);
+                    break;
+                default:
+                    // Image codecs (DCT, JPX, CCITT, JBIG2) and LZW carry nothing we can read as text
+                    return null;
+            }
+        }
+        return data;
+    }
+
+    // --- Page tree ---
+
+    private collectPages(): Array<{ dict: PdfDict; resources: PdfDict | null }> {
+        const pages: Array<{ dict: PdfDict; resources: PdfDict | null }> = [];
+        const visited = new Set<PdfDict>();
+
+        const walk = (node: PdfDict | null, inheritedResources: PdfDict | null) => {
+            if (!node || visited.has(node)) return;
+            visited.add(node);
+            const resources = this.resolveDict(node.get('Resources')) || inheritedResources;
+            const type = this.nameOf(node.get('Type'));
+            if (type === 'Pages' || node.has('Kids')) {
+                for (const kid of this.resolveArray(node.get('Kids'))) {
+                    walk(this.resolveDict(kid), resources);
+                }
+            } else {
+                pages.push({ dict: node, resources });
+            }
+        };
+
+        for (const trailer of this.trailers) {
+            const root = this.resolveDict(trailer.get('Root'));
+            if (root) {
+                walk(this.resolveDict(root.get('Pages')), null);
+                if (pages.length > 0) return pages;
+            }
+        }
+
+        // No usable trailer (damaged file): fall back to every page object in file order
+        for (const object of this.objects.values()) {
+            if (object.value instanceof Map && this.nameOf(object.value.get('Type')) === 'Page') {
+                pages.push({ dict: object.value, resources: this.resolveDict(object.value.get('Resources')) });
+            }
+        }
+        return pages;
+    }
+
+    private pageContent(page: PdfDict): Buffer | null {
+        const contents = page.get('Contents');
+        const refs = contents instanceof PdfRef && Array.isArray(this.resolve(contents))
+            ? this.resolveArray(contents)
+            : Array.isArray(contents) ? contents : [contents];
+        const parts: Buffer[] = [];
+        for (const ref of refs) {
+            const stream = this.streamOf(ref);
+            if (stream) {
+                parts.push(stream.data, Buffer.from('\n'));
+            }
+        }
+        return parts.length > 0 ? Buffer.concat(parts) : null;
+    }
+
+    // --- Fonts ---
+
+    private loadFont(resources: PdfDict | null, name: string): PdfFont | null {
+        const fonts = this.resolveDict(resources?.get('Font'));
+        const ref = fonts?.get(name);
+        if (ref === undefined) return null;
+        const cacheKey = ref instanceof PdfRef ? ref.num : ref;
+        const cached = this.fontCache.get(cacheKey);
+        if (cached) return cached;
+
+        const dict = this.resolveDict(ref);
+        if (!dict) return null;
+
+        const isType0 = this.nameOf(dict.get('Subtype')) === 'Type0';
+        const font: PdfFont = {
+            bytesPerCode: isType0 ? 2 : 1,
+            toUnicode: null,
+            differences: new Map(),
+            widths: new Map(),
+            defaultWidth: isType0 ? 1000 : 500,
+        };
+
+        const cmapStream = this.streamOf(dict.get('ToUnicode'));
+        if (cmapStream) {
+            const cmap = parseToUnicodeCMap(cmapStream.data);
+            font.toUnicode = cmap.map;
+            if (cmap.bytesPerCode) font.bytesPerCode = cmap.bytesPerCode;
+        }
+
+        const encoding = this.resolveDict(dict.get('Encoding'));
+        if (encoding) {
+            let code = 0;
+            for (const entry of this.resolveArray(encoding.get('Differences'))) {
+                if (typeof entry === 'number') {
+                    code = entry;
+                } else if (entry instanceof PdfName) {
+                    const char = glyphToUnicode(entry.value);
+                    if (char !== null) font.differences.set(code, char);
+                    code++;
+                }
+            }
+        }
+
+        if (isType0) {
+            const descendant = this.resolveDict(this.resolveArray(dict.get('DescendantFonts'))[0]);
+            if (descendant) {
+                const dw = this.resolve(descendant.get('DW'));
+                if (typeof dw === 'number') font.defaultWidth = dw;
+                this.readCidWidths(this.resolveArray(descendant.get('W')), font.widths);
+            }
+        } else {
+            const firstChar = this.resolve(dict.get('FirstChar'));
+            const widths = this.resolveArray(dict.get('Widths'));
+            if (typeof firstChar === 'number') {
+                widths.forEach((width, i) => {
+                    const resolved = this.resolve(width);
+                    if (typeof resolved === 'number') font.widths.set(firstChar + i, resolved);
+                });
+            }
+            const descriptor = this.resolveDict(dict.get('FontDescriptor'));
+            const missing = this.resolve(descriptor?.get('MissingWidth'));
+            if (typeof missing === 'number' && missing > 0) font.defaultWidth = missing;
+        }
+
+        this.fontCache.set(cacheKey, font);
+        return font;
+    }
+
+    private readCidWidths(entries: PdfValue[], widths: Map<number, number>) {
+        for (let i = 0; i < entries.length;) {
+            const first = this.resolve(entries[i]);
+            const next = this.resolve(entries[i + 1]);
+            if (typeof first !== 'number') break;
+            if (Array.isArray(next)) {
+                next.forEach((width, offset) => {
+                    if (typeof width === 'number') widths.set(first + offset, width);
+                });
+                i += 2;
+            } else {
+                const last = next;
+                const width = this.resolve(entries[i + 2]);
+                if (typeof last !== 'number' || typeof width !== 'number') break;
+                for (let code = first; code <= last && code - first < 0xffff; code++) {
+                    widths.set(code, width);
+                }
+                i += 3;
+            }
+        }
+    }
+
+    // --- Content stream interpretation ---
+
+    private interpret(content: Buffer, resources: PdfDict | null, collector: TextCollector, initialCtm: Matrix, depth: number) {
+        const lexer = new PdfLexer(content);
+        const operands: PdfValue[] = [];
+        const stack: Array<{ ctm: Matrix; font: PdfFont | null; fontSize: number; charSpacing: number; wordSpacing: number; scale: number; leading: number }> = [];
+
+        let ctm: Matrix = initialCtm;
+        let tm: Matrix = IDENTITY;
+        let tlm: Matrix = IDENTITY;
+        let font: PdfFont | null = null;
+        let fontSize = 0;
+        let charSpacing = 0;
+        let wordSpacing = 0;
+        let scale = 1;
+        let leading = 0;
+
+        const nextLine = (tx: number, ty: number) => {
+            tlm = translate(tlm, tx, ty);
+            tm = tlm;
+        };
+
+        const show = (bytes: PdfValue) => {
+            if (!Buffer.isBuffer(bytes) || !font) return;
+            const { text, advance } = decodeText(font, bytes, fontSize, charSpacing, wordSpacing);
+            const tx = advance * scale;
+            const start = multiply(tm, ctm);
+            tm = translate(tm, tx, 0);
+            const end = multiply(tm, ctm);
+            const size = fontSize * Math.hypot(start[2], start[3]) || fontSize;
+            collector.add(text, start[4], start[5], end[4], size);
+        };
+
+        while (true) {
+            lexer.skipWhitespace();
+            if (lexer.atEnd()) break;
+            let token: PdfToken;
+            try {
+                token = lexer.readToken();
+            } catch {
+                break;
+            }
+            if (!(token instanceof PdfKeyword)) {
+                operands.push(token);
+                continue;
+            }
+
+            const num = (index: number) => {
+                const value = operands[index];
+                return typeof value === 'number' ? value : 0;
+            };
+
+            switch (token.value) {
+                case 'q':
+                    stack.push({ ctm, font, fontSize, charSpacing, wordSpacing, scale, leading });
+                    break;
+                case 'Q': {
+                    const saved = stack.pop();
+                    if (saved) ({ ctm, font, fontSize, charSpacing, wordSpacing, scale, leading } = saved);
+                    break;
+                }
+                case 'cm':
+                    ctm = multiply([num(0), num(1), num(2), num(3), num(4), num(5)], ctm);
+                    break;
+                case 'BT':
+                    tm = IDENTITY;
+                    tlm = IDENTITY;
+                    break;
+                case 'Tf': {
+                    const name = operands[0];
+                    font = name instanceof PdfName ? this.loadFont(resources, name.value) : null;
+                    fontSize = num(1);
+                    break;
+                }
+                case 'Tc':
+                    charSpacing = num(0);
+                    break;
+                case 'Tw':
+                    wordSpacing = num(0);
+                    break;
+                case 'Tz':
+                    scale = num(0) / 100;
+                    break;
+                case 'TL':
+                    leading = num(0);
+                    break;
+                case 'Td':
+                    nextLine(num(0), num(1));
+                    break;
+                case 'TD':
+                    leading = -num(1);
+                    nextLine(num(0), num(1));
+                    break;
+                case 'Tm':
+                    tlm = [num(0), num(1), num(2), num(3), num(4), num(5)];
+                    tm = tlm;
+                    break;
+                case 'T*':
+                    nextLine(0, -leading);
+                    break;
+                case 'Tj':
+                    show(operands[0]);
+                    break;
+                case "'":
+                    nextLine(0, -leading);
+                    show(operands[0]);
+                    break;
+                case '"':
+                    wordSpacing = num(0);
+                    charSpacing = num(1);
+                    nextLine(0, -leading);
+                    show(operands[2]);
+                    break;
+                case 'TJ': {
+                    const items = operands[0];
+                    if (Array.isArray(items)) {
+                        for (const item of items) {
+                            if (typeof item === 'number') {
+                                tm = translate(tm, (-item / 1000) * fontSize * scale, 0);
+                            } else {
+                                show(item);
+                            }
+                        }
+                    }
+                    break;
+                }
+                case 'Do': {
+                    const name = operands[0];
+                    if (name instanceof PdfName) {
+                        this.drawXObject(name.value, resources, collector, ctm, depth);
+                    }
+                    break;
+                }
+                case 'BI':
+                    lexer.skipInlineImage();
+                    this.imageCount++;
+                    break;
+            }
+            operands.length = 0;
+        }
+    }
+
+    private drawXObject(name: string, resources: PdfDict | null, collector: TextCollector, ctm: Matrix, depth: number) {
+        const ref = this.resolveDict(resources?.get('XObject'))?.get(name);
+        const object = ref instanceof PdfRef ? this.objects.get(ref.num) : undefined;
+        if (!object || !(object.value instanceof Map)) return;
+
+        const subtype = this.nameOf(object.value.get('Subtype'));
+        if (subtype === 'Image') {
+            this.imageCount++;
+            return;
+        }
+        if (subtype !== 'Form' || depth >= MAX_FORM_DEPTH || !object.stream) return;
+
+        const content = this.decodeStream(object.value, object.stream);
+        if (!content) return;
+        const matrix = this.resolveArray(object.value.get('Matrix'));
+        const formMatrix: Matrix = matrix.length === 6 && matrix.every(n => typeof n === 'number')
+            ? (matrix as Matrix)
+            : IDENTITY;
+        const formResources = this.resolveDict(object.value.get('Resources')) || resources;
+        this.interpret(content, formResources, collector, multiply(formMatrix, ctm), depth + 1);
+    }
+}
+
+// --- Tokenizer shared by object bodies and content streams ---
+
+class PdfLexer {
+    public pos: number;
+    private data: Buffer;
+
+    constructor(data: Buffer, start: number = 0) {
+        this.data = data;
+        this.pos = start;
+    }
+
+    atEnd(): boolean {
+        return this.pos >= this.data.length;
+    }
+
+    skipWhitespace() {
+        const data = this.data;
+        while (this.pos < data.length) {
+            const c = data[this.pos];
+            if (WHITESPACE.has(c)) {
+                this.pos++;
+            } else if (c === 0x25) { // % starts a comment
+                while (this.pos < data.length && data[this.pos] !== 0x0a && data[this.pos] !== 0x0d) {
+                    this.pos++;
+                }
+            } else {
+                break;
+            }
+        }
+    }
+
+    readToken(): PdfToken {
+        this.skipWhitespace();
+        if (this.atEnd()) {
+            throw new PdfExtractionError('Unexpected end of data.');
+        }
+        const c = this.data[this.pos];
+
+        if (c === 0x2f) return this.readName();
+        if (c === 0x28) return this.readLiteralString();
+        if (c === 0x3c) {
+            if (this.data[this.pos + 1] === 0x3c) return this.readDict();
+            return this.readHexString();
+        }
+        if (c === 0x5b) return this.readArray();
+        if ((c >= 0x30 && c <= 0x39) || c === 0x2b || c === 0x2d || c === 0x2e) {
+            return this.readNumberOrRef();
+        }
+        if (DELIMITERS.has(c)) {
+            this.pos++;
+            return new PdfKeyword(String.fromCharCode(c));
+        }
+
+        const word = this.readRegular();
+        if (word === 'true') return true;
+        if (word === 'false') return false;
+        if (word === 'null') return null;
+        return new PdfKeyword(word);
+    }
+
+    skipInlineImage() {
+        // Inline image data runs from the ID operator to a whitespace-delimited EI
+        const end = this.data.indexOf('EI', this.pos, 'latin1');
+        let search = end;
+        while (search >= 0) {
+            const before = this.data[search - 1];
+            const after = this.data[search + 2];
+            if (WHITESPACE.has(before) && (after === undefined || WHITESPACE.has(after))) {
+                this.pos = search + 2;
+                return;
+            }
+            search = this.data.indexOf('EI', search + 2, 'latin1');
+        }
+        this.pos = this.data.length;
+    }
+
+    private readRegular(): string {
+        const start = this.pos;
+        while (this.pos < this.data.length) {
+            const c = this.data[this.pos];
+            if (WHITESPACE.has(c) || DELIMITERS.has(c)) break;
+            this.pos++;
+        }
+        if (this.pos === start) this.pos++;
+        return this.data.toString('latin1', start, this.pos);
+    }
+
+    private readName(): PdfName {
+        this.pos++;
+        const raw = this.readRegular();
+        return new PdfName(raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+    }
+
+    private readNumberOrRef(): number | PdfRef {
+        const first = parseFloat(this.readRegular());
+        const value = Number.isFinite(first) ? first : 0;
+        if (!Number.isInteger(value) || value < 0) return value;
+
+        // Look ahead for "<gen> R"
+        const save = this.pos;
+        this.skipWhitespace();
+        const c = this.data[this.pos];
+        if (c !== undefined && c >= 0x30 && c <= 0x39) {
+            const gen = this.readRegular();
+            this.skipWhitespace();
+            const next = this.data[this.pos + 1];
+            if (/^\d+$/.test(gen) && this.data[this.pos] === 0x52 &&
+                (next === undefined || WHITESPACE.has(next) || DELIMITERS.has(next))) {
+                this.pos++;
+                return new PdfRef(value, parseInt(gen, 10));
+            }
+        }
+        this.pos = save;
+        return value;
+    }
+
+    private readLiteralString(): Buffer {
+        const data = this.data;
+        const bytes: number[] = [];
+        let depth = 1;
+        this.pos++;
+
+        while (this.pos < data.length) {
+            const c = data[this.pos++];
+            if (c === 0x5c) { // backslash
+                const e = data[this.pos++];
+                switch (e) {
+                    case 0x6e: bytes.push(0x0a); break; // \n
+                    case 0x72: bytes.push(0x0d); break; // \r
+                    case 0x74: bytes.push(0x09); break; // \t
+                    case 0x62: bytes.push(0x08); break; // \b
+                    case 0x66: bytes.push(0x0c); break; // \f
+                    case 0x0d:
+                        if (data[this.pos] === 0x0a) this.pos++;
+                        break;
+                    case 0x0a:
+                        break;
+                    default:
+                        if (e >= 0x30 && e <= 0x37) {
+                            let octal = e - 0x30;
+                            for (let i = 0; i < 2 && data[this.pos] >= 0x30 && data[this.pos] <= 0x37; i++) {
+                                octal = octal * 8 + (data[this.pos++] - 0x30);
+                            }
+                            bytes.push(octal & 0xff);
+                        } else if (e !== undefined) {
+                            bytes.push(e);
+                        }
+                }
+            } else if (c === 0x28) {
+                depth++;
+                bytes.push(c);
+            } else if (c === 0x29) {
+                if (--depth === 0) break;
+                bytes.push(c);
+            } else {
+                bytes.push(c);
+            }
+        }
+        return Buffer.from(bytes);
+    }
+
+    private readHexString(): Buffer {
+        const end = this.data.indexOf(0x3e, this.pos);
+        const stop = end < 0 ? this.data.length : end;
+        let hex = this.data.toString('latin1', this.pos + 1, stop).replace(/[^0-9a-fA-F]/g, '');
+        this.pos = stop + 1;
+        if (hex.length % 2 === 1) hex += '0';
+        return Buffer.from(hex, 'hex');
+    }
+
+    private readArray(): PdfValue[] {
+        const items: PdfValue[] = [];
+        this.pos++;
+        while (true) {
+            this.skipWhitespace();
+            if (this.atEnd()) break;
+            if (this.data[this.pos] === 0x5d) {
+                this.pos++;
+                break;
+            }
+            const token = this.readToken();
+            if (!(token instanceof PdfKeyword)) items.push(token);
+        }
+        return items;
+    }
+
+    private readDict(): PdfDict {
+        const dict: PdfDict = new Map();
+        this.pos += 2;
+        while (true) {
+            this.skipWhitespace();
+            if (this.atEnd()) break;
+            if (this.data[this.pos] === 0x3e && this.data[this.pos + 1] === 0x3e) {
+                this.pos += 2;
+                break;
+            }
+            const key = this.readToken();
+            if (!(key instanceof PdfName)) continue;
+            const value = this.readToken();
+            if (!(value instanceof PdfKeyword)) dict.set(key.value, value);
+        }
+        return dict;
+    }
+}
+
+// --- Layout reconstruction ---
+
+interface TextLine {
+    text: string;
+    y: number;
+    endX: number;
+    size: number;
+}
+
+class TextCollector {
+    private lines: TextLine[] = [];
+
+    add(text: string, x: number, y: number, endX: number, size: number) {
+        const line = this.lines[this.lines.length - 1];
+        if (line && Math.abs(y - line.y) <= Math.max(line.size, size, 1) * 0.5) {
+            // Same baseline: insert a space when there is a visible gap between the runs
+            const gap = x - line.endX;
+            if (gap > Math.max(size, 1) * 0.15 && !/\s$/.test(line.text) && !/^\s/.test(text)) {
+                line.text += ' ';
+            }
+            line.text += text;
+            line.endX = Math.max(line.endX, endX);
+            line.size = Math.max(line.size, size);
+            return;
+        }
+        if (text.trim()) {
+            this.lines.push({ text, y, endX, size });
+        }
+    }
+
+    paragraphs(): ExtractedParagraph[] {
+        const lines = this.lines
+            .map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+            .filter(line => line.text.length > 0);
+        if (lines.length === 0) return [];
+
+        const bodySize = median(lines.map(line => line.size)) || 12;
+        const gaps = lines.slice(1).map((line, i) => lines[i].y - line.y).filter(gap => gap > 0);
+        const lineGap = median(gaps) || bodySize * 1.2;
+        const rightEdge = Math.max(...lines.map(line => line.endX));
+
+        const paragraphs: ExtractedParagraph[] = [];
+        let current: string[] = [lines[0].text];
+        let currentHeading = lines[0].size > bodySize * 1.15;
+
+        const flush = () => {
+            const text = joinLines(current);
+            if (text) {
+                paragraphs.push({ text, heading: currentHeading && text.length < 200 });
+            }
+        };
+
+        for (let i = 1; i < lines.length; i++) {
+            const previous = lines[i - 1];
+            const line = lines[i];
+            const heading = line.size > bodySize * 1.15;
+            const gap = previous.y - line.y;
+            const shortSentenceEnd = /[.!?:"”]$/.test(previous.text) && previous.endX < rightEdge - bodySize * 4;
+            const breakHere = heading !== currentHeading ||
+                gap > lineGap * 1.4 ||
+                gap < -bodySize ||
+                shortSentenceEnd;
+
+            if (breakHere) {
+                flush();
+                current = [];
+                currentHeading = heading;
+            }
+            current.push(line.text);
+        }
+        flush();
+        return paragraphs;
+    }
+}
+
+function joinLines(lines: string[]): string {
+    let text = '';
+    for (const line of lines) {
+        if (!text) {
+            text = line;
+        } else if (/[A-Za-zÀ-ɏ]-$/.test(text) && /^[a-zß-ɏ]/.test(line)) {
+            // Undo end-of-line hyphenation: "impor-" + "tant" -> "important"
+            text = text.slice(0, -1) + line;
+        } else {
+            text += ' ' + line;
+        }
+    }
+    return text.trim();
+}
+
+function median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+}
+
+// --- Helpers ---
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+    return [
+        m[0] * n[0] + m[1] * n[2],
+        m[0] * n[1] + m[1] * n[3],
+        m[2] * n[0] + m[3] * n[2],
+        m[2] * n[1] + m[3] * n[3],
+        m[4] * n[0] + m[5] * n[2] + n[4],
+        m[4] * n[1] + m[5] * n[3] + n[5],
+    ];
+}
+
+function translate(m: Matrix, tx: number, ty: number): Matrix {
+    return [m[0], m[1], m[2], m[3], tx * m[0] + ty * m[2] + m[4], tx * m[1] + ty * m[3] + m[5]];
+}
+
+function decodeText(font: PdfFont, bytes: Buffer, fontSize: number, charSpacing: number, wordSpacing: number): { text: string; advance: number } {
+    let text = '';
+    let advance = 0;
+    for (let i = 0; i + font.bytesPerCode <= bytes.length; i += font.bytesPerCode) {
+        const code = font.bytesPerCode === 2 ? bytes.readUInt16BE(i) : bytes[i];
+        let char = font.toUnicode?.get(code) ?? font.differences.get(code);
+        if (char === undefined) {
+            // Without a ToUnicode map two-byte codes are glyph IDs and cannot be read back as text
+            char = font.bytesPerCode === 1 ? windows1252.decode(bytes.subarray(i, i + 1)) : '';
+        }
+        text += char;
+        const width = font.widths.get(code) ?? font.defaultWidth;
+        advance += (width / 1000) * fontSize + charSpacing + (char === ' ' && font.bytesPerCode === 1 ? wordSpacing : 0);
+    }
+    return { text: text.replace(/\u0000/g, ''), advance };
+}
+
+function glyphToUnicode(name: string): string | null {
+    if (Object.prototype.hasOwnProperty.call(GLYPH_NAMES, name)) return GLYPH_NAMES[name];
+    if (/^[A-Za-z]$/.test(name)) return name;
+    const uni = /^uni([0-9A-Fa-f]{4})$/.exec(name) || /^u([0-9A-Fa-f]{4,6})$/.exec(name);
+    if (uni) return String.fromCodePoint(parseInt(uni[1], 16));
+    return null;
+}
+
+function parseToUnicodeCMap(data: Buffer): { map: Map<number, string>; bytesPerCode: number } {
+    const text = data.toString('latin1');
+    const map = new Map<number, string>();
+    const hexToUnicode = (hex: string) => {
+        const bytes = Buffer.from(hex.length % 4 === 0 ? hex : hex.padStart(Math.ceil(hex.length / 4) * 4, '0'), 'hex');
+        let result = '';
+        for (let i = 0; i + 1 < bytes.length; i += 2) {
+            result += String.fromCharCode(bytes.readUInt16BE(i));
+        }
+        return result;
+    };
+
+    let bytesPerCode = 0;
+    const codespace = /begincodespacerange\s*<([0-9a-fA-F]+)>/.exec(text);
+    if (codespace) {
+        bytesPerCode = Math.ceil(codespace[1].length / 2);
+    }
+
+    const charBlocks = text.match(/beginbfchar([\s\S]*?)endbfchar/g) || [];
+    for (const block of charBlocks) {
+        const pairs = /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g;
+        let match: RegExpExecArray | null;
+        while ((match = pairs.exec(block)) !== null) {
+            map.set(parseInt(match[1], 16), hexToUnicode(match[2]));
+            if (!bytesPerCode) bytesPerCode = Math.ceil(match[1].length / 2);
+        }
+    }
+
+    const rangeBlocks = text.match(/beginbfrange([\s\S]*?)endbfrange/g) || [];
+    for (const block of rangeBlocks) {
+        const ranges = /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g;
+        let match: RegExpExecArray | null;
+        while ((match = ranges.exec(block)) !== null) {
+            const low = parseInt(match[1], 16);
+            const high = parseInt(match[2], 16);
+            if (!bytesPerCode) bytesPerCode = Math.ceil(match[1].length / 2);
+            if (match[3].startsWith('[')) {
+                const targets = match[3].match(/<([0-9a-fA-F]*)>/g) || [];
+                targets.forEach((target, i) => {
+                    if (low + i <= high) map.set(low + i, hexToUnicode(target.slice(1, -1)));
+                });
+            } else {
+                const base = hexToUnicode(match[3].slice(1, -1));
+                if (!base) continue;
+                const prefix = base.slice(0, -1);
+                const lastCode = base.charCodeAt(base.length - 1);
+                for (let code = low; code <= high && code - low < 0xffff; code++) {
+                    map.set(code, prefix + String.fromCharCode(lastCode + (code - low)));
+                }
+            }
+        }
+    }
+
+    return { map, bytesPerCode };
+}
+
+// Streams are inflated no further than the limit used for ZIP entries, so a small
+// PDF cannot expand into gigabytes
+function inflate(data: Buffer): Buffer | null {
+    try {
+        return zlib.inflateSync(data, { maxOutputLength: MAX_ENTRY_BYTES });
+    } catch (err: any) {
+        if (err.code === 'ERR_BUFFER_TOO_LARGE') throw tooLarge();
+        try {
+            // Tolerate truncated streams, which some generators produce
+            return zlib.inflateSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH, maxOutputLength: MAX_ENTRY_BYTES });
+        } catch (retryErr: any) {
+            if (retryErr.code === 'ERR_BUFFER_TOO_LARGE') throw tooLarge();
+            return null;
+        }
+    }
+}
+
+function tooLarge(): PdfExtractionError {
+    return new PdfExtractionError('A stream in the PDF is too large to read.', 'TOO_LARGE');
+}
+
+function decodeAsciiHex(data: Buffer): Buffer {
+    const text = data.toString('latin1');
+    const end = text.indexOf('>');
+    let hex = (end >= 0 ? text.slice(0, end) : text).replace(/[^0-9a-fA-F]/g, '');
+    if (hex.length % 2 === 1) hex += '0';
+    return Buffer.from(hex, 'hex');
+}
+
+function decodeAscii85(data: Buffer): Buffer {
+    let text = data.toString('latin1').replace(/\s+/g, '');
+    if (text.startsWith('<~')) text = text.slice(2);
+    const end = text.indexOf('~>');
+    if (end >= 0) text = text.slice(0, end);
+
+    const output: number[] = [];
+    let group: number[] = [];
+    for (const char of text) {
+        if (char === 'z' && group.length === 0) {
+            output.push(0, 0, 0, 0);
+            continue;
+        }
+        group.push(char.charCodeAt(0) - 33);
+        if (group.length === 5) {
+            const value = group.reduce((acc, digit) => acc * 85 + digit, 0);
+            output.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+            group = [];
+        }
+    }
+    if (group.length > 0) {
+        const padding = 5 - group.length;
+        while (group.length < 5) group.push(84);
+        const value = group.reduce((acc, digit) => acc * 85 + digit, 0);
+        const bytes = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+        output.push(...bytes.slice(0, 4 - padding));
+    }
+    return Buffer.from(output);
+}
@@ -0,0 +1,387 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import crypto from 'crypto';
+import type { RedisClient } from './jobStore';
+
+// A term and how it should be spoken. Global entries apply to everyone; user entries only to their owner
+// and win over a global entry for the same term.
+export interface LexiconEntry {
+    id: string;
+    term: string;
+    spoken: string;
+    caseSensitive: boolean;
+    wholeWord: boolean;
+    scope: LexiconScope;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type LexiconScope = 'global' | 'user';
+
+export type LexiconEntryInput = Partial<Pick<LexiconEntry, 'term' | 'spoken' | 'caseSensitive' | 'wholeWord'>>;
+
+export class LexiconError extends Error {
+    public statusCode: number;
+    public errorCode: string;
+
+    constructor(message: string, statusCode: number = 400, errorCode: string = 'INVALID_LEXICON_ENTRY') {
+        super(message);
+        this.name = 'LexiconError';
+        this.statusCode = statusCode;
+        this.errorCode = errorCode;
+    }
+}
+
+const MAX_ENTRIES_PER_SCOPE = parseInt(process.env.LEXICON_MAX_ENTRIES || '1000', 10);
+const MAX_TERM_LENGTH = 100;
+const MAX_SPOKEN_LENGTH = 200;
+const CSV_COLUMNS = ['term', 'spoken', 'caseSensitive', 'wholeWord'] as const;
+
+// apply() marks replaced text with placeholders made only of these private-use characters, so no term
+// (terms may not contain them) can match inside one: \uE000, the replacement's index in \uE010-\uE019 digits, \uE001
+const RESERVED_CHARACTER = /[\uE000-\uE01F]/;
+const PLACEHOLDER = /\uE000([\uE010-\uE019]+)\uE001/g;
+
+// Entries are kept per owner; null is the global dictionary
+export interface LexiconStore {
+    list(owner: string | null): Promise<LexiconEntry[]>;
+    put(owner: string | null, entry: LexiconEntry): Promise<void>;
+    delete(owner: string | null, id: string): Promise<boolean>;
+    replace(owner: string | null, entries: LexiconEntry[]): Promise<void>;
+}
+
+// One hash per dictionary (entry ID -> JSON), so concurrent edits to different entries don't overwrite each other
+export class RedisLexiconStore implements LexiconStore {
+    private client: RedisClient;
+
+    constructor(client: RedisClient) {
+        this.client = client;
+    }
+
+    private key(owner: string | null): string {
+        return owner === null ? 'lexicon:global' : `lexicon:user:${owner}`;
+    }
+
+    async list(owner: string | null): Promise<LexiconEntry[]> {
+        const entries = await this.client.hGetAll(this.key(owner));
+        return Object.values(entries).map(raw => JSON.parse(raw) as LexiconEntry);
+    }
+
+    async put(owner: string | null, entry: LexiconEntry): Promise<void> {
+        await this.client.hSet(this.key(owner), entry.id, JSON.stringify(entry));
+    }
+
+    async delete(owner: string | null, id: string): Promise<boolean> {
+        return (await this.client.hDel(this.key(owner), id)) > 0;
+    }
+
+    async replace(owner: string | null, entries: LexiconEntry[]): Promise<void> {
+        const multi = this.client.multi().del(this.key(owner));
+        if (entries.length > 0) {
+            multi.hSet(this.key(owner), Object.fromEntries(entries.map(entry => [entry.id, JSON.stringify(entry)])));
+        }
+        await multi.exec();
+    }
+}
+
+// Fallback when REDIS_URL is not configured: every dictionary in one JSON file, rewritten on each change.
+// "users" has no prototype, so a user named "__proto__" or "constructor" gets a dictionary of their own.
+export class FileLexiconStore implements LexiconStore {
+    private filePath: string;
+    private data: { global: LexiconEntry[]; users: Record<string, LexiconEntry[]> } | null = null;
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    private async load() {
+        if (!this.data) {
+            try {
+                const parsed = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+                this.data = { global: parsed.global || [], users: Object.assign(Object.create(null), parsed.users) };
+            } catch (error: any) {
+                if (error.code !== 'ENOENT') {
+                    console.error(`Could not read the pronunciation lexicon at ${this.filePath}:`, error.message);
+                }
+                this.data = { global: [], users: Object.create(null) };
+            }
+        }
+        return this.data;
+    }
+
+    private entries(data: { global: LexiconEntry[]; users: Record<string, LexiconEntry[]> }, owner: string | null): LexiconEntry[] {
+        if (owner === null) return data.global;
+        return data.users[owner] ||= [];
+    }
+
+    // Writes go through a temporary file and are serialized, so a crash never leaves half a file behind
+    private persist(): Promise<void> {
+        this.writing = this.writing.then(async () => {
+            await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+            const temporary = `${this.filePath}.${process.pid}.tmp`;
+            await fs.promises.writeFile(temporary, JSON.stringify(this.data, null, 2));
+            await fs.promises.rename(temporary, this.filePath);
+        });
+        return this.writing;
+    }
+
+    async list(owner: string | null): Promise<LexiconEntry[]> {
+        return [...this.entries(await this.load(), owner)];
+    }
+
+    async put(owner: string | null, entry: LexiconEntry): Promise<void> {
+        const entries = this.entries(await this.load(), owner);
+        const index = entries.findIndex(existing => existing.id === entry.id);
+        if (index >= 0) {
+            entries[index] = entry;
+        } else {
+            entries.push(entry);
+        }
+        await this.persist();
+    }
+
+    async delete(owner: string | null, id: string): Promise<boolean> {
+        const entries = this.entries(await this.load(), owner);
+        const index = entries.findIndex(existing => existing.id === id);
+        if (index < 0) return false;
+        entries.splice(index, 1);
+        await this.persist();
+        return true;
+    }
+
+    async replace(owner: string | null, entries: LexiconEntry[]): Promise<void> {
+        const data = await this.load();
+        if (owner === null) {
+            data.global = [...entries];
+        } else {
+            data.users[owner] = [...entries];
+        }
+        await this.persist();
+    }
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function parseBoolean(value: unknown, field: string, fallback: boolean): boolean {
+    if (value === undefined || value === null || value === '') return fallback;
+    if (value === true || value === 'true' || value === '1' || value === 1 || value === 'yes') return true;
+    if (value === false || value === 'false' || value === '0' || value === 0 || value === 'no') return false;
+    throw new LexiconError(`${field} must be true or false.`);
+}
+
+// Two entries clash when they would match the same text
+function sameTerm(a: Pick<LexiconEntry, 'term' | 'caseSensitive'>, b: Pick<LexiconEntry, 'term' | 'caseSensitive'>): boolean {
+    return a.caseSensitive && b.caseSensitive ? a.term === b.term : a.term.toLowerCase() === b.term.toLowerCase();
+}
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes and line breaks inside quotes
+function parseCsvRows(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (quoted) {
+        throw new LexiconError('The CSV data has an unterminated quoted field.', 400, 'INVALID_CSV');
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+function csvField(value: string): string {
+    return /[",\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export class PronunciationLexicon {
+    private store: LexiconStore;
+
+    constructor(store: LexiconStore) {
+        this.store = store;
+    }
+
+    // owner null is the global dictionary
+    async list(owner: string | null): Promise<LexiconEntry[]> {
+        const entries = await this.store.list(owner);
+        return entries.sort((a, b) => a.term.localeCompare(b.term));
+    }
+
+    async get(owner: string | null, id: string): Promise<LexiconEntry | null> {
+        return (await this.store.list(owner)).find(entry => entry.id === id) || null;
+    }
+
+    async add(owner: string | null, input: LexiconEntryInput): Promise<LexiconEntry> {
+        const existing = await this.store.list(owner);
+        if (existing.length >= MAX_ENTRIES_PER_SCOPE) {
+            throw new LexiconError(`A dictionary can hold at most ${MAX_ENTRIES_PER_SCOPE} entries.`, 400, 'LEXICON_FULL');
+        }
+        const now = new Date().toISOString();
+        const entry: LexiconEntry = {
+            id: crypto.randomUUID(),
+            ...PronunciationLexicon.validate(input),
+            scope: owner === null ? 'global' : 'user',
+            createdAt: now,
+            updatedAt: now,
+        };
+        const duplicate = existing.find(other => sameTerm(other, entry));
+        if (duplicate) {
+            throw new LexiconError(`"${entry.term}" is already in the dictionary.`, 409, 'DUPLICATE_TERM');
+        }
+        await this.store.put(owner, entry);
+        return entry;
+    }
+
+    // Fields left out of the input keep their current values
+    async update(owner: string | null, id: string, input: LexiconEntryInput): Promise<LexiconEntry> {
+        const existing = await this.store.list(owner);
+        const current = existing.find(entry => entry.id === id);
+        if (!current) {
+            throw new LexiconError('Dictionary entry not found.', 404, 'ENTRY_NOT_FOUND');
+        }
+        const entry: LexiconEntry = {
+            ...current,
+            ...PronunciationLexicon.validate({ ...current, ...input }),
+            updatedAt: new Date().toISOString(),
+        };
+        if (existing.some(other => other.id !== id && sameTerm(other, entry))) {
+            throw new LexiconError(`"${entry.term}" is already in the dictionary.`, 409, 'DUPLICATE_TERM');
+        }
+        await this.store.put(owner, entry);
+        return entry;
+    }
+
+    async remove(owner: string | null, id: string): Promise<void> {
+        if (!(await this.store.delete(owner, id))) {
+            throw new LexiconError('Dictionary entry not found.', 404, 'ENTRY_NOT_FOUND');
+        }
+    }
+
+    // "merge" updates entries whose term is already present and adds the rest; "replace" swaps the whole dictionary.
+    // Every row is validated before anything is written.
+    async import(owner: string | null, inputs: LexiconEntryInput[], mode: 'merge' | 'replace' = 'merge') {
+        const validated = inputs.map((input, index) => {
+            try {
+                return PronunciationLexicon.validate(input);
+            } catch (error) {
+                if (error instanceof LexiconError) {
+                    throw new LexiconError(`Entry ${index + 1}: ${error.message}`, error.statusCode, error.errorCode);
+                }
+                throw error;
+            }
+        });
+        const now = new Date().toISOString();
+        const entries = mode === 'replace' ? [] : await this.store.list(owner);
+        let added = 0;
+        let updated = 0;
+        for (const fields of validated) {
+            const current = entries.find(entry => sameTerm(entry, fields));
+            if (current) {
+                Object.assign(current, fields, { updatedAt: now });
+                updated++;
+            } else {
+                entries.push({ id: crypto.randomUUID(), ...fields, scope: owner === null ? 'global' : 'user', createdAt: now, updatedAt: now });
+                added++;
+            }
+        }
+        if (entries.length > MAX_ENTRIES_PER_SCOPE) {
+            throw new LexiconError(`A dictionary can hold at most ${MAX_ENTRIES_PER_SCOPE} entries.`, 400, 'LEXICON_FULL');
+        }
+        await this.store.replace(owner, entries);
+        return { added, updated, total: entries.length };
+    }
+
+    // The entries used for one user's jobs: their own, then global entries for terms they haven't overridden
+    async entriesFor(owner: string | null): Promise<LexiconEntry[]> {
+        const global = await this.store.list(null);
+        if (owner === null) return global;
+        const personal = await this.store.list(owner);
+        return [...personal, ...global.filter(entry => !personal.some(own => sameTerm(own, entry)))];
+    }
+
+    static validate(input: LexiconEntryInput): Pick<LexiconEntry, 'term' | 'spoken' | 'caseSensitive' | 'wholeWord'> {
+        const term = typeof input.term === 'string' ? input.term.trim() : '';
+        const spoken = typeof input.spoken === 'string' ? input.spoken.trim() : '';
+        if (!term) {
+            throw new LexiconError('term is required.');
+        }
+        if (!spoken) {
+            throw new LexiconError('spoken is required: how the term should be pronounced.');
+        }
+        if (term.length > MAX_TERM_LENGTH || spoken.length > MAX_SPOKEN_LENGTH) {
+            throw new LexiconError(`term can be at most ${MAX_TERM_LENGTH} characters and spoken at most ${MAX_SPOKEN_LENGTH}.`);
+        }
+        if (RESERVED_CHARACTER.test(term)) {
+            throw new LexiconError('term contains reserved characters (U+E000 to U+E01F).');
+        }
+        return {
+            term,
+            spoken,
+            caseSensitive: parseBoolean(input.caseSensitive, 'caseSensitive', false),
+            wholeWord: parseBoolean(input.wholeWord, 'wholeWord', true),
+        };
+    }
+
+    // Replace every listed term in the text. Longer terms go first, and replaced text is never matched again,
+    // so "New York City" wins over "New York" and a spoken form containing another term is left alone.
+    static apply(text: string, entries: LexiconEntry[]): string {
+        if (entries.length === 0) return text;
+        const replacements: string[] = [];
+        const digits = (index: number) => [...String(index)].map(digit => String.fromCharCode(0xE010 + Number(digit))).join('');
+        let result = text.replace(new RegExp(RESERVED_CHARACTER, 'g'), '');
+        for (const entry of [...entries].sort((a, b) => b.term.length - a.term.length)) {
+            if (RESERVED_CHARACTER.test(entry.term)) continue; // stored before such terms were refused
+            const term = escapeRegExp(entry.term);
+            const pattern = entry.wholeWord ? `(?<![\\p{L}\\p{N}_])${term}(?![\\p{L}\\p{N}_])` : term;
+            result = result.replace(new RegExp(pattern, entry.caseSensitive ? 'gu' : 'giu'), () => {
+                replacements.push(entry.spoken);
+                return `\uE000${digits(replacements.length - 1)}\uE001`;
+            });
+        }
+        return result.replace(PLACEHOLDER, (match, index: string) =>
+            replacements[Number([...index].map(char => char.charCodeAt(0) - 0xE010).join(''))]);
+    }
+
+    static parseCsv(text: string): LexiconEntryInput[] {
+        const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+        const header = rows[0]?.map(cell => cell.trim());
+        const hasHeader = !!header && header.includes('term') && header.includes('spoken');
+        const columns = hasHeader ? header : [...CSV_COLUMNS];
+        return rows.slice(hasHeader ? 1 : 0).map(cells =>
+            Object.fromEntries(columns.map((column, index) => [column, cells[index]])) as LexiconEntryInput);
+    }
+
+    static toCsv(entries: LexiconEntry[]): string {
+        const lines = entries.map(entry => [entry.term, entry.spoken, String(entry.caseSensitive), String(entry.wholeWord)].map(csvField).join(','));
+        return [CSV_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+    }
+}
@@ -0,0 +1,134 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { RedisClient } from './jobStore';
+
+// A bucket holds up to "capacity" requests and refills continuously, a full bucket every "windowSeconds"
+export interface RateLimitPolicy {
+    capacity: number;
+    windowSeconds: number;
+}
+
+export interface BucketState {
+    allowed: boolean;
+    tokens: number;     // left in the bucket after this request
+}
+
+export interface TokenBucketStore {
+    take(key: string, policy: RateLimitPolicy, cost: number): Promise<BucketState>;
+}
+
+// Refill and take in one script, so concurrent requests on several instances can't both spend the last token.
+// Redis's clock is used so instances with skewed clocks agree.
+const TAKE_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local perMs = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'at')
+local tokens = tonumber(state[1]) or capacity
+local at = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - at) * perMs)
+local allowed = 0
+if tokens >= cost then
+    tokens = tokens - cost
+    allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'at', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil((capacity - tokens) / perMs) + 1000)
+return { allowed, tostring(tokens) }
+`;
+
+export class RedisTokenBucketStore implements TokenBucketStore {
+    private client: RedisClient;
+
+    constructor(client: RedisClient) {
+        this.client = client;
+    }
+
+    async take(key: string, policy: RateLimitPolicy, cost: number): Promise<BucketState> {
+        const perMs = policy.capacity / (policy.windowSeconds * 1000);
+        const [allowed, tokens] = await this.client.eval(TAKE_SCRIPT, {
+            keys: [`ratelimit:${key}`],
+            arguments: [String(policy.capacity), String(perMs), String(cost)],
+        }) as [number, string];
+        return { allowed: allowed === 1, tokens: Number(tokens) };
+    }
+}
+
+// In-process fallback used when REDIS_URL is not configured; each instance then limits on its own
+export class MemoryTokenBucketStore implements TokenBucketStore {
+    private buckets = new Map<string, { tokens: number; at: number; capacity: number; perMs: number }>();
+    private static PRUNE_ABOVE = 10000;
+
+    async take(key: string, policy: RateLimitPolicy, cost: number): Promise<BucketState> {
+        const now = Date.now();
+        const perMs = policy.capacity / (policy.windowSeconds * 1000);
+        const bucket = this.buckets.get(key) || { tokens: policy.capacity, at: now, capacity: policy.capacity, perMs };
+        bucket.tokens = Math.min(policy.capacity, bucket.tokens + (now - bucket.at) * perMs);
+        bucket.at = now;
+        const allowed = bucket.tokens >= cost;
+        if (allowed) bucket.tokens -= cost;
+        this.buckets.set(key, bucket);
+        if (this.buckets.size > MemoryTokenBucketStore.PRUNE_ABOVE) this.prune(now);
+        return { allowed, tokens: bucket.tokens };
+    }
+
+    // Buckets that have refilled completely carry no information and can be forgotten
+    private prune(now: number) {
+        for (const [key, bucket] of this.buckets) {
+            if (bucket.tokens + (now - bucket.at) * bucket.perMs >= bucket.capacity) {
+                this.buckets.delete(key);
+            }
+        }
+    }
+}
+
+// "10/60" is 10 requests per 60 seconds; "off" disables the limit
+export function parseRateLimitPolicy(value: string | undefined, fallback: RateLimitPolicy): RateLimitPolicy | null {
+    if (value === undefined || value === '') return fallback;
+    if (value === 'off') return null;
+    const match = /^(\d+)\s*\/\s*(\d+)$/.exec(value);
+    if (!match || Number(match[1]) < 1 || Number(match[2]) < 1) {
+        console.warn(`Ignoring invalid rate limit "${value}"; expected "<requests>/<seconds>" or "off"`);
+        return fallback;
+    }
+    return { capacity: Number(match[1]), windowSeconds: Number(match[2]) };
+}
+
+export class RateLimiter {
+    private store: TokenBucketStore;
+
+    constructor(store: TokenBucketStore) {
+        this.store = store;
+    }
+
+    // Middleware limiting requests per key under the named policy (each policy has its own buckets).
+    // Responses carry RateLimit-Limit/-Remaining/-Reset and RateLimit-Policy; rejected ones get 429 and Retry-After.
+    // If the store is unreachable requests are let through rather than failing the whole app.
+    limit(name: string, policy: RateLimitPolicy | null, keyFor: (req: Request) => string) {
+        return async (req: Request, res: Response, next: NextFunction) => {
+            if (!policy) return next();
+            let state: BucketState;
+            try {
+                state = await this.store.take(`${name}:${keyFor(req)}`, policy, 1);
+            } catch (error) {
+                console.error(`Rate limiter unavailable for ${name}:`, error);
+                return next();
+            }
+            const perSecond = policy.capacity / policy.windowSeconds;
+            res.set('RateLimit-Policy', `${policy.capacity};w=${policy.windowSeconds}`);
+            res.set('RateLimit-Limit', String(policy.capacity));
+            res.set('RateLimit-Remaining', String(Math.floor(state.tokens)));
+            res.set('RateLimit-Reset', String(Math.ceil((policy.capacity - state.tokens) / perSecond)));
+            if (state.allowed) return next();
+
+            const retryAfter = Math.max(1, Math.ceil((1 - state.tokens) / perSecond));
+            res.set('Retry-After', String(retryAfter));
+            res.status(429).json({
+                error: `Too many requests. Try again in ${retryAfter} second${retryAfter === 1 ? '' : 's'}.`,
+                code: 'RATE_LIMITED',
+                retryAfter
+            });
+        };
+    }
+}
@@ -1,54 +1,176 @@
-import { OpenAIClient } from './openaiClient';
-import { DocumentProcessor } from './documentProcessor';
+import { TtsProvider, VoiceOptions } from './ttsProvider';
+import { DocumentProcessor, DocumentSegment } from './documentProcessor';
 import * as fs from 'fs';
 import * as path from 'path';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-const execAsync = promisify(exec);
+import { AudioMerger } from './audioMerger';
+import { AudioFormat, applyGain, silence } from './audioUtils';
+import { LexiconEntry, PronunciationLexicon } from './pronunciationLexicon';
+
+// Progress notifications emitted while a document is converted, one per chunk transition
+export type ChunkProgressEvent =
+    | { type: 'start'; index: number; total: number }
+    | { type: 'retry'; index: number; total: number; attempt: number; reason: string }
+    | { type: 'complete'; index: number; total: number; filePath: string }
+    | { type: 'skip'; index: number; total: number; error: string };
+
+export interface SpeechGenerationOptions {
+    onProgress?: (event: ChunkProgressEvent) => void;
+    concurrency?: number;   // chunks synthesized in parallel (default: TTS_CONCURRENCY or 3)
+    signal?: AbortSignal;   // stops scheduling chunks and aborts in-flight requests
+    format?: AudioFormat;   // output format of every chunk file (default: mp3)
+    voiceOptions?: VoiceOptions;
+    normalize?: boolean;    // read numbers, dates, units and abbreviations out as words first (English text)
+    punctuate?: boolean;    // with normalize, end headings, list items and paragraphs with a full stop
+    markup?: boolean;       // interpret pause, emphasis and voice markup in documents (see DocumentProcessor.parseMarkup)
+    lexicon?: LexiconEntry[];   // pronunciation dictionary applied to the text before normalization
+}
+
+// Thrown when generation stops because the caller aborted it
+export class SpeechGenerationCancelledError extends Error {
+    constructor() {
+        super('Speech generation was cancelled.');
+        this.name = 'SpeechGenerationCancelledError';
+    }
+}
+
+const MAX_RATE_LIMIT_RETRIES = 5;
+const RATE_LIMIT_BASE_DELAY = 2000; // 2 seconds, doubled on each consecutive rate-limit hit
+const RATE_LIMIT_MAX_DELAY = 60 * 1000;
+
+// Resolves after ms milliseconds, or early when the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        if (ms <= 0 || signal?.aborted) return resolve();
+        const timer = setTimeout(done, ms);
+        signal?.addEventListener('abort', done, { once: true });
+        function done() {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', done);
+            resolve();
+        }
+    });
+}
 
 export class SpeechGenerator {
-    private client: OpenAIClient;
+    private client: TtsProvider;
+
+    constructor(provider: TtsProvider) {
+        this.client = provider;
+    }
 
-    constructor(apiKey: string) {
-        this.client = new OpenAIClient(apiKey);
+    // Dictionary pronunciations first, so a listed term is never rewritten by the normalizer
+    private prepareText(text: string, options: SpeechGenerationOptions): string {
+        const pronounced = PronunciationLexicon.apply(text, options.lexicon || []);
+        return options.normalize ? DocumentProcessor.preprocessText(pronounced, { addPunctuation: !!options.punctuate }) : pronounced;
     }
 
-    async generateSpeechFromDocument(document: string, outputDir: string, voice: string = "alloy", instructions: string = "Speak in a neutral tone."): Promise<string[]> {
+    static defaultConcurrency(): number {
+        const configured = parseInt(process.env.TTS_CONCURRENCY || '3', 10);
+        return Number.isInteger(configured) && configured > 0 ? configured : 3;
+    }
+
+    async generateSpeechFromDocument(
+        document: string,
+        outputDir: string,
+        voice: string = "alloy",
+        instructions: string = "Speak in a neutral tone.",
+        options: SpeechGenerationOptions = {}
+    ): Promise<string[]> {
+        const segments: DocumentSegment[] = options.markup ? DocumentProcessor.parseMarkup(document) : [{ type: 'speech', text: document }];
+        return this.generateSpeechFromSegments(segments, outputDir, voice, instructions, options);
+    }
+
+    // Segments carry their own voice and extra instructions; voice and instructions here are the defaults
+    async generateSpeechFromSegments(
+        segments: DocumentSegment[],
+        outputDir: string,
+        voice: string = "alloy",
+        instructions: string = "Speak in a neutral tone.",
+        options: SpeechGenerationOptions = {}
+    ): Promise<string[]> {
+        const notify = options.onProgress || (() => undefined);
+        const signal = options.signal;
+        const format = options.format || 'mp3';
+        const voiceOptions = options.voiceOptions || {};
         const chunkSize = 1000; // Limit chunk size to 1000 characters
-        const chunks = DocumentProcessor.splitDocument(document, chunkSize);
-        const filePaths: string[] = [];
-        for (let i = 0; i < chunks.length; i++) {
-            try {
-                console.log(`Generating speech for chunk ${i + 1}/${chunks.length}...`);
-                console.log(`Chunk content: "${chunks[i]}"`);
-                const audioBuffer = await this.client.generateSpeech(chunks[i], voice, instructions);
-                const outputPath = path.join(outputDir, `chunk_${i + 1}.mp3`);
-                fs.writeFileSync(outputPath, audioBuffer);
-                filePaths.push(outputPath.replace(/\\/g, '/')); // Ensure consistent URL paths
-                console.log(`Successfully generated speech for chunk ${i + 1}`);
-            } catch (error) {
-                console.error(`Skipping chunk ${i + 1} due to error:`, error.message || error);
-                continue; // Skip to the next chunk instead of throwing
+        // Chunks end on paragraph, sentence or clause boundaries so each file starts and ends on a natural pause.
+        // Markup pauses become silent chunks, except in formats silence can't be written in.
+        const spoken = segments.map(segment => segment.type === 'speech' ? { ...segment, text: this.prepareText(segment.text, options) } : segment);
+        const chunks = DocumentProcessor.chunkSegments(spoken, chunkSize)
+            .filter(chunk => chunk.type === 'speech' || silence(format, 0) !== null);
+        const results: Array<string | null> = new Array(chunks.length).fill(null);
+        const concurrency = Math.min(options.concurrency || SpeechGenerator.defaultConcurrency(), chunks.length);
+
+        // Shared by all workers: a 429 from any request pauses the whole pool
+        let pausedUntil = 0;
+        let nextIndex = 0;
+
+        const generateChunk = async (i: number): Promise<string | null> => {
+            const chunk = chunks[i];
+            const outputPath = path.join(outputDir, `chunk_${i + 1}.${format}`);
+            notify({ type: 'start', index: i, total: chunks.length });
+            if (chunk.type === 'pause') {
+                await fs.promises.writeFile(outputPath, silence(format, chunk.durationMs)!);
+                notify({ type: 'complete', index: i, total: chunks.length, filePath: outputPath });
+                return outputPath.replace(/\\/g, '/');
             }
+            const chunkVoice = chunk.voice || voice;
+            const chunkInstructions = chunk.instructions ? `${instructions} ${chunk.instructions}` : instructions;
+            console.log(`Generating speech for chunk ${i + 1}/${chunks.length} (${chunk.text.length} characters, voice: ${chunkVoice})...`);
+            console.log(`Chunk content: "${chunk.text}"`);
+
+            for (let rateLimitHits = 0; ; rateLimitHits++) {
+                await sleep(pausedUntil - Date.now(), signal);
+                if (signal?.aborted) return null;
+                try {
+                    const speech = await this.client.generateSpeech(chunk.text, chunkVoice, chunkInstructions, voiceOptions, format, {
+                        signal,
+                        onRetry: (attempt, reason) => notify({ type: 'retry', index: i, total: chunks.length, attempt, reason }),
+                    });
+                    const audioBuffer = applyGain(speech, format, voiceOptions.volume ?? 1);
+                    await fs.promises.writeFile(outputPath, audioBuffer);
+                    console.log(`Successfully generated speech for chunk ${i + 1}`);
+                    notify({ type: 'complete', index: i, total: chunks.length, filePath: outputPath });
+                    return outputPath.replace(/\\/g, '/'); // Ensure consistent URL paths
+                } catch (error: any) {
+                    if (signal?.aborted) return null;
+                    if (error.statusCode === 429 && rateLimitHits < MAX_RATE_LIMIT_RETRIES) {
+                        const delay = error.retryAfterMs ?? Math.min(RATE_LIMIT_BASE_DELAY * 2 ** rateLimitHits, RATE_LIMIT_MAX_DELAY);
+                        pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+                        console.warn(`Rate limited on chunk ${i + 1}; pausing all requests for ${delay}ms`);
+                        notify({ type: 'retry', index: i, total: chunks.length, attempt: rateLimitHits + 1, reason: 'rate limited' });
+                        continue;
+                    }
+                    console.error(`Skipping chunk ${i + 1} due to error:`, error.message || error);
+                    notify({ type: 'skip', index: i, total: chunks.length, error: error.message || String(error) });
+                    return null; // Skip to the next chunk instead of throwing
+                }
+            }
+        };
+
+        const worker = async () => {
+            while (nextIndex < chunks.length && !signal?.aborted) {
+                const i = nextIndex++;
+                results[i] = await generateChunk(i);
+            }
+        };
+        await Promise.all(Array.from({ length: concurrency }, worker));
+
+        if (signal?.aborted) {
+            console.log(`Speech generation cancelled after ${results.filter(Boolean).length}/${chunks.length} chunks.`);
+            throw new SpeechGenerationCancelledError();
         }
+        // Results are indexed by chunk, so the returned files stay in document order
+        const filePaths = results.filter((file): file is string => file !== null);
         console.log(`Speech generation completed. Successfully processed ${filePaths.length}/${chunks.length} chunks.`);
         return filePaths;
     }
 
+    // Join the chunk files into one file; the format is taken from the output file's extension
     async combineAudioFiles(filePaths: string[], outputPath: string): Promise<string> {
-        // Requires ffmpeg to be installed on the system
-        if (filePaths.length === 0) return null;
-        if (filePaths.length === 1) return filePaths[0];
-        
-        const fileList = filePaths.map(f => `"${f}"`).join('|');
-        const command = `ffmpeg -i "concat:${fileList}" -acodec copy "${outputPath}"`;
-        
-        try {
-            await execAsync(command);
-            return outputPath;
-        } catch (error) {
-            console.error('Failed to combine audio files:', error);
-            throw new Error('Failed to combine audio files');
-        }
+        const buffers = await Promise.all(filePaths.map(file => fs.promises.readFile(file)));
+        const format = path.extname(outputPath).slice(1).toLowerCase();
+        await fs.promises.writeFile(outputPath, AudioMerger.merge(buffers, format));
+        return outputPath;
     }
 }
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Analytics, AnalyticsStore, ConversionRecord } from '../analytics';
+
+class ListAnalyticsStore implements AnalyticsStore {
+    constructor(private records: ConversionRecord[]) {}
+
+    async append(record: ConversionRecord): Promise<void> {
+        this.records.push(record);
+    }
+
+    async query(): Promise<ConversionRecord[]> {
+        return this.records;
+    }
+}
+
+function record(fields: Partial<ConversionRecord>): ConversionRecord {
+    return {
+        jobId: 'job', timestamp: '2024-03-01T12:00:00.000Z', user: 'alice', state: 'completed', voice: 'alloy', format: 'mp3',
+        characters: 10, spokenCharacters: 10, chunks: 1, skippedChunks: 0, processingMs: 100, queuedMs: 0, ...fields,
+    };
+}
+
+test('breakdown keys such as __proto__ are kept as plain keys', async () => {
+    const analytics = new Analytics(new ListAnalyticsStore([
+        record({ user: '__proto__', voice: '__proto__', format: 'constructor', state: 'failed', errorCode: '__proto__' }),
+        record({ user: 'alice' }),
+    ]));
+    const stats = await analytics.getStats({ from: new Date(0), to: new Date() });
+
+    assert.equal(Object.getPrototypeOf(stats.byUser), Object.prototype);
+    assert.deepEqual(Object.keys(stats.byUser).sort(), ['__proto__', 'alice']);
+    assert.equal(Object.getOwnPropertyDescriptor(stats.byVoice, '__proto__')?.value.failed, 1);
+    assert.equal(Object.getOwnPropertyDescriptor(stats.byFormat, 'constructor')?.value.conversions, 1);
+    assert.equal(Object.getOwnPropertyDescriptor(stats.failuresByCode, '__proto__')?.value, 1);
+    assert.equal(({} as Record<string, unknown>).failed, undefined);
+    assert.equal(stats.totals.conversions, 2);
+});
@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiToken, ApiTokenError, ApiTokenStore, ApiTokens } from '../apiTokens';
+
+class MapApiTokenStore implements ApiTokenStore {
+    tokens = new Map<string, ApiToken>();
+
+    async list(userId: string): Promise<ApiToken[]> {
+        return [...this.tokens.values()].filter(token => token.userId === userId);
+    }
+
+    async get(id: string): Promise<ApiToken | null> {
+        return this.tokens.get(id) || null;
+    }
+
+    async save(token: ApiToken): Promise<void> {
+        this.tokens.set(token.id, { ...token });
+    }
+
+    async delete(id: string): Promise<boolean> {
+        return this.tokens.delete(id);
+    }
+}
+
+async function errorCode(run: () => Promise<unknown>): Promise<string | undefined> {
+    try {
+        await run();
+    } catch (error) {
+        if (error instanceof ApiTokenError) return error.errorCode;
+        throw error;
+    }
+    return undefined;
+}
+
+test('a created token verifies and records when it was used', async () => {
+    const store = new MapApiTokenStore();
+    const tokens = new ApiTokens(store);
+    const { token, record } = await tokens.create('alice', { name: 'Script' }, false);
+    assert.match(token, /^rsp_[0-9a-f]{16}_[A-Za-z0-9_-]{43}$/);
+    assert.deepEqual(record.scopes, ['generate']);
+    assert.equal(token.includes(record.tokenHash), false);
+
+    const verified = await tokens.verify(token);
+    assert.equal(verified?.id, record.id);
+    assert.ok((await store.get(record.id))?.lastUsedAt);
+});
+
+test('wrong secrets, unknown IDs and malformed tokens are refused', async () => {
+    const tokens = new ApiTokens(new MapApiTokenStore());
+    const { token, record } = await tokens.create('alice', { name: 'Script' }, false);
+    const secret = token.slice(-43);
+    const otherSecret = secret.replace(/^./, c => (c === 'A' ? 'B' : 'A'));
+    assert.equal(await tokens.verify(`rsp_${record.id}_${otherSecret}`), null);
+    assert.equal(await tokens.verify(`rsp_0000000000000000_${secret}`), null);
+    assert.equal(await tokens.verify(token.slice(0, -1)), null);
+    assert.equal(await tokens.verify(`Bearer ${token}`), null);
+    assert.equal(await tokens.verify(''), null);
+});
+
+test('expired tokens are refused', async () => {
+    const store = new MapApiTokenStore();
+    const tokens = new ApiTokens(store);
+    const { token, record } = await tokens.create('alice', { name: 'Short-lived', expiresInDays: 1 }, false);
+    assert.ok(await tokens.verify(token));
+    await store.save({ ...record, expiresAt: new Date(Date.now() - 1000).toISOString() });
+    assert.equal(await tokens.verify(token), null);
+});
+
+test('scopes are validated and only administrators may grant admin', async () => {
+    const tokens = new ApiTokens(new MapApiTokenStore());
+    const { record } = await tokens.create('alice', { name: 'Reader', scopes: ['history', 'history', 'generate'] }, false);
+    assert.deepEqual(record.scopes, ['history', 'generate']);
+    assert.equal(await errorCode(() => tokens.create('alice', { name: 'Admin', scopes: ['admin'] }, false)), 'SCOPE_NOT_ALLOWED');
+    assert.deepEqual((await tokens.create('root', { name: 'Admin', scopes: ['admin'] }, true)).record.scopes, ['admin']);
+    assert.equal(await errorCode(() => tokens.create('alice', { name: 'Empty', scopes: [] }, false)), 'INVALID_SCOPES');
+    assert.equal(await errorCode(() => tokens.create('alice', { name: 'Unknown', scopes: ['everything'] }, false)), 'INVALID_SCOPES');
+});
+
+test('tokens can only be revoked by their owner', async () => {
+    const tokens = new ApiTokens(new MapApiTokenStore());
+    const { token, record } = await tokens.create('alice', { name: 'Script' }, false);
+    assert.equal(await errorCode(() => tokens.revoke('mallory', record.id)), 'TOKEN_NOT_FOUND');
+    await tokens.revoke('alice', record.id);
+    assert.equal(await tokens.verify(token), null);
+});
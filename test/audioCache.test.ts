@@ -0,0 +1,116 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CachedTtsProvider, DiskAudioCache, audioCacheKey } from '../audioCache';
+import type { TtsProvider } from '../ttsProvider';
+
+const KEYS = ['a', 'b', 'c'].map(letter => letter.repeat(64));
+
+async function withDirectory(run: (dir: string) => Promise<void>) {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'audio-cache-'));
+    try {
+        await run(dir);
+    } finally {
+        await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+}
+
+// Runs with Date.now() returning the given clock, so entry ages don't depend on how fast the test runs
+async function withClock(clock: { now: number }, run: () => Promise<void>) {
+    const originalNow = Date.now;
+    Date.now = () => clock.now;
+    try {
+        await run();
+    } finally {
+        Date.now = originalNow;
+    }
+}
+
+test('keys ignore whitespace differences but not the voice', () => {
+    const input = { provider: 'openai', model: 'tts', text: 'Hello  there\n', voice: 'alloy', instructions: ' Calm ', format: 'mp3' as const };
+    assert.equal(audioCacheKey(input), audioCacheKey({ ...input, text: 'Hello there', instructions: 'Calm' }));
+    assert.notEqual(audioCacheKey(input), audioCacheKey({ ...input, voice: 'nova' }));
+    assert.notEqual(audioCacheKey(input), audioCacheKey({ ...input, speed: 1.5 }));
+});
+
+test('entries expire after the TTL', () => withDirectory(async dir => {
+    const clock = { now: 1_000_000 };
+    await withClock(clock, async () => {
+        const cache = new DiskAudioCache(dir, { maxBytes: 1024, ttlSeconds: 60 });
+        await cache.set(KEYS[0], Buffer.from('audio'));
+        clock.now += 60 * 1000;
+        assert.deepEqual(await cache.get(KEYS[0]), Buffer.from('audio'));
+
+        clock.now += 1;
+        assert.equal(await cache.get(KEYS[0]), null);
+        const stats = await cache.stats();
+        assert.equal(stats.entries, 0);
+        assert.equal(stats.bytes, 0);
+        assert.equal(stats.hits, 1);
+        assert.equal(stats.misses, 1);
+        assert.deepEqual(await fs.promises.readdir(dir), []);
+    });
+}));
+
+test('the least recently used entries are evicted past the size limit', () => withDirectory(async dir => {
+    const clock = { now: 1_000_000 };
+    await withClock(clock, async () => {
+        const cache = new DiskAudioCache(dir, { maxBytes: 10, ttlSeconds: 3600 });
+        await cache.set(KEYS[0], Buffer.alloc(4));
+        clock.now += 1000;
+        await cache.set(KEYS[1], Buffer.alloc(4));
+        clock.now += 1000;
+        await cache.get(KEYS[0]);
+        clock.now += 1000;
+        await cache.set(KEYS[2], Buffer.alloc(4));
+
+        assert.equal(await cache.get(KEYS[1]), null);
+        assert.notEqual(await cache.get(KEYS[0]), null);
+        assert.notEqual(await cache.get(KEYS[2]), null);
+        const stats = await cache.stats();
+        assert.equal(stats.bytes, 8);
+        assert.equal(stats.evictions, 1);
+    });
+}));
+
+test('audio larger than the whole cache is not stored', () => withDirectory(async dir => {
+    const cache = new DiskAudioCache(dir, { maxBytes: 4, ttlSeconds: 60 });
+    await cache.set(KEYS[0], Buffer.alloc(5));
+    assert.equal((await cache.stats()).entries, 0);
+}));
+
+test('the index is rebuilt from the directory after a restart', () => withDirectory(async dir => {
+    await new DiskAudioCache(dir, { maxBytes: 1024, ttlSeconds: 60 }).set(KEYS[0], Buffer.from('audio'));
+    await fs.promises.writeFile(path.join(dir, `${KEYS[1]}.123.tmp`), 'interrupted');
+
+    const reopened = new DiskAudioCache(dir, { maxBytes: 1024, ttlSeconds: 60 });
+    const stats = await reopened.stats();
+    assert.equal(stats.entries, 1);
+    assert.equal(stats.bytes, 5);
+    assert.deepEqual(await reopened.get(KEYS[0]), Buffer.from('audio'));
+}));
+
+test('identical requests are answered from the cache', () => withDirectory(async dir => {
+    let calls = 0;
+    const provider = {
+        name: 'fake', model: 'fake-tts', formats: ['mp3'],
+        generateSpeech: async (text: string) => {
+            calls++;
+            return Buffer.from(text);
+        },
+    } as unknown as TtsProvider;
+    const cached = new CachedTtsProvider(provider, new DiskAudioCache(dir, { maxBytes: 1024, ttlSeconds: 60 }));
+    const originalLog = console.log;
+    console.log = () => undefined;
+    try {
+        assert.deepEqual(await cached.generateSpeech('Hello', 'alloy'), Buffer.from('Hello'));
+        assert.deepEqual(await cached.generateSpeech('Hello ', 'alloy'), Buffer.from('Hello'));
+        assert.equal(calls, 1);
+        await cached.generateSpeech('Hello', 'nova');
+        assert.equal(calls, 2);
+    } finally {
+        console.log = originalLog;
+    }
+}));
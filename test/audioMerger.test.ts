@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AudioMergeError, AudioMerger } from '../audioMerger';
+import { encodeWav, parseWav, silentMp3, silentPcm } from '../audioUtils';
+
+function mergeErrorCode(run: () => unknown): string | undefined {
+    try {
+        run();
+    } catch (error) {
+        if (error instanceof AudioMergeError) return error.errorCode;
+        throw error;
+    }
+    return undefined;
+}
+
+// An ID3v2 tag with "size" bytes of content
+function id3v2(size: number): Buffer {
+    const header = Buffer.from([0x49, 0x44, 0x33, 4, 0, 0, (size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f]);
+    return Buffer.concat([header, Buffer.alloc(size, 0x20)]);
+}
+
+// A frame like the first frame of a VBR file, carrying an "Info" header
+function infoFrame(): Buffer {
+    const frame = silentMp3(24);
+    frame.write('Info', 8, 'latin1');
+    return frame;
+}
+
+test('MP3 parts are joined frame by frame without their tags and VBR headers', () => {
+    const first = Buffer.concat([id3v2(30), infoFrame(), silentMp3(240)]);
+    const id3v1 = Buffer.concat([Buffer.from('TAG'), Buffer.alloc(125)]);
+    const second = Buffer.concat([silentMp3(480), id3v1]);
+
+    const merged = AudioMerger.merge([first, second], 'mp3');
+    assert.deepEqual(merged, Buffer.concat([silentMp3(240), silentMp3(480)]));
+    assert.equal(AudioMerger.durationMs(merged, 'mp3'), 720);
+    assert.equal(mergeErrorCode(() => AudioMerger.merge([Buffer.from('not audio')], 'mp3')), 'MERGE_FAILED');
+});
+
+test('WAV parts share one header covering all samples', () => {
+    const samples = (value: number, count: number) => Buffer.alloc(count * 2, value);
+    const merged = AudioMerger.merge([encodeWav(samples(1, 100)), encodeWav(samples(2, 50))], 'wav');
+    const wav = parseWav(merged);
+    assert.equal(wav?.data.length, 300);
+    assert.deepEqual(wav?.data, Buffer.concat([samples(1, 100), samples(2, 50)]));
+    assert.equal(merged.readUInt32LE(4), merged.length - 8);
+    assert.equal(AudioMerger.durationMs(encodeWav(silentPcm(1500)), 'wav'), 1500);
+
+    const otherRate = encodeWav(samples(0, 10), 16000);
+    assert.equal(mergeErrorCode(() => AudioMerger.merge([encodeWav(samples(0, 10)), otherRate], 'wav')), 'FORMAT_MISMATCH');
+});
+
+test('PCM is concatenated; formats with per-file headers are refused', () => {
+    assert.deepEqual(AudioMerger.merge([Buffer.from([1, 2]), Buffer.from([3, 4])], 'pcm'), Buffer.from([1, 2, 3, 4]));
+    assert.equal(AudioMerger.canMerge('opus'), false);
+    assert.equal(mergeErrorCode(() => AudioMerger.merge([Buffer.from('x')], 'flac')), 'UNSUPPORTED_MERGE_FORMAT');
+    assert.equal(mergeErrorCode(() => AudioMerger.merge([], 'mp3')), 'NOTHING_TO_MERGE');
+});
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AUDIO_FORMATS, applyGain, audioContentType, encodeWav, isAudioFormat, parseWav, silence } from '../audioUtils';
+import { AudioMerger } from '../audioMerger';
+
+test('generated files are served with the Content-Type of their format', () => {
+    assert.equal(audioContentType('/generated/job/chunk_1.mp3'), 'audio/mpeg');
+    assert.equal(audioContentType('/generated/job/merged.WAV'), 'audio/wav');
+    assert.equal(audioContentType('chunk_1.opus'), 'audio/ogg; codecs=opus');
+    assert.equal(audioContentType('chunk_1.aac'), 'audio/aac');
+    assert.equal(audioContentType('chunk_1.flac'), 'audio/flac');
+    assert.equal(audioContentType('chunk_1.pcm'), 'application/octet-stream');
+    assert.equal(audioContentType('.owner.json'), undefined);
+    assert.equal(audioContentType('chunk_1'), undefined);
+});
+
+test('only the API\'s output formats are accepted', () => {
+    for (const format of AUDIO_FORMATS) {
+        assert.equal(isAudioFormat(format), true);
+    }
+    assert.equal(isAudioFormat('ogg'), false);
+    assert.equal(isAudioFormat('MP3'), false);
+    assert.equal(isAudioFormat(undefined), false);
+});
+
+test('silence can be written in MP3, WAV and PCM only', () => {
+    assert.equal(AudioMerger.durationMs(silence('mp3', 480)!, 'mp3'), 480);
+    assert.equal(parseWav(silence('wav', 1000)!)?.data.length, 48000);
+    assert.equal(silence('pcm', 500)!.length, 24000);
+    for (const format of ['opus', 'aac', 'flac'] as const) {
+        assert.equal(silence(format, 500), null);
+    }
+});
+
+// 16-bit little-endian samples
+function pcm(...samples: number[]): Buffer {
+    const buffer = Buffer.alloc(samples.length * 2);
+    samples.forEach((sample, index) => buffer.writeInt16LE(sample, index * 2));
+    return buffer;
+}
+
+test('volume scales WAV and PCM samples, clipping at full scale, and leaves the input alone', () => {
+    const input = pcm(1000, -1000, 20000, -20000);
+    assert.deepEqual(applyGain(input, 'pcm', 2), pcm(2000, -2000, 32767, -32768));
+    assert.deepEqual(applyGain(input, 'pcm', 0.5), pcm(500, -500, 10000, -10000));
+    assert.deepEqual(input, pcm(1000, -1000, 20000, -20000));
+
+    const wav = encodeWav(pcm(100, -100));
+    assert.deepEqual(parseWav(applyGain(wav, 'wav', 1.5))?.data, pcm(150, -150));
+    assert.deepEqual(parseWav(wav)?.data, pcm(100, -100));
+});
+
+test('volume leaves compressed formats and unit gain unchanged', () => {
+    const mp3 = silence('mp3', 48)!;
+    assert.equal(applyGain(mp3, 'mp3', 2), mp3);
+    const samples = pcm(1, 2);
+    assert.equal(applyGain(samples, 'pcm', 1), samples);
+});
@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConversionHistory, FileHistoryStore, HistorySettings } from '../conversionHistory';
+import type { Job } from '../jobStore';
+
+const SETTINGS: HistorySettings = {
+    voice: 'alloy', instructions: '', format: 'mp3', voiceOptions: {}, merge: false, normalize: true, punctuate: false, markup: false, script: false,
+};
+
+function finishedJob(id: string, minute: number, state: Job['state'] = 'completed'): Job {
+    const at = new Date(Date.UTC(2024, 2, 1, 12, minute)).toISOString();
+    return {
+        id, state, voice: 'alloy', instructions: '', format: 'mp3', voiceOptions: {}, user: 'alice',
+        characters: 10, totalChunks: 1, completedChunks: 1, skippedChunks: 0, chunks: [], files: [`/generated/${id}/part_001.mp3`],
+        merge: false, normalize: true, punctuate: false, markup: false, createdAt: at, updatedAt: at, finishedAt: at,
+    };
+}
+
+async function withDirectory(run: (dir: string) => Promise<void>) {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'history-'));
+    try {
+        await run(dir);
+    } finally {
+        await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+}
+
+async function exists(target: string): Promise<boolean> {
+    return fs.promises.access(target).then(() => true, () => false);
+}
+
+test('pruned entries take their audio with them', () => withDirectory(async dir => {
+    const generatedDir = path.join(dir, 'generated');
+    const history = new ConversionHistory(new FileHistoryStore(path.join(dir, 'history.json')), generatedDir, 2);
+    for (const [minute, id] of ['first', 'second', 'third'].entries()) {
+        await fs.promises.mkdir(path.join(generatedDir, id), { recursive: true });
+        const job = finishedJob(id, minute);
+        await history.record(job, `Text of the ${id} conversion`, SETTINGS);
+        await history.finish(job);
+    }
+
+    const page = await history.list('alice', 0, 10);
+    assert.deepEqual(page.entries.map(entry => entry.id), ['third', 'second']);
+    assert.equal(await exists(path.join(generatedDir, 'first')), false);
+    assert.equal(await exists(path.join(generatedDir, 'second')), true);
+}));
+
+test('running conversions keep their audio when pruned', () => withDirectory(async dir => {
+    const generatedDir = path.join(dir, 'generated');
+    const history = new ConversionHistory(new FileHistoryStore(path.join(dir, 'history.json')), generatedDir, 1);
+    await fs.promises.mkdir(path.join(generatedDir, 'running'), { recursive: true });
+    await history.record(finishedJob('running', 0, 'processing'), 'Still going', SETTINGS);
+    await history.record(finishedJob('newer', 1), 'Newer', SETTINGS);
+    assert.equal(await history.get('running'), null);
+    assert.equal(await exists(path.join(generatedDir, 'running')), true);
+}));
+
+test('texts are stored per entry, outside the index', () => withDirectory(async dir => {
+    const filePath = path.join(dir, 'history.json');
+    const history = new ConversionHistory(new FileHistoryStore(filePath), path.join(dir, 'generated'));
+    const job = { ...finishedJob('entry', 0), spokenText: 'Spoken words' };
+    await history.record(job, 'A long document', SETTINGS);
+    await history.finish(job);
+
+    const index = await fs.promises.readFile(filePath, 'utf8');
+    assert.doesNotMatch(index, /A long document|Spoken words/);
+    const reloaded = new FileHistoryStore(filePath);
+    const entry = await reloaded.get('entry');
+    assert.equal(entry?.text, 'A long document');
+    assert.equal(entry?.spokenText, 'Spoken words');
+    assert.equal((await reloaded.list('alice', 0, 1)).entries[0].text, 'A long document');
+
+    await reloaded.delete(entry!);
+    assert.deepEqual(await fs.promises.readdir(path.join(dir, 'history-texts')), []);
+}));
+
+test('texts stored inline by earlier versions are moved out on first load', () => withDirectory(async dir => {
+    const filePath = path.join(dir, 'history.json');
+    const { id, user, createdAt } = finishedJob('legacy', 0);
+    const legacy = { id, user, createdAt, source: 'text', text: 'Old text', settings: SETTINGS, status: 'completed', characters: 8, totalChunks: 1, files: [] };
+    await fs.promises.writeFile(filePath, JSON.stringify({ entries: [legacy] }));
+
+    const store = new FileHistoryStore(filePath);
+    assert.equal((await store.get('legacy'))?.text, 'Old text');
+    assert.doesNotMatch(await fs.promises.readFile(filePath, 'utf8'), /Old text/);
+    assert.equal((await new FileHistoryStore(filePath).get('legacy'))?.text, 'Old text');
+}));
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { csrfProtection, csrfToken } from '../csrfProtection';
+
+interface Outcome {
+    passed: boolean;
+    status?: number;
+    redirect?: string;
+    body?: any;
+}
+
+interface RequestFields {
+    method?: string;
+    path?: string;
+    headers?: Record<string, string>;
+    body?: Record<string, unknown>;
+    sessionToken?: string;
+}
+
+// Runs the middleware against a minimal request and response
+function call(enabled: boolean, fields: RequestFields): Outcome {
+    const outcome: Outcome = { passed: false };
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(fields.headers || {})) headers[name.toLowerCase()] = value;
+    const req = {
+        method: fields.method || 'POST',
+        path: fields.path || '/convert',
+        headers,
+        body: fields.body,
+        session: { csrfToken: fields.sessionToken },
+        get: (name: string) => headers[name.toLowerCase()],
+    };
+    const res = {
+        status(code: number) {
+            outcome.status = code;
+            return res;
+        },
+        json(body: unknown) {
+            outcome.body = body;
+            return res;
+        },
+        redirect(location: string) {
+            outcome.redirect = location;
+            return res;
+        },
+    };
+    csrfProtection(enabled)(req as unknown as Request, res as unknown as Response, () => {
+        outcome.passed = true;
+    });
+    return outcome;
+}
+
+const TOKEN = 'a'.repeat(43);
+
+test('the session token is created once and kept', () => {
+    const req = { session: {} } as unknown as Request;
+    const token = csrfToken(req);
+    assert.match(token, /^[A-Za-z0-9_-]{43}$/);
+    assert.equal(csrfToken(req), token);
+});
+
+test('state-changing requests need the session token in the header or form', () => {
+    assert.equal(call(true, { headers: { 'X-CSRF-Token': TOKEN }, sessionToken: TOKEN }).passed, true);
+    assert.equal(call(true, { body: { _csrf: TOKEN }, sessionToken: TOKEN }).passed, true);
+
+    const missing = call(true, { sessionToken: TOKEN });
+    assert.equal(missing.passed, false);
+    assert.equal(missing.status, 403);
+    assert.equal(missing.body.code, 'CSRF_TOKEN_INVALID');
+    assert.equal(call(true, { headers: { 'X-CSRF-Token': 'b'.repeat(43) }, sessionToken: TOKEN }).status, 403);
+    assert.equal(call(true, { headers: { 'X-CSRF-Token': TOKEN } }).status, 403);
+    assert.equal(call(true, { body: { _csrf: [TOKEN] }, sessionToken: TOKEN }).status, 403);
+});
+
+test('a token with as many characters but more bytes is rejected', () => {
+    const outcome = call(true, { body: { _csrf: 'é' + TOKEN.slice(1) }, sessionToken: TOKEN });
+    assert.equal(outcome.passed, false);
+    assert.equal(outcome.status, 403);
+});
+
+test('safe methods, API tokens and disabled sign-in are exempt', () => {
+    assert.equal(call(true, { method: 'GET', sessionToken: TOKEN }).passed, true);
+    assert.equal(call(true, { headers: { Authorization: 'Bearer tts_abc.def' } }).passed, true);
+    assert.equal(call(false, {}).passed, true);
+});
+
+test('an expired login form is sent back to the login page', () => {
+    const outcome = call(true, { path: '/login', body: { _csrf: 'stale' }, sessionToken: TOKEN });
+    assert.equal(outcome.passed, false);
+    assert.equal(outcome.redirect, '/login?error=expired');
+});
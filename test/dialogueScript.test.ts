@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DialogueScript, ScriptError } from '../dialogueScript';
+
+function scriptErrorCode(run: () => unknown): string | undefined {
+    try {
+        run();
+    } catch (error) {
+        if (error instanceof ScriptError) return error.errorCode;
+        throw error;
+    }
+    return undefined;
+}
+
+test('lines are split by speaker, and unprefixed lines continue the previous one', () => {
+    const lines = DialogueScript.parse('ALICE: Hello there.\n\nDr. Lee: Good morning.\nHow are you?\r\nGuest 2: Fine: thanks.');
+    assert.deepEqual(lines, [
+        { speaker: 'ALICE', text: 'Hello there.' },
+        { speaker: 'Dr. Lee', text: 'Good morning. How are you?' },
+        { speaker: 'Guest 2', text: 'Fine: thanks.' },
+    ]);
+    assert.equal(scriptErrorCode(() => DialogueScript.parse('No speaker here.\nALICE: Hi.')), 'INVALID_SCRIPT');
+    assert.equal(scriptErrorCode(() => DialogueScript.parse('ALICE:\nBOB:  ')), 'EMPTY_SCRIPT');
+});
+
+test('speakers are matched case-insensitively in order of appearance', () => {
+    const lines = DialogueScript.parse('Alice: One.\nBOB: Two.\nALICE: Three.');
+    assert.deepEqual(DialogueScript.speakers(lines), ['Alice', 'BOB']);
+});
+
+test('mapped speakers keep their voice and the others get the unused voices in order', () => {
+    const lines = DialogueScript.parse('ALICE: One.\nBOB: Two.\nCAROL: Three.');
+    const voices = DialogueScript.assignVoices(lines, { alice: 'Shimmer', CAROL: { voice: 'onyx', instructions: 'Sound tired.' } });
+    assert.deepEqual(Object.fromEntries(voices), {
+        ALICE: { voice: 'shimmer', instructions: undefined },
+        BOB: { voice: 'nova' },
+        CAROL: { voice: 'onyx', instructions: 'Sound tired.' },
+    });
+    assert.equal(scriptErrorCode(() => DialogueScript.assignVoices(lines, { ALICE: 'robot' })), 'UNKNOWN_VOICE');
+});
+
+test('each line becomes a segment in its speaker\'s voice with the speaker\'s instructions', () => {
+    const lines = DialogueScript.parse('ALICE: Hi, Bob.\nBOB: Hi! <emphasis>Great</emphasis> news.');
+    const voices = DialogueScript.assignVoices(lines, { ALICE: { voice: 'coral', instructions: 'Sound warm.' }, BOB: 'echo' });
+    assert.deepEqual(DialogueScript.toSegments(lines, voices, true), [
+        { type: 'speech', text: 'Hi, Bob.', voice: 'coral', instructions: 'Sound warm.' },
+        { type: 'speech', text: 'Hi!', voice: 'echo', instructions: undefined },
+        { type: 'speech', text: 'Great', voice: 'echo', instructions: 'Say this with emphasis.' },
+        { type: 'speech', text: 'news.', voice: 'echo', instructions: undefined },
+    ]);
+    const withUnknownVoice = DialogueScript.parse('ALICE: <voice name="robot">Beep.</voice>');
+    assert.equal(scriptErrorCode(() => DialogueScript.toSegments(withUnknownVoice, DialogueScript.assignVoices(withUnknownVoice), true)), 'UNKNOWN_VOICE');
+});
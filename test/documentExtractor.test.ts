@@ -0,0 +1,13 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DocumentExtractor } from '../documentExtractor';
+
+function rtfText(source: string): string {
+    return DocumentExtractor.extract(Buffer.from(source, 'latin1'), 'application/rtf', 'document.rtf')
+        .paragraphs.map(paragraph => paragraph.text).join('\n');
+}
+
+test('RTF symbols are read and unknown control words are dropped', () => {
+    assert.equal(rtfText('{\\rtf1\\ansi Before\\emdash after \\ldblquote quoted\\rdblquote\\par}'), 'Before—after “quoted”');
+    assert.equal(rtfText('{\\rtf1\\ansi A\\constructor  B\\toString  C\\par}'), 'A B C');
+});
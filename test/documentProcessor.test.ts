@@ -0,0 +1,119 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DocumentProcessor, MarkupError } from '../documentProcessor';
+import { DialogueScript } from '../dialogueScript';
+
+function markupErrorMessage(text: string): string | undefined {
+    try {
+        DocumentProcessor.parseMarkup(text);
+    } catch (error) {
+        assert.ok(error instanceof MarkupError);
+        return error.message;
+    }
+    return undefined;
+}
+
+function chunkTexts(text: string, maxChunkSize: number): string[] {
+    const chunks = DocumentProcessor.chunkDocument(text, maxChunkSize);
+    for (const chunk of chunks) {
+        assert.equal(text.slice(chunk.start, chunk.end), chunk.text);
+        assert.ok(chunk.text.length <= maxChunkSize, chunk.text);
+    }
+    return chunks.map(chunk => chunk.text);
+}
+
+test('chunks break at paragraphs before sentences, and sentences before clauses and words', () => {
+    const text = 'First paragraph, short.\n\nSecond paragraph. It has two sentences.';
+    assert.deepEqual(chunkTexts(text, 45), ['First paragraph, short.', 'Second paragraph. It has two sentences.']);
+    assert.deepEqual(chunkTexts(text, 30), ['First paragraph, short.', 'Second paragraph.', 'It has two sentences.']);
+    assert.deepEqual(chunkTexts('One long clause, then another one; and a third', 20), ['One long clause,', 'then another one;', 'and a third']);
+    assert.deepEqual(chunkTexts('words without any punctuation at all', 12), ['words', 'without any', 'punctuation', 'at all']);
+});
+
+test('chunk offsets point into the original text, with surrounding whitespace left out', () => {
+    const text = '  Leading space.\n\n\n   Indented paragraph.  ';
+    assert.deepEqual(DocumentProcessor.chunkDocument(text, 25), [
+        { text: 'Leading space.', start: 2, end: 16 },
+        { text: 'Indented paragraph.', start: 22, end: 41 },
+    ]);
+});
+
+test('abbreviations and initials do not end a sentence', () => {
+    assert.deepEqual(chunkTexts('Dr. Smith met J. R. Doe at approx. five. They left.', 45), [
+        'Dr. Smith met J. R. Doe at approx. five.',
+        'They left.',
+    ]);
+});
+
+test('words longer than a chunk are cut without splitting surrogate pairs', () => {
+    const chunks = chunkTexts(`${'a'.repeat(9)}😀${'b'.repeat(5)}`, 10);
+    assert.deepEqual(chunks, ['a'.repeat(9), `😀${'b'.repeat(5)}`]);
+    assert.deepEqual(DocumentProcessor.chunkDocument(' \n\t ', 10), []);
+    assert.throws(() => DocumentProcessor.chunkDocument('text', 0), /positive integer/);
+});
+
+test('text without markup is one speech segment', () => {
+    assert.deepEqual(DocumentProcessor.parseMarkup('Hello there.'), [
+        { type: 'speech', text: 'Hello there.', voice: undefined, instructions: undefined },
+    ]);
+});
+
+test('pauses become pause segments and are capped', () => {
+    assert.deepEqual(DocumentProcessor.parseMarkup('One. [pause 2s] Two. <break time="500ms"/> Three.'), [
+        { type: 'speech', text: 'One. ', voice: undefined, instructions: undefined },
+        { type: 'pause', durationMs: 2000 },
+        { type: 'speech', text: ' Two. ', voice: undefined, instructions: undefined },
+        { type: 'pause', durationMs: 500 },
+        { type: 'speech', text: ' Three.', voice: undefined, instructions: undefined },
+    ]);
+    assert.match(markupErrorMessage('[pause 30s]') || '', /at most 10 seconds/);
+    assert.match(markupErrorMessage('[pause soon]') || '', /Invalid pause length/);
+});
+
+test('voices and emphasis set the voice and instructions of their text', () => {
+    const segments = DocumentProcessor.parseMarkup(
+        'Intro <voice name="Onyx" instructions="Sound excited.">big <emphasis level="strong">news</emphasis></voice>.'
+    );
+    assert.deepEqual(segments, [
+        { type: 'speech', text: 'Intro ', voice: undefined, instructions: undefined },
+        { type: 'speech', text: 'big ', voice: 'onyx', instructions: 'Sound excited.' },
+        { type: 'speech', text: 'news.', voice: 'onyx', instructions: 'Sound excited. Say this with strong emphasis.' },
+    ]);
+});
+
+test('say-as spells out characters and digits', () => {
+    const [segment] = DocumentProcessor.parseMarkup(
+        'Call <say-as interpret-as="characters">API</say-as> on <say-as interpret-as="digits">42</say-as>'
+    );
+    assert.equal(segment.type === 'speech' && segment.text, 'Call A P I on 4 2');
+});
+
+test('entities are decoded inside markup', () => {
+    const [segment] = DocumentProcessor.parseMarkup('<speak>Salt &amp; pepper &lt;3</speak>');
+    assert.equal(segment.type === 'speech' && segment.text, 'Salt & pepper <3');
+});
+
+test('malformed markup is rejected', () => {
+    assert.match(markupErrorMessage('<emphasis>never closed') || '', /never closed/);
+    assert.match(markupErrorMessage('text</voice>') || '', /Unexpected <\/voice>/);
+    assert.match(markupErrorMessage('<voice>no name</voice>') || '', /needs a name/);
+});
+
+test('only text starting with <speak> is treated as an SSML document', () => {
+    assert.equal(DocumentProcessor.isSpeakDocument('  <speak>Hello</speak>'), true);
+    assert.equal(DocumentProcessor.isSpeakDocument('<SPEAK version="1.1">Hello</SPEAK>'), true);
+    assert.equal(DocumentProcessor.isSpeakDocument('Use <p> tags for paragraphs & <s> for sentences.'), false);
+    assert.equal(DocumentProcessor.isSpeakDocument('<speaker>Hello'), false);
+});
+
+test('script lines are kept as written unless markup is asked for', () => {
+    const lines = DialogueScript.parse('ALICE: Wrap it in <p> tags &amp; [pause 2s] go.');
+    const voices = DialogueScript.assignVoices(lines, { ALICE: 'nova' });
+    assert.deepEqual(DialogueScript.toSegments(lines, voices), [
+        { type: 'speech', text: 'Wrap it in <p> tags &amp; [pause 2s] go.', voice: 'nova', instructions: undefined },
+    ]);
+    assert.throws(() => DialogueScript.toSegments(lines, voices, true), MarkupError);
+
+    const marked = DialogueScript.parse('ALICE: Wait. [pause 2s] Go.');
+    assert.equal(DialogueScript.toSegments(marked, voices, true).some(segment => segment.type === 'pause'), true);
+});
@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileRetention, RetentionPolicy } from '../fileRetention';
+
+const POLICY: RetentionPolicy = { ttlSeconds: 60 * 60, maxBytes: null, uploadTtlSeconds: 60 * 60, intervalSeconds: 0 };
+const HOURS_AGO = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000);
+
+async function withDirectory(run: (dir: string) => Promise<void>) {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'retention-'));
+    try {
+        await run(dir);
+    } finally {
+        await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+}
+
+// A conversion directory with one part of the given size, last modified at "modified"
+async function conversion(generatedDir: string, id: string, bytes: number, modified: Date) {
+    const dir = path.join(generatedDir, id);
+    await fs.promises.mkdir(dir, { recursive: true });
+    await fs.promises.writeFile(path.join(dir, 'part_001.mp3'), Buffer.alloc(bytes));
+    await fs.promises.utimes(path.join(dir, 'part_001.mp3'), modified, modified);
+    await fs.promises.utimes(dir, modified, modified);
+}
+
+async function exists(target: string): Promise<boolean> {
+    return fs.promises.access(target).then(() => true, () => false);
+}
+
+function quietly<T>(run: () => Promise<T>): Promise<T> {
+    const originalLog = console.log;
+    console.log = () => undefined;
+    return run().finally(() => {
+        console.log = originalLog;
+    });
+}
+
+test('a dry run reports what a real run then deletes', () => withDirectory(async dir => {
+    const generatedDir = path.join(dir, 'generated');
+    const uploadDir = path.join(dir, 'uploads');
+    await conversion(generatedDir, 'old', 100, HOURS_AGO(2));
+    await conversion(generatedDir, 'new', 100, new Date());
+    await fs.promises.mkdir(uploadDir);
+    await fs.promises.writeFile(path.join(uploadDir, 'left-behind'), 'x');
+    await fs.promises.utimes(path.join(uploadDir, 'left-behind'), HOURS_AGO(2), HOURS_AGO(2));
+    const retention = new FileRetention(dir, generatedDir, uploadDir, async () => false, POLICY);
+
+    const preview = await quietly(() => retention.run({ dryRun: true }));
+    assert.equal(preview.dryRun, true);
+    assert.deepEqual(preview.deleted.map(item => [item.path, item.reason]), [
+        [path.join('generated', 'old'), 'expired'],
+        [path.join('uploads', 'left-behind'), 'orphaned-upload'],
+    ]);
+    assert.equal(preview.freedBytes, 101);
+    assert.equal(await exists(path.join(generatedDir, 'old')), true);
+    assert.equal(await exists(path.join(uploadDir, 'left-behind')), true);
+
+    const report = await quietly(() => retention.run());
+    assert.deepEqual(report.deleted, preview.deleted);
+    assert.equal(await exists(path.join(generatedDir, 'old')), false);
+    assert.equal(await exists(path.join(uploadDir, 'left-behind')), false);
+    assert.equal(await exists(path.join(generatedDir, 'new')), true);
+    assert.equal(report.generatedBytes, 100);
+}));
+
+test('the oldest conversions go first above the size cap', () => withDirectory(async dir => {
+    const generatedDir = path.join(dir, 'generated');
+    await conversion(generatedDir, 'oldest', 400, HOURS_AGO(0.5));
+    await conversion(generatedDir, 'middle', 400, HOURS_AGO(0.25));
+    await conversion(generatedDir, 'newest', 400, new Date());
+    const retention = new FileRetention(dir, generatedDir, path.join(dir, 'uploads'), async () => false, { ...POLICY, maxBytes: 1000 });
+
+    const report = await quietly(() => retention.run());
+    assert.deepEqual(report.deleted.map(item => [item.path, item.reason]), [[path.join('generated', 'oldest'), 'over-limit']]);
+    assert.equal(report.generatedBytes, 800);
+}));
+
+test('conversions that are still queued or running are left alone', () => withDirectory(async dir => {
+    const generatedDir = path.join(dir, 'generated');
+    await conversion(generatedDir, 'running-elsewhere', 100, HOURS_AGO(2));
+    await fs.promises.mkdir(path.join(generatedDir, 'just-queued'), { recursive: true });
+    const active = new Set(['running-elsewhere', 'just-queued']);
+    const retention = new FileRetention(dir, generatedDir, path.join(dir, 'uploads'), async jobId => active.has(jobId), POLICY);
+
+    const report = await quietly(() => retention.run());
+    assert.deepEqual(report.deleted, []);
+    assert.deepEqual(report.emptyDirectories, []);
+    assert.equal(report.skipped, 2);
+    assert.equal(await exists(path.join(generatedDir, 'running-elsewhere')), true);
+    assert.equal(await exists(path.join(generatedDir, 'just-queued')), true);
+}));
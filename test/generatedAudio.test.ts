@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GeneratedAudio, writeAudioOwner } from '../generatedAudio';
+
+const JOB_ID = '0b6f8a52-3c1e-4d2a-9f4b-7e5d6c8a9b10';
+const URL_PATH = `/generated/${JOB_ID}/part_001.mp3`;
+
+// The query of a signed link as verify() receives it
+function query(link: string): { expires?: string; signature?: string } {
+    return Object.fromEntries(new URL(link, 'http://localhost').searchParams);
+}
+
+test('a signed link verifies until it expires', () => {
+    const audio = new GeneratedAudio('/generated', 'secret');
+    const { expires, signature } = query(audio.sign(URL_PATH, new Date(Date.now() + 60 * 1000)));
+    assert.equal(audio.verify(URL_PATH, expires, signature), 'valid');
+
+    const expired = query(audio.sign(URL_PATH, new Date(Date.now() - 1000)));
+    assert.equal(audio.verify(URL_PATH, expired.expires, expired.signature), 'expired');
+});
+
+test('altered links, other files and other secrets are invalid', () => {
+    const audio = new GeneratedAudio('/generated', 'secret');
+    const { expires, signature } = query(audio.sign(URL_PATH, new Date(Date.now() + 60 * 1000)));
+    assert.equal(audio.verify(`/generated/${JOB_ID}/part_002.mp3`, expires, signature), 'invalid');
+    assert.equal(audio.verify(URL_PATH, String(Number(expires) + 3600), signature), 'invalid');
+    assert.equal(audio.verify(URL_PATH, expires, signature!.replace(/^./, c => (c === '0' ? '1' : '0'))), 'invalid');
+    assert.equal(audio.verify(URL_PATH, expires, signature!.slice(0, 10)), 'invalid');
+    assert.equal(audio.verify(URL_PATH, undefined, signature), 'invalid');
+    assert.equal(audio.verify(URL_PATH, ['1', '2'], signature), 'invalid');
+    assert.equal(new GeneratedAudio('/generated', 'other secret').verify(URL_PATH, expires, signature), 'invalid');
+});
+
+test('only generated job directories and file names resolve', () => {
+    const audio = new GeneratedAudio('/data/generated', 'secret');
+    assert.equal(audio.resolve(JOB_ID, 'part_001.mp3'), path.resolve('/data/generated', JOB_ID, 'part_001.mp3'));
+    assert.equal(audio.resolve('..', 'part_001.mp3'), null);
+    assert.equal(audio.resolve(JOB_ID, '../.owner.json'), null);
+    assert.equal(audio.resolve(JOB_ID, '.owner.json'), null);
+});
+
+test('the owner record is read back from the job directory', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'generated-'));
+    try {
+        const audio = new GeneratedAudio(dir, 'secret');
+        await fs.promises.mkdir(path.join(dir, JOB_ID));
+        await writeAudioOwner(path.join(dir, JOB_ID), { user: 'alice', createdAt: '2024-03-01T00:00:00.000Z' });
+        assert.deepEqual(await audio.owner(JOB_ID), { user: 'alice', createdAt: '2024-03-01T00:00:00.000Z' });
+        assert.equal(await audio.owner('not-a-job'), undefined);
+        assert.equal(await audio.owner('11111111-2222-4333-8444-555555555555'), undefined);
+    } finally {
+        await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+});
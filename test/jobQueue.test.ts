@@ -0,0 +1,129 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JobProgress, JobQueue } from '../jobQueue';
+import { Job, MemoryJobStore } from '../jobStore';
+import { SpeechGenerator } from '../speechGenerator';
+import type { TtsProvider } from '../ttsProvider';
+
+// A shared store in which the process that queued the jobs has gone away
+class AbandonedJobStore extends MemoryJobStore {
+    async isAlive(): Promise<boolean> {
+        return false;
+    }
+}
+
+function storedJob(id: string, state: Job['state']): Job {
+    const now = new Date().toISOString();
+    return {
+        id, state, voice: 'alloy', instructions: '', format: 'mp3', voiceOptions: {}, instance: 'gone',
+        characters: 10, totalChunks: 0, completedChunks: 0, skippedChunks: 0, chunks: [], files: [],
+        merge: false, normalize: false, punctuate: false, markup: false, createdAt: now, updatedAt: now,
+    };
+}
+
+test('fails jobs left unfinished by a process that is gone', async () => {
+    const store = new AbandonedJobStore();
+    await store.save(storedJob('queued-job', 'queued'));
+    await store.save(storedJob('running-job', 'processing'));
+    await store.save(storedJob('done-job', 'completed'));
+    const queue = new JobQueue(store, () => ({}) as SpeechGenerator, { generatedDir: '/nonexistent' });
+    const finished: Job[] = [];
+    const bothFinished = new Promise<void>(resolve => queue.on('finished', (job: Job) => {
+        finished.push(job);
+        if (finished.length === 2) resolve();
+    }));
+    queue.start();
+    await bothFinished;
+    queue.stop();
+
+    assert.deepEqual(finished.map(job => job.id).sort(), ['queued-job', 'running-job']);
+    for (const id of ['queued-job', 'running-job']) {
+        const job = await store.get(id);
+        assert.equal(job?.state, 'failed');
+        assert.equal(job?.error?.code, 'JOB_INTERRUPTED');
+    }
+    assert.equal((await store.get('done-job'))?.state, 'completed');
+    assert.deepEqual(await store.unfinished(), []);
+});
+
+test('jobs whose output directory cannot be created fail instead of staying queued', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'queue-'));
+    try {
+        // A file where the generated directory should be
+        const generatedDir = path.join(dir, 'generated');
+        await fs.promises.writeFile(generatedDir, '');
+        const store = new MemoryJobStore();
+        const queue = new JobQueue(store, () => ({}) as SpeechGenerator, { generatedDir });
+        const originalError = console.error;
+        console.error = () => undefined;
+        let job: Job;
+        try {
+            const submitted = await queue.submit({ text: 'Hello', voice: 'alloy', instructions: '' });
+            job = await queue.waitFor(submitted.id);
+        } finally {
+            console.error = originalError;
+        }
+        assert.equal(job.state, 'failed');
+        assert.ok(job.finishedAt);
+        assert.equal((await store.get(job.id))?.state, 'failed');
+    } finally {
+        await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+});
+
+test('jobs queued or running in another process count as unfinished', async () => {
+    const store = new MemoryJobStore();
+    await store.save(storedJob('elsewhere', 'processing'));
+    await store.save(storedJob('waiting', 'queued'));
+    await store.save(storedJob('done', 'completed'));
+    const queue = new JobQueue(store, () => ({}) as SpeechGenerator, { generatedDir: '/nonexistent' });
+    assert.equal(await queue.isUnfinished('elsewhere'), true);
+    assert.equal(await queue.isUnfinished('waiting'), true);
+    assert.equal(await queue.isUnfinished('done'), false);
+    assert.equal(await queue.isUnfinished('unknown'), false);
+});
+
+test('progress events follow each chunk and the job records them', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'queue-'));
+    try {
+        // The second paragraph fails, so its chunk is skipped
+        const provider: TtsProvider = {
+            name: 'fake', model: 'fake', formats: ['mp3'],
+            async generateSpeech(text: string) {
+                if (text.startsWith('Second')) throw new Error('voice unavailable');
+                return Buffer.from('audio');
+            },
+        };
+        const store = new MemoryJobStore();
+        const queue = new JobQueue(store, () => new SpeechGenerator(provider), { generatedDir: dir });
+        const events: JobProgress[] = [];
+        queue.on('progress', (progress: JobProgress) => events.push(progress));
+        const text = `First. ${'word '.repeat(150)}\n\nSecond. ${'word '.repeat(150)}`;
+        const originalLog = console.log;
+        const originalError = console.error;
+        console.log = console.error = () => undefined;
+        let job: Job;
+        try {
+            job = await queue.waitFor((await queue.submit({ text, voice: 'alloy', instructions: '' })).id);
+        } finally {
+            console.log = originalLog;
+            console.error = originalError;
+        }
+
+        assert.equal(job.state, 'completed');
+        assert.deepEqual(events.map(event => `${event.type} ${event.index}`).sort(), ['complete 0', 'skip 1', 'start 0', 'start 1']);
+        const complete = events.find(event => event.type === 'complete')!;
+        assert.equal(complete.file, `/generated/${job.id}/chunk_1.mp3`);
+        assert.equal(events.find(event => event.type === 'skip')?.error, 'voice unavailable');
+        const last = events[events.length - 1];
+        assert.deepEqual([last.completed, last.skipped], [1, 1]);
+        assert.deepEqual(job.chunks.map(chunk => chunk.state), ['completed', 'skipped']);
+        assert.deepEqual(job.files, [`/generated/${job.id}/chunk_1.mp3`]);
+        assert.deepEqual((await store.get(job.id))?.chunks.map(chunk => chunk.state), ['completed', 'skipped']);
+    } finally {
+        await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LoginLimits, LoginThrottle, MemoryLoginAttemptStore } from '../loginThrottle';
+
+const LIMITS: LoginLimits = { freeAttempts: 3, maxFailures: 6, maxFailuresPerIp: 10, windowSeconds: 900, lockoutSeconds: 900 };
+
+test('failures beyond the free attempts wait twice as long each time', async () => {
+    const throttle = new LoginThrottle(new MemoryLoginAttemptStore(), LIMITS);
+    for (let i = 0; i < 2; i++) {
+        assert.deepEqual(await throttle.recordFailure('alice', '10.0.0.1'), { retryAfterSeconds: 0, lockedOut: [] });
+    }
+    assert.equal(await throttle.retryAfter('alice', '10.0.0.1'), 0);
+    assert.equal((await throttle.recordFailure('alice', '10.0.0.1')).retryAfterSeconds, 1);
+    assert.equal((await throttle.recordFailure('alice', '10.0.0.1')).retryAfterSeconds, 2);
+    assert.equal((await throttle.recordFailure('alice', '10.0.0.1')).retryAfterSeconds, 4);
+    assert.equal(await throttle.retryAfter('ALICE', '10.0.0.2'), 4);
+    assert.equal(await throttle.retryAfter('bob', '10.0.0.1'), 0);
+});
+
+test('a username is locked out at the limit until it is reset', async () => {
+    const throttle = new LoginThrottle(new MemoryLoginAttemptStore(), LIMITS);
+    let failure;
+    for (let i = 0; i < LIMITS.maxFailures; i++) {
+        failure = await throttle.recordFailure('alice', `10.0.0.${i}`);
+    }
+    assert.deepEqual(failure, { retryAfterSeconds: LIMITS.lockoutSeconds, lockedOut: ['user'] });
+    assert.equal(await throttle.retryAfter('alice', '10.0.1.1'), LIMITS.lockoutSeconds);
+
+    await throttle.reset('Alice');
+    assert.equal(await throttle.retryAfter('alice', '10.0.1.1'), 0);
+    assert.deepEqual(await throttle.recordFailure('alice', '10.0.1.1'), { retryAfterSeconds: 0, lockedOut: [] });
+});
+
+test('an address is locked out after failures across many usernames', async () => {
+    const throttle = new LoginThrottle(new MemoryLoginAttemptStore(), LIMITS);
+    let failure;
+    for (let i = 0; i < LIMITS.maxFailuresPerIp; i++) {
+        failure = await throttle.recordFailure(`user${i}`, '10.0.0.1');
+    }
+    assert.deepEqual(failure?.lockedOut, ['ip']);
+    assert.equal(await throttle.retryAfter('someone-else', '10.0.0.1'), LIMITS.lockoutSeconds);
+    assert.equal(await throttle.retryAfter('someone-else', '10.0.0.2'), 0);
+
+    // Resetting a username leaves the address locked
+    await throttle.reset('user0');
+    assert.equal(await throttle.retryAfter('user0', '10.0.0.1'), LIMITS.lockoutSeconds);
+});
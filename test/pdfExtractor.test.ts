@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as zlib from 'zlib';
+import { DocumentExtractionError, DocumentExtractor } from '../documentExtractor';
+import { MAX_ENTRY_BYTES } from '../zipArchive';
+
+// A one-page PDF whose page content is the given stream, deflated
+function pdf(content: Buffer): Buffer {
+    const stream = zlib.deflateSync(content);
+    return Buffer.concat([
+        Buffer.from('%PDF-1.4\n'),
+        Buffer.from('1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj\n'),
+        Buffer.from('2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj\n'),
+        Buffer.from('3 0 obj << /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >> endobj\n'),
+        Buffer.from(`4 0 obj << /Length ${stream.length} /Filter /FlateDecode >> stream\n`),
+        stream,
+        Buffer.from('\nendstream endobj\n'),
+        Buffer.from('5 0 obj << /Type /Font /Subtype /Type1 /BaseFont /Helvetica >> endobj\n'),
+        Buffer.from('trailer << /Root 1 0 R >>\n%%EOF\n'),
+    ]);
+}
+
+function errorCode(run: () => unknown): string | undefined {
+    try {
+        run();
+    } catch (error) {
+        if (error instanceof DocumentExtractionError) return error.errorCode;
+        throw error;
+    }
+    return undefined;
+}
+
+test('reads text from a deflated content stream', () => {
+    const document = DocumentExtractor.extract(pdf(Buffer.from('BT /F1 12 Tf 72 720 Td (Hello there) Tj ET')), 'application/pdf', 'hello.pdf');
+    assert.match(document.paragraphs.map(paragraph => paragraph.text).join(' '), /Hello there/);
+});
+
+test('stops inflating streams beyond the limit and reports the PDF as too large', () => {
+    const bomb = pdf(Buffer.alloc(MAX_ENTRY_BYTES + 1));
+    assert.ok(bomb.length < 1024 * 1024);
+    assert.equal(errorCode(() => DocumentExtractor.extract(bomb, 'application/pdf', 'bomb.pdf')), 'DOCUMENT_TOO_LARGE');
+});
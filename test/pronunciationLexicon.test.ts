@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileLexiconStore, LexiconEntry, LexiconError, PronunciationLexicon } from '../pronunciationLexicon';
+
+function entry(term: string, spoken: string, options: Partial<LexiconEntry> = {}): LexiconEntry {
+    const now = new Date().toISOString();
+    return { id: term, term, spoken, caseSensitive: false, wholeWord: true, scope: 'global', createdAt: now, updatedAt: now, ...options };
+}
+
+test('longer terms win and replaced text is not matched again', () => {
+    const entries = [entry('New York', 'the Big Apple'), entry('New York City', 'N Y C'), entry('Apple', 'apple fruit')];
+    assert.equal(PronunciationLexicon.apply('I love New York City and New York.', entries), 'I love N Y C and the Big Apple.');
+});
+
+test('numeric terms never match inside the placeholders of earlier replacements', () => {
+    const entries = [entry('SQL', 'sequel'), entry('nginx', 'engine x'), entry('0', 'zero', { wholeWord: false }), entry('1', 'one', { wholeWord: false })];
+    assert.equal(PronunciationLexicon.apply('SQL and nginx on port 10', entries), 'sequel and engine x on port onezero');
+});
+
+test('case sensitivity and whole words are respected', () => {
+    const entries = [entry('AWS', 'A W S', { caseSensitive: true }), entry('py', 'pie', { wholeWord: false })];
+    assert.equal(PronunciationLexicon.apply('AWS aws happy', entries), 'A W S aws happie');
+});
+
+test('reserved placeholder characters are refused in terms and removed from text', () => {
+    assert.throws(() => PronunciationLexicon.validate({ term: 'a\uE001b', spoken: 'x' }), LexiconError);
+    assert.equal(PronunciationLexicon.apply('x\uE000y', [entry('xy', 'ok')]), 'ok');
+});
+
+test('the file store keeps a dictionary for users named like object properties', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'lexicon-'));
+    try {
+        const filePath = path.join(dir, 'lexicon.json');
+        const lexicon = new PronunciationLexicon(new FileLexiconStore(filePath));
+        await lexicon.add('__proto__', { term: 'GIF', spoken: 'jif' });
+        await lexicon.add('constructor', { term: 'SQL', spoken: 'sequel' });
+        assert.deepEqual((await lexicon.list('__proto__')).map(saved => saved.term), ['GIF']);
+        assert.deepEqual((await lexicon.list('toString')), []);
+
+        const reloaded = new PronunciationLexicon(new FileLexiconStore(filePath));
+        assert.deepEqual((await reloaded.list('__proto__')).map(saved => saved.spoken), ['jif']);
+        assert.deepEqual((await reloaded.list('constructor')).map(saved => saved.spoken), ['sequel']);
+    } finally {
+        await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+});
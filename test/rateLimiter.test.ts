@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { MemoryTokenBucketStore, RateLimiter, TokenBucketStore, parseRateLimitPolicy } from '../rateLimiter';
+
+interface Outcome {
+    passed: boolean;
+    status?: number;
+    headers: Record<string, string>;
+    body?: any;
+}
+
+// Runs the middleware against a minimal request and response
+async function call(middleware: ReturnType<RateLimiter['limit']>, ip: string): Promise<Outcome> {
+    const outcome: Outcome = { passed: false, headers: {} };
+    const res = {
+        set(name: string, value: string) {
+            outcome.headers[name] = value;
+            return res;
+        },
+        status(code: number) {
+            outcome.status = code;
+            return res;
+        },
+        json(body: unknown) {
+            outcome.body = body;
+            return res;
+        },
+    };
+    await middleware({ ip } as Request, res as unknown as Response, () => {
+        outcome.passed = true;
+    });
+    return outcome;
+}
+
+test('parses "<requests>/<seconds>" and "off"', () => {
+    const fallback = { capacity: 5, windowSeconds: 10 };
+    assert.deepEqual(parseRateLimitPolicy('10/60', fallback), { capacity: 10, windowSeconds: 60 });
+    assert.deepEqual(parseRateLimitPolicy('3 / 1', fallback), { capacity: 3, windowSeconds: 1 });
+    assert.equal(parseRateLimitPolicy('off', fallback), null);
+    assert.equal(parseRateLimitPolicy(undefined, fallback), fallback);
+    assert.equal(parseRateLimitPolicy('0/60', fallback), fallback);
+    assert.equal(parseRateLimitPolicy('lots', fallback), fallback);
+});
+
+test('rejects requests beyond the capacity with 429 and Retry-After, per key', async () => {
+    const limiter = new RateLimiter(new MemoryTokenBucketStore());
+    const limit = limiter.limit('test', { capacity: 2, windowSeconds: 60 }, req => `ip:${req.ip}`);
+
+    const first = await call(limit, '10.0.0.1');
+    assert.equal(first.passed, true);
+    assert.equal(first.headers['RateLimit-Limit'], '2');
+    assert.equal(first.headers['RateLimit-Remaining'], '1');
+    assert.equal((await call(limit, '10.0.0.1')).passed, true);
+
+    const rejected = await call(limit, '10.0.0.1');
+    assert.equal(rejected.passed, false);
+    assert.equal(rejected.status, 429);
+    assert.equal(rejected.body.code, 'RATE_LIMITED');
+    assert.equal(rejected.headers['Retry-After'], '30');
+
+    assert.equal((await call(limit, '10.0.0.2')).passed, true);
+});
+
+test('policies have separate buckets and "off" never limits', async () => {
+    const limiter = new RateLimiter(new MemoryTokenBucketStore());
+    const strict = limiter.limit('strict', { capacity: 1, windowSeconds: 60 }, () => 'same');
+    const other = limiter.limit('other', { capacity: 1, windowSeconds: 60 }, () => 'same');
+    const off = limiter.limit('off', null, () => 'same');
+    assert.equal((await call(strict, 'a')).passed, true);
+    assert.equal((await call(strict, 'a')).passed, false);
+    assert.equal((await call(other, 'a')).passed, true);
+    for (let i = 0; i < 5; i++) {
+        assert.equal((await call(off, 'a')).passed, true);
+    }
+});
+
+test('requests are let through when the store fails', async () => {
+    const broken: TokenBucketStore = { take: async () => { throw new Error('connection refused'); } };
+    const limit = new RateLimiter(broken).limit('test', { capacity: 1, windowSeconds: 60 }, () => 'key');
+    const originalError = console.error;
+    console.error = () => undefined;
+    try {
+        assert.equal((await call(limit, 'a')).passed, true);
+    } finally {
+        console.error = originalError;
+    }
+});
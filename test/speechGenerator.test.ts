@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChunkProgressEvent, SpeechGenerationCancelledError, SpeechGenerator } from '../speechGenerator';
+import type { SpeechRequestOptions, TtsProvider } from '../ttsProvider';
+
+// A provider whose answers the test decides; each call waits "delayMs" unless aborted
+class FakeProvider implements TtsProvider {
+    readonly name = 'fake';
+    readonly model = 'fake';
+    readonly formats = ['mp3', 'wav', 'pcm'] as const;
+    calls: Array<{ text: string; at: number }> = [];
+    inFlight = 0;
+    maxInFlight = 0;
+
+    constructor(private delayMs: number, private answer: (text: string, call: number) => Buffer | Error = () => Buffer.from('audio')) {}
+
+    async generateSpeech(text: string, voice?: string, instructions?: string, voiceOptions?: object, output?: string,
+                         requestOptions: SpeechRequestOptions = {}): Promise<Buffer> {
+        this.calls.push({ text, at: Date.now() });
+        const result = this.answer(text, this.calls.length - 1);
+        this.inFlight++;
+        this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+        try {
+            await new Promise<void>((resolve, reject) => {
+                const timer = setTimeout(resolve, this.delayMs);
+                requestOptions.signal?.addEventListener('abort', () => {
+                    clearTimeout(timer);
+                    reject(new Error('aborted'));
+                }, { once: true });
+            });
+        } finally {
+            this.inFlight--;
+        }
+        if (result instanceof Error) throw result;
+        return result;
+    }
+}
+
+function rateLimited(retryAfterMs: number): Error {
+    return Object.assign(new Error('Too many requests'), { statusCode: 429, retryAfterMs });
+}
+
+// Paragraphs long enough that each becomes its own chunk
+function paragraphs(count: number): string {
+    return Array.from({ length: count }, (_, i) => `Paragraph ${i + 1}. ${'word '.repeat(120).trim()}`).join('\n\n');
+}
+
+async function withDirectory(run: (dir: string) => Promise<void>) {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'speech-'));
+    const { log, warn, error } = console;
+    console.log = console.warn = console.error = () => undefined;
+    try {
+        await run(dir);
+    } finally {
+        Object.assign(console, { log, warn, error });
+        await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+}
+
+test('chunks are synthesized in parallel and returned in document order', () => withDirectory(async dir => {
+    const provider = new FakeProvider(20);
+    const files = await new SpeechGenerator(provider).generateSpeechFromDocument(paragraphs(6), dir, 'alloy', '', { concurrency: 3 });
+    assert.equal(provider.maxInFlight, 3);
+    assert.deepEqual(files, [1, 2, 3, 4, 5, 6].map(n => path.join(dir, `chunk_${n}.mp3`).replace(/\\/g, '/')));
+}));
+
+test('a rate limit on one chunk pauses every worker, then the chunk is retried', () => withDirectory(async dir => {
+    const provider = new FakeProvider(10, (text, call) => call === 0 ? rateLimited(100) : Buffer.from('audio'));
+    const events: ChunkProgressEvent[] = [];
+    const files = await new SpeechGenerator(provider).generateSpeechFromDocument(paragraphs(3), dir, 'alloy', '', {
+        concurrency: 2,
+        onProgress: event => events.push(event),
+    });
+
+    assert.equal(files.length, 3);
+    assert.deepEqual(events.filter(event => event.type === 'retry'), [{ type: 'retry', index: 0, total: 3, attempt: 1, reason: 'rate limited' }]);
+    // The second chunk was already running and finishes; every request after it waits out the pause
+    const limitedAt = provider.calls[0].at;
+    assert.equal(provider.calls.length, 4);
+    for (const call of provider.calls.slice(2)) {
+        assert.ok(call.at - limitedAt >= 90, `started ${call.at - limitedAt}ms after the rate limit`);
+    }
+}));
+
+test('chunks that fail for other reasons are skipped', () => withDirectory(async dir => {
+    const provider = new FakeProvider(0, text => text.startsWith('Paragraph 2') ? new Error('bad request') : Buffer.from('audio'));
+    const events: ChunkProgressEvent[] = [];
+    const files = await new SpeechGenerator(provider).generateSpeechFromDocument(paragraphs(3), dir, 'alloy', '', {
+        onProgress: event => events.push(event),
+    });
+    assert.deepEqual(files.map(file => path.basename(file)), ['chunk_1.mp3', 'chunk_3.mp3']);
+    assert.deepEqual(events.filter(event => event.type === 'skip'), [{ type: 'skip', index: 1, total: 3, error: 'bad request' }]);
+}));
+
+test('aborting stops new chunks, aborts running requests and rejects', () => withDirectory(async dir => {
+    const provider = new FakeProvider(50);
+    const controller = new AbortController();
+    const generation = new SpeechGenerator(provider).generateSpeechFromDocument(paragraphs(6), dir, 'alloy', '', {
+        concurrency: 2,
+        signal: controller.signal,
+        onProgress: event => {
+            if (event.type === 'complete') controller.abort();
+        },
+    });
+    await assert.rejects(generation, SpeechGenerationCancelledError);
+    assert.ok(provider.calls.length < 6, `${provider.calls.length} requests were made`);
+    assert.equal(provider.inFlight, 0);
+}));
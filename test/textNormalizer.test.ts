@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TextNormalizer, cardinalWords, ordinalWords, yearWords } from '../textNormalizer';
+import { DocumentProcessor } from '../documentProcessor';
+
+function expands(cases: Array<[string, string]>) {
+    for (const [text, expected] of cases) {
+        assert.equal(TextNormalizer.expandNumbers(text), expected, text);
+    }
+}
+
+test('numbers, ordinals and years are spelled out', () => {
+    assert.equal(cardinalWords('1,234,567'), 'one million two hundred thirty-four thousand five hundred sixty-seven');
+    assert.equal(ordinalWords('21'), 'twenty-first');
+    assert.equal(yearWords(1905), 'nineteen oh five');
+    assert.equal(yearWords(2008), 'two thousand eight');
+    expands([
+        ['Pi is 3.14, not -5.', 'Pi is three point one four, not minus five.'],
+        ['It costs $1.2M.', 'It costs one point two million dollars.'],
+        ['Due 2024-03-15.', 'Due March fifteenth, twenty twenty-four.'],
+        ['Founded in 1999.', 'Founded in nineteen ninety-nine.'],
+        ['Revenue in Q3 2023 grew.', 'Revenue in Q3 twenty twenty-three grew.'],
+    ]);
+});
+
+test('decimals followed by more digits or letters are not split', () => {
+    expands([
+        ['It is 2.5x faster.', 'It is two point five times faster.'],
+        ['Version 2.0.1 is out.', 'Version two point zero point one is out.'],
+        ['Install v1.2.3 now.', 'Install version one point two point three now.'],
+    ]);
+});
+
+test('heights in feet and inches', () => {
+    expands([
+        ['He is 6 ft 2 in tall.', 'He is six feet two inches tall.'],
+        ['She is 5\'4" tall.', 'She is five feet four inches tall.'],
+        ['A 1 ft 1 in gap.', 'A one foot one inch gap.'],
+    ]);
+});
+
+test('percentage ranges read the dash as "to", not as a minus sign', () => {
+    expands([
+        ['A 20-30% drop.', 'A twenty to thirty percent drop.'],
+        ['Expect 5-10%.', 'Expect five to ten percent.'],
+        ['Between 1.5% – 2% a year.', 'Between one point five to two percent a year.'],
+        ['It fell -5% today.', 'It fell minus five percent today.'],
+    ]);
+});
+
+test('Roman numerals are only read in explicit contexts', () => {
+    expands([
+        ['Chapter IV begins.', 'Chapter four begins.'],
+        ['After World War II ended.', 'After World War two ended.'],
+        ['Henry VIII had six wives.', 'Henry the eighth had six wives.'],
+        ['Pope John Paul II visited.', 'Pope John Paul the second visited.'],
+        ['She lives in Washington DC now.', 'She lives in Washington DC now.'],
+        ['Burn a Mix CD today.', 'Burn a Mix CD today.'],
+        ['Send your CV to the MD.', 'Send your CV to the MD.'],
+        ['Ask Smith XL about it.', 'Ask Smith XL about it.'],
+    ]);
+});
+
+test('punctuation is only added when asked for, and only at headings, list items and paragraph ends', () => {
+    const text = '# Title\nThis sentence is hard\nwrapped in the middle\n\n- first item\n- second item\n\nLast line';
+    assert.equal(DocumentProcessor.preprocessText(text),
+        'Title\nThis sentence is hard\nwrapped in the middle\n\nfirst item\nsecond item\n\nLast line');
+    assert.equal(DocumentProcessor.preprocessText(text, { addPunctuation: true }),
+        'Title.\nThis sentence is hard\nwrapped in the middle.\n\nfirst item.\nsecond item.\n\nLast line');
+    assert.equal(TextNormalizer.addPunctuation('Already done!\n\n- Item:\n'), 'Already done!\n\n- Item:\n');
+});
@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ChatClient, ChatMessage, ChatRequestOptions } from '../chatClient';
+import { SUMMARY_PRESETS, TextSummarizer, isSummaryLength } from '../textSummarizer';
+
+interface ChatRequest {
+    system: string;
+    text: string;
+    options: ChatRequestOptions;
+}
+
+// A chat client answering each request with "reply", recording what it was asked
+function fakeChat(requests: ChatRequest[], reply: (text: string) => string): ChatClient {
+    return {
+        async complete(messages: ChatMessage[], options: ChatRequestOptions = {}) {
+            const request = { system: messages[0].content, text: messages[1].content, options };
+            requests.push(request);
+            return reply(request.text);
+        },
+    } as unknown as ChatClient;
+}
+
+async function quietly<T>(run: () => Promise<T>): Promise<T> {
+    const { log } = console;
+    console.log = () => undefined;
+    try {
+        return await run();
+    } finally {
+        console.log = log;
+    }
+}
+
+// Paragraphs of about 1,000 characters
+function document(paragraphs: number): string {
+    return Array.from({ length: paragraphs }, (_, i) => `Section ${i + 1}. ${'Findings were recorded. '.repeat(40).trim()}`).join('\n\n');
+}
+
+test('short documents are summarized in a single request of the preset\'s length', async () => {
+    const requests: ChatRequest[] = [];
+    const summarizer = new TextSummarizer('', fakeChat(requests, () => ' The summary. '));
+    const summary = await quietly(() => summarizer.summarizeDocument(document(3), 'brief'));
+    assert.equal(summary, 'The summary.');
+    assert.equal(requests.length, 1);
+    assert.match(requests[0].system, new RegExp(`about ${SUMMARY_PRESETS.brief.words} words`));
+    assert.equal(requests[0].options.maxTokens, SUMMARY_PRESETS.brief.words * 2 + 200);
+});
+
+test('long documents are summarized piece by piece and the piece summaries combined', async () => {
+    const requests: ChatRequest[] = [];
+    const controller = new AbortController();
+    const summarizer = new TextSummarizer('', fakeChat(requests, text => `Summary of ${text.slice(0, 10)}`));
+    const summary = await quietly(() => summarizer.summarizeDocument(document(30), 'detailed', { signal: controller.signal }));
+
+    const pieces = requests.slice(0, -1);
+    const final = requests[requests.length - 1];
+    assert.equal(pieces.length, 3);
+    for (const piece of pieces) {
+        assert.ok(piece.text.length <= 12000);
+        assert.match(piece.system, /at most 250 words/);
+    }
+    assert.equal(final.text, pieces.map(piece => `Summary of ${piece.text.slice(0, 10)}`).join('\n\n'));
+    assert.match(final.system, /about 750 words of plain, flowing prose/);
+    assert.ok(requests.every(request => request.options.signal === controller.signal));
+    assert.equal(summary, 'Summary of Summary of');
+});
+
+test('a model that does not condense ends the map rounds instead of looping', async () => {
+    const requests: ChatRequest[] = [];
+    const summarizer = new TextSummarizer('', fakeChat(requests, text => text));
+    await quietly(() => summarizer.summarizeDocument(document(30)));
+    // One round of pieces, then the final summary
+    assert.equal(requests.length, 4);
+});
+
+test('summary lengths are the presets', () => {
+    assert.equal(isSummaryLength('standard'), true);
+    assert.equal(isSummaryLength('epic'), false);
+    assert.equal(isSummaryLength('constructor'), false);
+});
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ChatClient, ChatMessage, ChatRequestOptions } from '../chatClient';
+import { findLanguage, languageInstructions } from '../languages';
+import { Translator } from '../translator';
+
+// A chat client that "translates" by upper-casing, recording each request
+function fakeChat(requests: Array<{ messages: ChatMessage[]; options: ChatRequestOptions }>): ChatClient {
+    return {
+        async complete(messages: ChatMessage[], options: ChatRequestOptions = {}) {
+            requests.push({ messages, options });
+            return ` ${messages[messages.length - 1].content.toUpperCase()} `;
+        },
+    } as unknown as ChatClient;
+}
+
+async function quietly<T>(run: () => Promise<T>): Promise<T> {
+    const { log } = console;
+    console.log = () => undefined;
+    try {
+        return await run();
+    } finally {
+        console.log = log;
+    }
+}
+
+test('long documents are translated in chunks that keep their paragraph and line breaks', async () => {
+    const requests: Array<{ messages: ChatMessage[]; options: ChatRequestOptions }> = [];
+    const translator = new Translator('', fakeChat(requests));
+    const paragraph = (word: string) => `${word} `.repeat(400).trim();
+    const text = `${paragraph('one')}\n\n${paragraph('two')}\n${paragraph('three')}`;
+    const controller = new AbortController();
+
+    const translated = await quietly(() => translator.translateDocument(text, findLanguage('es')!, { signal: controller.signal }));
+    assert.equal(translated, `${paragraph('ONE')}\n\n${paragraph('TWO')}\n${paragraph('THREE')}`);
+    assert.equal(requests.length, 3);
+    for (const request of requests) {
+        assert.ok(request.messages[1].content.length <= 3000);
+        assert.match(request.messages[0].content, /to Spanish\. Keep every paragraph break/);
+        assert.equal(request.options.signal, controller.signal);
+    }
+});
+
+test('short texts are translated in one request', async () => {
+    const requests: Array<{ messages: ChatMessage[]; options: ChatRequestOptions }> = [];
+    const translated = await quietly(() => new Translator('', fakeChat(requests)).translateDocument('Hello.\n\nBye.', findLanguage('fr')!));
+    assert.equal(translated, 'HELLO.\n\nBYE.');
+    assert.equal(requests.length, 1);
+});
+
+test('languages are found by code or name, with narration instructions to match', () => {
+    assert.equal(findLanguage('ES')?.name, 'Spanish');
+    assert.equal(findLanguage(' haitian creole ')?.code, 'ht');
+    assert.equal(findLanguage('Klingon'), undefined);
+    assert.equal(findLanguage(42), undefined);
+    assert.equal(languageInstructions(findLanguage('pt')!),
+        'Speak in natural, native-sounding Portuguese with a Brazilian accent. Pronounce names and places as a native Portuguese speaker would.');
+    assert.match(languageInstructions(findLanguage('de')!), /^Speak in natural, native-sounding German\./);
+});
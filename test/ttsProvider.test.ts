@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { LocalTtsProvider } from '../localTtsProvider';
+import { OpenAIClient, OpenAIError } from '../openaiClient';
+import { createTtsProvider } from '../ttsProvider';
+import { PCM_SAMPLE_RATE, parseWav } from '../audioUtils';
+
+interface ReceivedRequest {
+    url?: string;
+    headers: http.IncomingHttpHeaders;
+    body: any;
+}
+
+// An OpenAI-compatible speech endpoint on a free local port; "reply" answers each request
+async function withServer(reply: (req: ReceivedRequest, res: http.ServerResponse) => void,
+                          run: (baseUrl: string, received: ReceivedRequest[]) => Promise<void>) {
+    const received: ReceivedRequest[] = [];
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', data => body += data);
+        req.on('end', () => {
+            const request = { url: req.url, headers: req.headers, body: JSON.parse(body) };
+            received.push(request);
+            reply(request, res);
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { log, error } = console;
+    console.log = console.error = () => undefined;
+    try {
+        await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`, received);
+    } finally {
+        Object.assign(console, { log, error });
+        await new Promise(resolve => server.close(resolve));
+    }
+}
+
+async function openAIErrorOf(run: () => Promise<unknown>): Promise<OpenAIError> {
+    try {
+        await run();
+    } catch (error) {
+        if (error instanceof OpenAIError) return error;
+        throw error;
+    }
+    assert.fail('expected an OpenAIError');
+}
+
+test('TTS_PROVIDER selects the provider', () => {
+    const configured = process.env.TTS_PROVIDER;
+    try {
+        process.env.TTS_PROVIDER = 'local';
+        assert.ok(createTtsProvider('') instanceof LocalTtsProvider);
+        process.env.TTS_PROVIDER = 'OpenAI';
+        assert.equal(createTtsProvider('sk-test').name, 'openai');
+        process.env.TTS_PROVIDER = 'elsewhere';
+        assert.throws(() => createTtsProvider('sk-test'), /Unknown TTS_PROVIDER "elsewhere"/);
+    } finally {
+        if (configured === undefined) delete process.env.TTS_PROVIDER;
+        else process.env.TTS_PROVIDER = configured;
+    }
+});
+
+test('a compatible endpoint is called without a key when none is set', () => withServer((req, res) => {
+    res.writeHead(200, { 'Content-Type': 'audio/mpeg' }).end('audio bytes');
+}, async (baseUrl, received) => {
+    const client = new OpenAIClient('', { baseUrl, model: 'local-tts' });
+    const audio = await client.generateSpeech('Hello', 'nova', 'Calm.', {}, 'wav');
+    assert.equal(audio.toString(), 'audio bytes');
+    assert.equal(received[0].url, '/v1/audio/speech');
+    assert.equal(received[0].headers.authorization, undefined);
+    assert.deepEqual(received[0].body, { model: 'local-tts', input: 'Hello', voice: 'nova', instructions: 'Calm.', response_format: 'wav' });
+    assert.throws(() => new OpenAIClient(''), /API key is missing/);
+}));
+
+test('speed is sent as the API parameter and pitch is asked for in the instructions', () => withServer((req, res) => {
+    res.writeHead(200).end('audio');
+}, async (baseUrl, received) => {
+    const client = new OpenAIClient('sk-test', { baseUrl });
+    await client.generateSpeech('Hello', 'alloy', 'Calm.', { speed: 1.5, pitch: 3, volume: 2 }, 'mp3');
+    await client.generateSpeech('Hello', 'alloy', 'Calm.', { pitch: -2 }, 'mp3');
+    assert.equal(received[0].headers.authorization, 'Bearer sk-test');
+    assert.equal(received[0].body.speed, 1.5);
+    assert.equal(received[0].body.instructions, 'Calm. Use a higher pitch.');
+    assert.equal('volume' in received[0].body, false);
+    assert.equal('speed' in received[1].body, false);
+    assert.equal(received[1].body.instructions, 'Calm. Use a lower pitch.');
+}));
+
+test('rate limits are reported with the server\'s Retry-After', () => withServer((req, res) => {
+    res.writeHead(429, { 'Retry-After': '7' }).end('slow down');
+}, async baseUrl => {
+    const error = await openAIErrorOf(() => new OpenAIClient('sk-test', { baseUrl }).generateSpeech('Hello'));
+    assert.equal(error.statusCode, 429);
+    assert.equal(error.errorCode, 'RATE_LIMIT_EXCEEDED');
+    assert.equal(error.retryAfterMs, 7000);
+}));
+
+test('the local provider returns silence as long as the text would take to read', async () => {
+    const provider = new LocalTtsProvider();
+    const { log } = console;
+    console.log = () => undefined;
+    try {
+        const text = 'x'.repeat(140);
+        assert.equal(LocalTtsProvider.estimateDurationMs(text), 10000);
+        assert.equal(LocalTtsProvider.estimateDurationMs(text, 2), 5000);
+        assert.equal(LocalTtsProvider.estimateDurationMs('Hi'), 500);
+
+        const wav = parseWav(await provider.generateSpeech(text, 'alloy', '', { speed: 2 }, 'wav'));
+        assert.equal(wav?.format.sampleRate, PCM_SAMPLE_RATE);
+        assert.equal(wav?.data.length, PCM_SAMPLE_RATE * 5 * 2);
+        assert.ok(wav?.data.every(byte => byte === 0));
+
+        assert.equal((await openAIErrorOf(() => provider.generateSpeech(text, 'alloy', '', {}, 'opus'))).errorCode, 'UNSUPPORTED_FORMAT');
+        const controller = new AbortController();
+        controller.abort();
+        const cancelled = await openAIErrorOf(() => provider.generateSpeech(text, 'alloy', '', {}, 'mp3', { signal: controller.signal }));
+        assert.equal(cancelled.errorCode, 'REQUEST_CANCELLED');
+    } finally {
+        console.log = log;
+    }
+});
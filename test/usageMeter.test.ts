@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryUsageCounterStore, QuotaExceededError, QuotaLimits, UsageMeter } from '../usageMeter';
+
+const NO_LIMITS: QuotaLimits = { userDaily: null, userMonthly: null, globalDaily: null, globalMonthly: null };
+const AT = new Date('2024-03-15T12:00:00.000Z');
+
+test('reservations count against the user and global quotas', async () => {
+    const meter = new UsageMeter(new MemoryUsageCounterStore(), 'tts-1', { ...NO_LIMITS, userDaily: 100 });
+    await meter.reserve('alice', 60, AT);
+    await meter.reserve('bob', 30, AT);
+
+    const usage = await meter.usage('alice', AT);
+    assert.equal(usage.day?.used, 60);
+    assert.equal(usage.day?.remaining, 40);
+    assert.equal(usage.day?.resetsAt, '2024-03-16T00:00:00.000Z');
+    assert.equal(usage.month?.remaining, null);
+    assert.equal(usage.month?.resetsAt, '2024-04-01T00:00:00.000Z');
+    assert.equal(usage.global.day?.used, 90);
+    assert.equal((await meter.usage(null, AT)).day, undefined);
+});
+
+test('a reservation past a limit is rejected and counts nothing', async () => {
+    const meter = new UsageMeter(new MemoryUsageCounterStore(), 'tts-1', { ...NO_LIMITS, userDaily: 100, globalMonthly: 150 });
+    await meter.reserve('alice', 80, AT);
+
+    await assert.rejects(meter.reserve('alice', 30, AT), (error: QuotaExceededError) => {
+        assert.equal(error.statusCode, 429);
+        assert.equal(error.errorCode, 'QUOTA_EXCEEDED');
+        assert.deepEqual(error.quota, {
+            scope: 'user', period: 'day', limit: 100, used: 80, remaining: 20, resetsAt: '2024-03-16T00:00:00.000Z', requested: 30,
+        });
+        return true;
+    });
+    await assert.rejects(meter.reserve('bob', 80, AT), (error: QuotaExceededError) => error.quota.scope === 'global' && error.quota.period === 'month');
+
+    const usage = await meter.usage('alice', AT);
+    assert.equal(usage.day?.used, 80);
+    assert.equal(usage.global.month?.used, 80);
+    assert.equal((await meter.usage('bob', AT)).day?.used, 0);
+    await meter.reserve('alice', 20, AT);
+});
+
+test('refunds go back to the period the characters were reserved in', async () => {
+    const meter = new UsageMeter(new MemoryUsageCounterStore(), 'tts-1', { ...NO_LIMITS, userDaily: 100 });
+    await meter.reserve('alice', 100, AT);
+    const nextDay = new Date('2024-03-16T09:00:00.000Z');
+    await meter.reserve('alice', 50, nextDay);
+
+    await meter.refund('alice', 100, AT);
+    assert.equal((await meter.usage('alice', AT)).day?.used, 0);
+    const usage = await meter.usage('alice', nextDay);
+    assert.equal(usage.day?.used, 50);
+    assert.equal(usage.month?.used, 50);
+});
+
+test('costs are estimated from the model price', () => {
+    const original = process.env.TTS_PRICE_PER_MILLION_CHARACTERS;
+    delete process.env.TTS_PRICE_PER_MILLION_CHARACTERS;
+    try {
+        assert.equal(new UsageMeter(new MemoryUsageCounterStore(), 'tts-1-hd', NO_LIMITS).estimateCost(1000), 0.03);
+        assert.equal(new UsageMeter(new MemoryUsageCounterStore(), 'unknown', NO_LIMITS).estimateCost(1000), 0);
+        process.env.TTS_PRICE_PER_MILLION_CHARACTERS = '10';
+        const meter = new UsageMeter(new MemoryUsageCounterStore(), 'tts-1', NO_LIMITS);
+        assert.deepEqual(meter.pricing, { model: 'tts-1', pricePerMillionCharacters: 10 });
+        assert.equal(meter.estimateCost(12345), 0.1235);
+    } finally {
+        if (original === undefined) delete process.env.TTS_PRICE_PER_MILLION_CHARACTERS;
+        else process.env.TTS_PRICE_PER_MILLION_CHARACTERS = original;
+    }
+});
@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileUserStore, UserAccounts, credentialVersion } from '../userAccounts';
+
+test('changing the password changes the credential version', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'accounts-'));
+    try {
+        const accounts = new UserAccounts(new FileUserStore(path.join(dir, 'users.json')));
+        const user = await accounts.create({ username: 'alice', password: 'first-password' });
+        const before = credentialVersion(user);
+        assert.equal(before, user.createdAt);
+
+        await new Promise(resolve => setTimeout(resolve, 5));
+        const changed = await accounts.setPassword(user.id, 'second-password');
+        assert.notEqual(credentialVersion(changed), before);
+        assert.equal(credentialVersion((await accounts.get(user.id))!), credentialVersion(changed));
+        assert.equal(await accounts.authenticate('alice', 'first-password'), null);
+        assert.equal((await accounts.authenticate('alice', 'second-password'))?.id, user.id);
+    } finally {
+        await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as zlib from 'zlib';
+import { MAX_ENTRY_BYTES, ZipArchive, ZipError } from '../zipArchive';
+
+// A single-entry archive; "declaredSize" overrides the uncompressed size written into the headers
+function zip(name: string, content: Buffer, declaredSize: number = content.length): Buffer {
+    const data = zlib.deflateRawSync(content);
+    const nameBytes = Buffer.from(name);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(declaredSize, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(declaredSize, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(0, 42);
+    const centralOffset = local.length + nameBytes.length + data.length;
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(1, 8);
+    end.writeUInt16LE(1, 10);
+    end.writeUInt32LE(central.length + nameBytes.length, 12);
+    end.writeUInt32LE(centralOffset, 16);
+    return Buffer.concat([local, nameBytes, data, central, nameBytes, end]);
+}
+
+function zipErrorCode(read: () => unknown): string | undefined {
+    try {
+        read();
+    } catch (error) {
+        assert.ok(error instanceof ZipError);
+        return error.errorCode;
+    }
+    return undefined;
+}
+
+test('reads a deflated entry', () => {
+    const archive = new ZipArchive(zip('word/document.xml', Buffer.from('<w:t>Hello</w:t>')));
+    assert.equal(archive.readText('word/document.xml'), '<w:t>Hello</w:t>');
+});
+
+test('refuses entries that declare more than the limit before inflating them', () => {
+    const archive = new ZipArchive(zip('big.xml', Buffer.from('x'), MAX_ENTRY_BYTES + 1));
+    assert.equal(zipErrorCode(() => archive.read('big.xml')), 'ENTRY_TOO_LARGE');
+});
+
+test('stops inflating entries that are larger than they declare', () => {
+    const archive = new ZipArchive(zip('bomb.xml', Buffer.alloc(1024 * 1024), 100));
+    assert.equal(zipErrorCode(() => archive.read('bomb.xml')), 'ENTRY_TOO_LARGE');
+});
@@ -0,0 +1,446 @@
+// Rewrites text the way a narrator would read it: numbers, money, dates, times, units, abbreviations,
+// URLs and symbols become words. English only; every pass is a plain string-to-string function.
+
+const ONES = [
+    'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+    'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES = ['', 'thousand', 'million', 'billion', 'trillion', 'quadrillion'];
+
+const IRREGULAR_ORDINALS: Record<string, string> = {
+    one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth',
+};
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const MONTH_PATTERN = '(Jan(?:uary|\\.)?|Feb(?:ruary|\\.)?|Mar(?:ch|\\.)?|Apr(?:il|\\.)?|May|June?\\.?|July?\\.?|Aug(?:ust|\\.)?|Sept?(?:ember|\\.)?|Oct(?:ober|\\.)?|Nov(?:ember|\\.)?|Dec(?:ember|\\.)?)';
+
+const CURRENCIES: Record<string, { one: string; many: string; subunit?: [string, string] }> = {
+    '$': { one: 'dollar', many: 'dollars', subunit: ['cent', 'cents'] },
+    '€': { one: 'euro', many: 'euros', subunit: ['cent', 'cents'] },
+    '£': { one: 'pound', many: 'pounds', subunit: ['penny', 'pence'] },
+    '¥': { one: 'yen', many: 'yen' },
+    '₹': { one: 'rupee', many: 'rupees', subunit: ['paisa', 'paise'] },
+};
+
+const MAGNITUDES: Record<string, string> = {
+    k: 'thousand', thousand: 'thousand', m: 'million', mm: 'million', million: 'million',
+    b: 'billion', bn: 'billion', billion: 'billion', t: 'trillion', tn: 'trillion', trillion: 'trillion',
+};
+
+// Unit symbol -> [singular, plural]. Single-letter units are only read as units when attached to the number ("5m").
+const UNITS: Record<string, [string, string]> = {
+    'km/h': ['kilometer per hour', 'kilometers per hour'],
+    'mph': ['mile per hour', 'miles per hour'],
+    'kph': ['kilometer per hour', 'kilometers per hour'],
+    '°C': ['degree Celsius', 'degrees Celsius'],
+    '°F': ['degree Fahrenheit', 'degrees Fahrenheit'],
+    '°': ['degree', 'degrees'],
+    'mm': ['millimeter', 'millimeters'],
+    'cm': ['centimeter', 'centimeters'],
+    'km': ['kilometer', 'kilometers'],
+    'mi': ['mile', 'miles'],
+    'ft': ['foot', 'feet'],
+    'mg': ['milligram', 'milligrams'],
+    'kg': ['kilogram', 'kilograms'],
+    'lb': ['pound', 'pounds'],
+    'lbs': ['pound', 'pounds'],
+    'oz': ['ounce', 'ounces'],
+    'ml': ['milliliter', 'milliliters'],
+    'mL': ['milliliter', 'milliliters'],
+    'KB': ['kilobyte', 'kilobytes'],
+    'MB': ['megabyte', 'megabytes'],
+    'GB': ['gigabyte', 'gigabytes'],
+    'TB': ['terabyte', 'terabytes'],
+    'Hz': ['hertz', 'hertz'],
+    'kHz': ['kilohertz', 'kilohertz'],
+    'MHz': ['megahertz', 'megahertz'],
+    'GHz': ['gigahertz', 'gigahertz'],
+    'kW': ['kilowatt', 'kilowatts'],
+    'kWh': ['kilowatt hour', 'kilowatt hours'],
+    'mAh': ['milliamp hour', 'milliamp hours'],
+    'ms': ['millisecond', 'milliseconds'],
+    'hrs': ['hour', 'hours'],
+    'hr': ['hour', 'hours'],
+    'min': ['minute', 'minutes'],
+    'm': ['meter', 'meters'],
+    'g': ['gram', 'grams'],
+    'L': ['liter', 'liters'],
+    'W': ['watt', 'watts'],
+    'V': ['volt', 'volts'],
+};
+const SINGLE_LETTER_UNITS = new Set(['m', 'g', 'L', 'W', 'V', '°']);
+
+// Abbreviation -> expansion. Titles come before a name and never end a sentence.
+const TITLE_ABBREVIATIONS: Record<string, string> = {
+    'Dr.': 'Doctor', 'Mr.': 'Mister', 'Mrs.': 'Missus', 'Ms.': 'Miz', 'Prof.': 'Professor',
+    'Rev.': 'Reverend', 'Hon.': 'Honorable', 'Gen.': 'General', 'Capt.': 'Captain', 'Lt.': 'Lieutenant',
+    'Col.': 'Colonel', 'Sgt.': 'Sergeant', 'Sen.': 'Senator', 'Rep.': 'Representative', 'Gov.': 'Governor',
+    'Pres.': 'President', 'Mt.': 'Mount', 'Ft.': 'Fort',
+};
+const ABBREVIATIONS: Record<string, string> = {
+    'e.g.': 'for example', 'i.e.': 'that is', 'etc.': 'et cetera', 'vs.': 'versus', 'vs': 'versus',
+    'et al.': 'and others', 'a.k.a.': 'also known as', 'approx.': 'approximately', 'ca.': 'circa',
+    'cf.': 'compare', 'viz.': 'namely', 'dept.': 'department', 'Dept.': 'Department', 'est.': 'estimated',
+    'fig.': 'figure', 'Fig.': 'Figure', 'vol.': 'volume', 'Vol.': 'Volume', 'ch.': 'chapter', 'Ch.': 'Chapter',
+    'Jr.': 'Junior', 'Sr.': 'Senior', 'Inc.': 'Incorporated', 'Ltd.': 'Limited', 'Co.': 'Company',
+    'Corp.': 'Corporation', 'Ave.': 'Avenue', 'Blvd.': 'Boulevard', 'Rd.': 'Road', 'Ln.': 'Lane',
+    'Jan.': 'January', 'Feb.': 'February', 'Mar.': 'March', 'Apr.': 'April', 'Aug.': 'August',
+    'Sep.': 'September', 'Sept.': 'September', 'Oct.': 'October', 'Nov.': 'November', 'Dec.': 'December',
+    'Mon.': 'Monday', 'Tue.': 'Tuesday', 'Tues.': 'Tuesday', 'Wed.': 'Wednesday', 'Thu.': 'Thursday',
+    'Thurs.': 'Thursday', 'Fri.': 'Friday', 'Sat.': 'Saturday', 'Sun.': 'Sunday',
+    'w/o': 'without', 'w/': 'with',
+};
+// Abbreviations that never end a sentence, so a capital after them does not mean a new one
+const MID_SENTENCE_ABBREVIATIONS = new Set(['e.g.', 'i.e.', 'vs.', 'cf.', 'viz.', 'a.k.a.', 'approx.', 'ca.']);
+// Read as a word only before a number: "No. 5", "p. 12", "pp. 4-9"
+const NUMBER_ABBREVIATIONS: Record<string, string> = {
+    'No.': 'number', 'no.': 'number', 'Nos.': 'numbers', 'p.': 'page', 'pp.': 'pages', '#': 'number',
+};
+
+// Words after which a Roman numeral is a plain number ("Chapter IV", "World War II")
+const ROMAN_NUMBER_CONTEXT = /\b(chapter|part|volume|vol\.|book|act|scene|section|phase|stage|war|level|season|episode|article|appendix|unit|lesson|psalm|type|class|grade)\s+$/i;
+// Names after which a Roman numeral is a regnal number ("Henry VIII" -> "Henry the eighth"). Any other capitalized
+// word is not enough: "Washington DC" and "Mix CD" are acronyms.
+const REGNAL_NAMES = new Set([
+    'Alexander', 'Alfonso', 'Anne', 'Benedict', 'Boniface', 'Carl', 'Carlos', 'Catherine', 'Charles', 'Christian',
+    'Clement', 'Constantine', 'Edward', 'Elizabeth', 'Felipe', 'Ferdinand', 'Francis', 'Frederick', 'George', 'Gregory',
+    'Gustav', 'Harald', 'Henri', 'Henry', 'Innocent', 'Ivan', 'James', 'John', 'Leo', 'Louis', 'Ludwig', 'Mary',
+    'Napoleon', 'Nicholas', 'Olav', 'Otto', 'Paul', 'Peter', 'Philip', 'Pius', 'Ramesses', 'Richard', 'Stephen',
+    'Urban', 'Wilhelm', 'William',
+]);
+// Valid Roman numerals that are far more often acronyms; never read as numbers
+const ROMAN_ACRONYMS = new Set(['CC', 'CD', 'CM', 'CV', 'DC', 'DCC', 'DM', 'LC', 'LCD', 'LX', 'MC', 'MD', 'MDC', 'MM', 'MIX', 'XL', 'XXL', 'XXX']);
+const ROMAN_VALUES: Record<string, number> = { I: 1, V: 5, X: 10, L: 50, C: 100, D: 500, M: 1000 };
+
+// Words before a four-digit number that make it a year ("in 1999", "since 2008")
+const YEAR_CONTEXT = /\b(in|since|from|by|until|till|through|during|of|year|circa|around|before|after|early|late|mid|spring|summer|autumn|fall|winter|q[1-4]|h[12]|fy)\s+$/i;
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+function endsSentence(after: string): boolean {
+    return /^(\s*$|\s+[A-Z"“])/.test(after);
+}
+
+function below1000(n: number): string {
+    const hundreds = Math.floor(n / 100);
+    const rest = n % 100;
+    const words: string[] = [];
+    if (hundreds) words.push(`${ONES[hundreds]} hundred`);
+    if (rest >= 20) {
+        words.push(TENS[Math.floor(rest / 10)] + (rest % 10 ? `-${ONES[rest % 10]}` : ''));
+    } else if (rest > 0 || words.length === 0) {
+        words.push(ONES[rest]);
+    }
+    return words.join(' ');
+}
+
+// Integer (given as a digit string, so large values keep their precision) in words
+export function cardinalWords(digits: string): string {
+    const negative = digits.startsWith('-');
+    const clean = digits.replace(/^[-+]/, '').replace(/,/g, '').replace(/^0+(?=\d)/, '');
+    if (clean.length > SCALES.length * 3) {
+        return (negative ? 'minus ' : '') + digitWords(clean);
+    }
+    const groups: number[] = [];
+    for (let end = clean.length; end > 0; end -= 3) {
+        groups.unshift(parseInt(clean.slice(Math.max(0, end - 3), end), 10));
+    }
+    const words: string[] = [];
+    groups.forEach((group, index) => {
+        const scale = SCALES[groups.length - 1 - index];
+        if (group > 0) words.push(below1000(group) + (scale ? ` ${scale}` : ''));
+    });
+    return (negative ? 'minus ' : '') + (words.join(' ') || 'zero');
+}
+
+export function ordinalWords(digits: string): string {
+    const words = cardinalWords(digits);
+    const match = /^(.*?)([a-z]+)$/.exec(words);
+    if (!match) return words;
+    const [, head, last] = match;
+    if (IRREGULAR_ORDINALS[last]) return head + IRREGULAR_ORDINALS[last];
+    if (last.endsWith('y')) return `${head}${last.slice(0, -1)}ieth`;
+    return `${head}${last}th`;
+}
+
+// Each digit on its own: "2024" -> "two zero two four"
+export function digitWords(digits: string): string {
+    return [...digits.replace(/\D/g, '')].map(digit => ONES[Number(digit)]).join(' ');
+}
+
+// Numbers with an optional fractional part: "3.14" -> "three point one four"
+export function numberWords(value: string): string {
+    const [whole, fraction] = value.replace(/,/g, '').split('.');
+    const wholeWords = whole === '' || whole === '-' ? (whole === '-' ? 'minus zero' : 'zero') : cardinalWords(whole);
+    return fraction ? `${wholeWords} point ${digitWords(fraction)}` : wholeWords;
+}
+
+// Years are read in pairs: 1999 -> "nineteen ninety-nine", 1905 -> "nineteen oh five", 2008 -> "two thousand eight"
+export function yearWords(year: number): string {
+    if (year < 1000 || year > 9999) return cardinalWords(String(year));
+    const high = Math.floor(year / 100);
+    const low = year % 100;
+    if (year % 1000 < 10 && high % 10 === 0) return cardinalWords(String(year));
+    if (low === 0) return `${cardinalWords(String(high))} hundred`;
+    if (low < 10) return `${cardinalWords(String(high))} oh ${ONES[low]}`;
+    return `${cardinalWords(String(high))} ${cardinalWords(String(low))}`;
+}
+
+function plural(word: string): string {
+    if (word.endsWith('y')) return `${word.slice(0, -1)}ies`;
+    if (word.endsWith('s') || word.endsWith('x')) return `${word}es`;
+    return `${word}s`;
+}
+
+function isOne(value: string): boolean {
+    return /^-?1(\.0+)?$/.test(value.replace(/,/g, ''));
+}
+
+function monthName(value: string): string | undefined {
+    const prefix = value.replace('.', '').slice(0, 3).toLowerCase();
+    return MONTHS.find(month => month.slice(0, 3).toLowerCase() === prefix);
+}
+
+function dateWords(month: number, day: number, year?: number): string | null {
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    return `${MONTHS[month - 1]} ${ordinalWords(String(day))}` + (year !== undefined ? `, ${yearWords(year)}` : '');
+}
+
+function romanValue(numeral: string): number | null {
+    if (!/^M{0,3}(CM|CD|D?C{0,3})(XC|XL|L?X{0,3})(IX|IV|V?I{0,3})$/.test(numeral)) return null;
+    let total = 0;
+    for (let i = 0; i < numeral.length; i++) {
+        const value = ROMAN_VALUES[numeral[i]];
+        const next = ROMAN_VALUES[numeral[i + 1]] || 0;
+        total += value < next ? -value : value;
+    }
+    return total || null;
+}
+
+export class TextNormalizer {
+    // URLs and email addresses spelled the way people say them
+    static expandUrlsAndEmails(text: string): string {
+        const speakAddress = (address: string) => address
+            .replace(/\/+$/, '')
+            .split(/([./@:_-])/)
+            .map(part => ({ '.': ' dot ', '/': ' slash ', '@': ' at ', ':': ' colon ', '_': ' underscore ', '-': ' dash ' } as Record<string, string>)[part] ?? part)
+            .join('')
+            .replace(/\s+/g, ' ')
+            .trim();
+
+        return text
+            .replace(/\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g, email => speakAddress(email))
+            .replace(/\b(?:https?:\/\/|www\.)[^\s<>"')\]]*[^\s<>"')\].,;:!?]/gi, url =>
+                speakAddress(url.replace(/^https?:\/\//i, '').replace(/^www\./i, 'w w w.')));
+    }
+
+    // Symbols a voice would otherwise skip or misread
+    static replaceSymbols(text: string): string {
+        return text
+            .replace(/\s&\s/g, ' and ')
+            .replace(/(\d)\s*×\s*(\d)/g, '$1 times $2')
+            .replace(/\s*±\s*/g, ' plus or minus ')
+            .replace(/(^|\s)~\s?(?=\d)/g, '$1approximately ')
+            .replace(/\s+\+\s+/g, ' plus ')
+            .replace(/\s+=\s+/g, ' equals ')
+            .replace(/\s*(?:->|→)\s*/g, ' to ')
+            .replace(/…/g, '...');
+    }
+
+    static expandAbbreviations(text: string): string {
+        let result = text;
+        for (const [abbreviation, expansion] of Object.entries(TITLE_ABBREVIATIONS)) {
+            result = result.replace(new RegExp(`(?<![\\w.])${escapeRegExp(abbreviation)}(?=\\s)`, 'g'), expansion);
+        }
+        // "St." is Street after a name ("Main St.") and Saint before one ("St. Louis")
+        result = result.replace(/(?<![\w.])St\.(?!\w)/g, (match, offset: number, whole: string) => {
+            const after = whole.slice(offset + match.length);
+            const name = /(\S+)\s+[A-Z][a-z]+\s+$/.exec(whole.slice(0, offset)); // a capitalized word mid-sentence
+            const afterName = !!name && !/[.!?]$/.test(name[1]);
+            if (!afterName && /^\s+[A-Z]/.test(after)) return 'Saint';
+            return endsSentence(after) ? 'Street.' : 'Street';
+        });
+        for (const [abbreviation, expansion] of Object.entries(NUMBER_ABBREVIATIONS)) {
+            result = result.replace(new RegExp(`(?<![\\w.])${escapeRegExp(abbreviation)}\\s?(?=\\d)`, 'g'), `${expansion} `);
+        }
+        for (const [abbreviation, expansion] of Object.entries(ABBREVIATIONS)) {
+            const pattern = new RegExp(`(?<![\\w.])${escapeRegExp(abbreviation)}(?![\\w])`, 'g');
+            result = result.replace(pattern, (match, offset: number, whole: string) => {
+                // Keep the full stop when the abbreviation also ended the sentence
+                const final = match.endsWith('.') && !MID_SENTENCE_ABBREVIATIONS.has(match) && endsSentence(whole.slice(offset + match.length));
+                return expansion + (final ? '.' : '');
+            });
+        }
+        return result;
+    }
+
+    static expandNumbers(text: string): string {
+        let result = text;
+
+        // Money: "$1.2M", "$5", "£3.50", "€2 billion"
+        result = result.replace(
+            /([$€£¥₹])\s?(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?(?:\s?(thousand|million|billion|trillion|bn|tn|mm|[kmbt])\b)?/gi,
+            (match, symbol: string, whole: string, fraction: string | undefined, magnitude: string | undefined) => {
+                const currency = CURRENCIES[symbol];
+                if (magnitude) {
+                    const scale = MAGNITUDES[magnitude.toLowerCase()];
+                    return `${numberWords(whole + (fraction || ''))} ${scale} ${currency.many}`;
+                }
+                const main = `${cardinalWords(whole)} ${isOne(whole) ? currency.one : currency.many}`;
+                if (!fraction) return main;
+                if (fraction.length === 3 && currency.subunit) {
+                    const cents = fraction.slice(1);
+                    if (/^0+$/.test(cents)) return main;
+                    const centsWords = `${cardinalWords(cents)} ${cents === '01' ? currency.subunit[0] : currency.subunit[1]}`;
+                    return whole === '0' ? centsWords : `${main} and ${centsWords}`;
+                }
+                return `${numberWords(whole + fraction)} ${currency.many}`;
+            });
+
+        // Percentages, and ranges of them: "20-30%" and "20%–30%" are "twenty to thirty percent", not a minus sign
+        result = result.replace(/(?<![\w.])(?:(\d[\d,]*(?:\.\d+)?)%?\s?[–—-]\s?)?(-?\d[\d,]*(?:\.\d+)?)\s?%/g,
+            (match, from: string | undefined, value: string) => `${from ? `${numberWords(from)} to ` : ''}${numberWords(value)} percent`);
+
+        // ISO dates: 2024-03-15
+        result = result.replace(/\b(\d{4})-(\d{2})-(\d{2})\b/g, (match, year: string, month: string, day: string) =>
+            dateWords(Number(month), Number(day), Number(year)) ?? match);
+
+        // Numeric dates: 03/15/2024 (month first unless the first number can only be a day)
+        result = result.replace(/\b(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/g, (match, first: string, second: string, year: string) => {
+            const fullYear = year.length === 2 ? 2000 + Number(year) : Number(year);
+            const [month, day] = Number(first) > 12 ? [Number(second), Number(first)] : [Number(first), Number(second)];
+            return dateWords(month, day, fullYear) ?? match;
+        });
+
+        // "March 15, 2024", "Mar. 15th"
+        result = result.replace(new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4})\\b)?`, 'g'),
+            (match, month: string, day: string, year: string | undefined) => {
+                const name = monthName(month);
+                return name && Number(day) >= 1 && Number(day) <= 31
+                    ? `${name} ${ordinalWords(day)}` + (year ? `, ${yearWords(Number(year))}` : '')
+                    : match;
+            });
+
+        // "15 March 2024", "1st of May"
+        result = result.replace(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}(?:,?\\s+(\\d{4})\\b)?`, 'g'),
+            (match, day: string, month: string, year: string | undefined) => {
+                const name = monthName(month);
+                return name && Number(day) >= 1 && Number(day) <= 31
+                    ? `the ${ordinalWords(day)} of ${name}` + (year ? `, ${yearWords(Number(year))}` : '')
+                    : match;
+            });
+
+        // Times: "14:30", "3:05 pm", "7 a.m."
+        result = result.replace(/(?<![\d:])(\d{1,2}):(\d{2})(?::\d{2})?(?![\d:])(\s?[ap]\.?m\.?(?![a-z]))?/gi,
+            (match, hours: string, minutes: string, meridiem: string | undefined) => {
+                const hour = Number(hours);
+                const minute = Number(minutes);
+                if (hour > 23 || minute > 59) return match;
+                const suffix = meridiem ? ` ${meridiem.toLowerCase().includes('a') ? 'a.m.' : 'p.m.'}` : '';
+                if (minute === 0) return `${cardinalWords(hours)}${suffix || " o'clock"}`;
+                return `${cardinalWords(hours)} ${minute < 10 ? `oh ${ONES[minute]}` : cardinalWords(minutes)}${suffix}`;
+            });
+        result = result.replace(/\b(\d{1,2})\s?([ap])\.?m\.?(?![a-z])/gi, (match, hours: string, meridiem: string) =>
+            Number(hours) > 12 ? match : `${cardinalWords(hours)} ${meridiem.toLowerCase() === 'a' ? 'a.m.' : 'p.m.'}`);
+
+        // Phone numbers: "(555) 123-4567", "+1 555-123-4567", "555.123.4567"
+        result = result.replace(/(?<![\w+])(\+\d{1,3}[\s.-]?)?(\(\d{3}\)\s?|\d{3}[\s.-])\d{3}[\s.-]\d{4}(?![\w])/g, match => {
+            const country = /^\+(\d{1,3})/.exec(match);
+            const rest = country ? match.slice(country[0].length) : match;
+            const groups = rest.match(/\d+/g) || [];
+            return (country ? `plus ${digitWords(country[1])}, ` : '') + groups.map(digitWords).join(', ');
+        });
+
+        // Version numbers and other dotted sequences: "2.0.1" -> "two point zero point one", "v1.2.3" -> "version one point two point three"
+        result = result.replace(/(?<![\w.])(v?)(\d+(?:\.\d+){2,})(?![\w]|\.\d)/g, (match, prefix: string, version: string) =>
+            (prefix ? 'version ' : '') + version.split('.').map(part => cardinalWords(part)).join(' point '));
+
+        // Ranges: "10-20", "1990–2000"
+        result = result.replace(/(\d)\s?[–—-]\s?(?=\d)/g, '$1 to ');
+
+        // Decades: "1990s", "'80s"
+        result = result.replace(/(?<![\w'])(?:(\d{2})|')(\d)0'?s\b/g, (match, century: string | undefined, decade: string) => {
+            const words = century ? yearWords(Number(`${century}${decade}0`)) : TENS[Number(decade)] || match;
+            return words.replace(/(\w+)$/, last => plural(last));
+        });
+
+        // Years after words like "in" or "since"
+        result = result.replace(/\b(1[1-9]\d{2}|20\d{2})\b(?![\d,.]*\s?%)/g, (match, year: string, offset: number, whole: string) =>
+            YEAR_CONTEXT.test(whole.slice(Math.max(0, offset - 20), offset)) ? yearWords(Number(year)) : match);
+
+        // Heights: "6 ft 2 in", "6'2\"" -> "six feet two inches" ("in" on its own is too often the word)
+        result = result.replace(/(?<![\w.])(\d+)(?:\s?ft\.?|')\s?(\d+(?:\.\d+)?)(?:\s?in\b|")/g, (match, feet: string, inches: string) =>
+            `${cardinalWords(feet)} ${isOne(feet) ? 'foot' : 'feet'} ${numberWords(inches)} ${isOne(inches) ? 'inch' : 'inches'}`);
+
+        // Multipliers: "2.5x" -> "two point five times", "10x" -> "ten times"
+        result = result.replace(/(?<![\w.])(\d+(?:\.\d+)?)x(?![\w])/g, (match, value: string) => `${numberWords(value)} times`);
+
+        // Units: "5 km", "12kg", "20°C", "3m"
+        const unitPattern = Object.keys(UNITS).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+        result = result.replace(new RegExp(`(?<![\\w.])(-?\\d[\\d,]*(?:\\.\\d+)?)(\\s?)(${unitPattern})(?![\\w/])`, 'g'),
+            (match, value: string, space: string, unit: string) => {
+                if (space && SINGLE_LETTER_UNITS.has(unit)) return match;
+                const [one, many] = UNITS[unit];
+                return `${numberWords(value)} ${isOne(value) ? one : many}`;
+            });
+
+        // Ordinals: "21st", "3rd"
+        result = result.replace(/\b(\d+)(st|nd|rd|th)\b/gi, (match, value: string) => ordinalWords(value));
+
+        // Fractions: "3/4" -> "three quarters", "1/2" -> "one half"
+        result = result.replace(/(?<![\w/])(\d+)\/(\d+)(?![\w/])/g, (match, numerator: string, denominator: string) => {
+            const bottom = Number(denominator);
+            if (bottom === 0) return match;
+            const single = Number(numerator) === 1;
+            const name = bottom === 2 ? (single ? 'half' : 'halves')
+                : bottom === 4 ? (single ? 'quarter' : 'quarters')
+                : single ? ordinalWords(denominator) : plural(ordinalWords(denominator));
+            return `${cardinalWords(numerator)} ${name}`;
+        });
+
+        // Roman numerals: "Chapter IV" -> "Chapter four", "Henry VIII" -> "Henry the eighth"
+        result = result.replace(/\b([IVXLCDM]{2,}|[VX])\b/g, (match, numeral: string, offset: number, whole: string) => {
+            const value = romanValue(numeral);
+            if (!value || ROMAN_ACRONYMS.has(numeral)) return match;
+            const before = whole.slice(Math.max(0, offset - 20), offset);
+            if (ROMAN_NUMBER_CONTEXT.test(before)) return cardinalWords(String(value));
+            const name = /\b([A-Z][a-z]+)\s+$/.exec(before);
+            if (name && REGNAL_NAMES.has(name[1])) return `the ${ordinalWords(String(value))}`;
+            return match;
+        });
+
+        // Everything else: "1,234,567", "3.14", "-5". A number followed by ".5x" or ".1" is part of
+        // something the passes above did not recognize, and is left whole rather than read in pieces.
+        result = result.replace(/(?<![\w.])(-?)(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?(?![\w]|\.\d)/g,
+            (match, sign: string, whole: string, fraction: string | undefined) => {
+                if (/^0\d/.test(whole) && !fraction) return digitWords(whole); // codes such as "007"
+                const words = numberWords(whole + (fraction || ''));
+                return sign ? `minus ${words}` : words;
+            });
+
+        return result;
+    }
+
+    // Give headings, list items and the last line of a paragraph a full stop so they are read with a pause.
+    // Other lines are left alone: in hard-wrapped text a line break is not the end of a sentence.
+    static addPunctuation(text: string): string {
+        const lines = text.split('\n');
+        return lines.map((line, index) => {
+            const heading = /^[ \t]*(?:#{1,6}|[-*•‣◦])[ \t]+\S/.test(line);
+            const paragraphEnd = index + 1 < lines.length && !lines[index + 1].trim();
+            return heading || paragraphEnd ? line.replace(/([^\s.!?:;,…"'”’)\]])[ \t]*(\r?)$/, '$1.$2') : line;
+        }).join('\n');
+    }
+
+    // Drop markdown headings, list markers and bold
+    static stripMarkdown(text: string): string {
+        return text
+            .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (match, bold1, bold2) => bold1 ?? bold2)
+            .replace(/^[ \t]*#{1,6}[ \t]+/gm, '')
+            .replace(/^[ \t]*(?:[-*•‣◦][ \t]+)/gm, '')
+            .replace(/[ \t]{2,}/g, ' ');
+    }
+}
@@ -1,44 +1,90 @@
-// Create a new file for text summarization
+import { ChatClient } from './chatClient';
+import { DocumentProcessor } from './documentProcessor';
 
-import axios from 'axios';
+export type SummaryLength = 'brief' | 'standard' | 'detailed';
+
+// Target length of the final summary; narration runs at roughly 150 words per minute
+export const SUMMARY_PRESETS: Record<SummaryLength, { words: number; description: string }> = {
+    brief: { words: 150, description: 'about 1 minute of audio' },
+    standard: { words: 300, description: 'about 2 minutes of audio' },
+    detailed: { words: 750, description: 'about 5 minutes of audio' },
+};
+
+// Pieces summarized in the map step, and the most combined text the reduce step sends in one call
+const MAP_CHUNK_SIZE = 12000;
+const REDUCE_INPUT_LIMIT = 16000;
+const PIECE_SUMMARY_WORDS = 250;
+
+export interface SummaryOptions {
+    signal?: AbortSignal;
+}
+
+export function isSummaryLength(value: unknown): value is SummaryLength {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SUMMARY_PRESETS, value);
+}
 
 export class TextSummarizer {
-    private apiKey: string;
-    
-    constructor(apiKey: string) {
-        this.apiKey = apiKey;
+    private chat: ChatClient;
+
+    constructor(apiKey: string, chat: ChatClient = new ChatClient(apiKey)) {
+        this.chat = chat;
     }
-    
-    async summarizeText(text: string, maxLength: number = 500): Promise<string> {
-        try {
-            const response = await axios.post(
-                'https://api.openai.com/v1/chat/completions',
-                {
-                    model: "gpt-4o",
-                    messages: [
-                        {
-                            role: "system",
-                            content: `You are a text summarization assistant. Summarize the provided text to approximately ${maxLength} characters while preserving key information.`
-                        },
-                        {
-                            role: "user",
-                            content: text
-                        }
-                    ],
-                    max_tokens: maxLength / 2
-                },
-                {
-                    headers: {
-                        'Authorization': `Bearer ${this.apiKey}`,
-                        'Content-Type': 'application/json',
-                    }
-                }
-            );
-            
-            return response.data.choices[0].message.content;
-        } catch (error) {
-            console.error('Error summarizing text:', error);
-            throw new Error('Failed to summarize text');
+
+    async summarizeText(text: string, maxLength: number = 500, options: SummaryOptions = {}): Promise<string> {
+        const words = Math.max(30, Math.round(maxLength / 6)); // ~6 characters per English word including the space
+        return this.summarizePiece(text, words, options);
+    }
+
+    // Map-reduce summary: long documents are summarized in pieces, the piece summaries are combined
+    // (repeatedly, if they are still too long) and the result is rewritten to the preset's length.
+    async summarizeDocument(text: string, length: SummaryLength = 'standard', options: SummaryOptions = {}): Promise<string> {
+        const target = SUMMARY_PRESETS[length].words;
+        let material = text;
+        for (let round = 1; material.length > REDUCE_INPUT_LIMIT; round++) {
+            const pieces = DocumentProcessor.chunkDocument(material, MAP_CHUNK_SIZE);
+            console.log(`Summarizing ${pieces.length} pieces (round ${round}, ${material.length} characters)...`);
+            const summaries: string[] = [];
+            for (const piece of pieces) {
+                summaries.push(await this.summarizePiece(piece.text, PIECE_SUMMARY_WORDS, options));
+            }
+            const combined = summaries.join('\n\n');
+            if (combined.length >= material.length) break; // the model is not condensing; stop rather than loop
+            material = combined;
         }
+        console.log(`Writing ${length} summary (about ${target} words) from ${material.length} characters...`);
+        return this.summarizeFinal(material, target, options);
+    }
+
+    private async summarizePiece(text: string, words: number, options: SummaryOptions): Promise<string> {
+        const summary = await this.chat.complete([
+            {
+                role: "system",
+                content: `You are a text summarization assistant. Summarize the provided text in at most ${words} words, ` +
+                    'keeping key facts, figures, names and conclusions. Reply with the summary only.'
+            },
+            {
+                role: "user",
+                content: text
+            }
+        ], { signal: options.signal, maxTokens: words * 2 + 100, temperature: 0.3 });
+        return summary.trim();
+    }
+
+    // The final pass writes for the ear: plain flowing prose without headings, lists or markdown
+    private async summarizeFinal(text: string, words: number, options: SummaryOptions): Promise<string> {
+        const summary = await this.chat.complete([
+            {
+                role: "system",
+                content: `You write spoken audio digests. Summarize the provided material in about ${words} words of plain, ` +
+                    'flowing prose meant to be read aloud: no headings, bullet points, tables or markdown. ' +
+                    'Open with the main point, cover the most important findings, and close with the conclusion. ' +
+                    'Reply with the summary only.'
+            },
+            {
+                role: "user",
+                content: text
+            }
+        ], { signal: options.signal, maxTokens: words * 2 + 200, temperature: 0.3 });
+        return summary.trim();
     }
 }
@@ -1,43 +1,51 @@
-// Create a new translator module
+import { ChatClient } from './chatClient';
+import { DocumentProcessor } from './documentProcessor';
+import { LanguageInfo } from './languages';
 
-import axios from 'axios';
+// Large enough to give the model context, small enough to stay well inside its output limit
+const TRANSLATION_CHUNK_SIZE = 3000;
+
+export interface TranslationOptions {
+    signal?: AbortSignal;
+}
 
 export class Translator {
-    private apiKey: string;
-    
-    constructor(apiKey: string) {
-        this.apiKey = apiKey;
+    private chat: ChatClient;
+
+    constructor(apiKey: string, chat: ChatClient = new ChatClient(apiKey)) {
+        this.chat = chat;
     }
-    
-    async translateText(text: string, targetLanguage: string): Promise<string> {
-        try {
-            const response = await axios.post(
-                'https://api.openai.com/v1/chat/completions',
-                {
-                    model: "gpt-4o",
-                    messages: [
-                        {
-                            role: "system",
-                            content: `You are a translator. Translate the provided text to ${targetLanguage}.`
-                        },
-                        {
-                            role: "user",
-                            content: text
-                        }
-                    ]
-                },
-                {
-                    headers: {
-                        'Authorization': `Bearer ${this.apiKey}`,
-                        'Content-Type': 'application/json',
-                    }
-                }
-            );
-            
-            return response.data.choices[0].message.content;
-        } catch (error) {
-            console.error('Error translating text:', error);
-            throw new Error('Failed to translate text');
+
+    async translateText(text: string, targetLanguage: string, options: TranslationOptions = {}): Promise<string> {
+        const translated = await this.chat.complete([
+            {
+                role: "system",
+                content: `You are a translator. Translate the provided text to ${targetLanguage}. ` +
+                    'Keep every paragraph break and line break where it is. ' +
+                    'Leave markup such as <voice>, <emphasis>, <say-as>, <break/> and [pause 2s] unchanged, translating only the text inside it. ' +
+                    'Reply with the translation only.'
+            },
+            {
+                role: "user",
+                content: text
+            }
+        ], { signal: options.signal, temperature: 0.2 });
+        return translated.trim();
+    }
+
+    // Translate a whole document chunk by chunk. Chunks break at paragraph boundaries where possible,
+    // and the original separators between chunks are kept so the paragraph structure survives.
+    async translateDocument(text: string, language: LanguageInfo, options: TranslationOptions = {}): Promise<string> {
+        const chunks = DocumentProcessor.chunkDocument(text, TRANSLATION_CHUNK_SIZE);
+        let result = '';
+        for (let i = 0; i < chunks.length; i++) {
+            if (i > 0) {
+                const gap = text.slice(chunks[i - 1].end, chunks[i].start);
+                result += /\n\s*\n/.test(gap) ? '\n\n' : gap.includes('\n') ? '\n' : ' ';
+            }
+            console.log(`Translating chunk ${i + 1}/${chunks.length} to ${language.name} (${chunks[i].text.length} characters)...`);
+            result += await this.translateText(chunks[i].text, language.name, options);
         }
+        return result;
     }
 }
@@ -0,0 +1,60 @@
+import { OpenAIClient } from './openaiClient';
+import { LocalTtsProvider } from './localTtsProvider';
+import type { AudioFormat } from './audioUtils';
+
+// Voice options understood by every provider
+export interface VoiceOptions {
+    speed?: number;      // 0.25 to 4.0, sent to the API as its speed parameter
+    pitch?: number;      // -10 to 10, described in the instructions (the API has no pitch parameter)
+    volume?: number;     // 0.5 to 2.0, applied as gain to WAV and PCM output
+}
+
+// Accepted [min, max] for each voice option
+export const VOICE_OPTION_RANGES: Record<keyof VoiceOptions, [number, number]> = {
+    speed: [0.25, 4.0],
+    pitch: [-10, 10],
+    volume: [0.5, 2.0],
+};
+
+// Per-call hooks for a speech request
+export interface SpeechRequestOptions {
+    onRetry?: (attempt: number, reason: string) => void; // Called before each retry of a transient failure
+    signal?: AbortSignal;                                // Aborts the request, e.g. when the client disconnects
+}
+
+// A text-to-speech backend. SpeechGenerator only talks to this interface, so the app can run against
+// OpenAI, any OpenAI-compatible server (via OPENAI_BASE_URL) or the offline local provider.
+export interface TtsProvider {
+    readonly name: string;
+    readonly model: string;                    // Speech model; part of the audio cache key
+    readonly formats: readonly AudioFormat[];  // Output formats this provider can produce
+    generateSpeech(
+        text: string,
+        voice?: string,
+        instructions?: string,
+        voiceOptions?: VoiceOptions,
+        output?: AudioFormat,
+        requestOptions?: SpeechRequestOptions
+    ): Promise<Buffer>;
+}
+
+export const TTS_PROVIDERS = ['openai', 'local'] as const;
+export type TtsProviderName = typeof TTS_PROVIDERS[number];
+
+export function configuredProviderName(): TtsProviderName {
+    const name = (process.env.TTS_PROVIDER || 'openai').toLowerCase();
+    if (!(TTS_PROVIDERS as readonly string[]).includes(name)) {
+        throw new Error(`Unknown TTS_PROVIDER "${name}". Expected one of: ${TTS_PROVIDERS.join(', ')}.`);
+    }
+    return name as TtsProviderName;
+}
+
+// Build the provider selected by TTS_PROVIDER (default: openai)
+export function createTtsProvider(apiKey: string = process.env.OPENAI_API_KEY || ''): TtsProvider {
+    switch (configuredProviderName()) {
+        case 'local':
+            return new LocalTtsProvider();
+        default:
+            return new OpenAIClient(apiKey);
+    }
+}
@@ -0,0 +1,232 @@
+import type { RedisClient } from './jobStore';
+
+export type QuotaPeriod = 'day' | 'month';
+
+// Character limits; null means unlimited
+export interface QuotaLimits {
+    userDaily: number | null;
+    userMonthly: number | null;
+    globalDaily: number | null;
+    globalMonthly: number | null;
+}
+
+export interface QuotaStatus {
+    scope: 'user' | 'global';
+    period: QuotaPeriod;
+    limit: number | null;
+    used: number;
+    remaining: number | null;
+    resetsAt: string;
+}
+
+export class QuotaExceededError extends Error {
+    public statusCode: number;
+    public errorCode: string;
+    public quota: QuotaStatus & { requested: number };
+    public retryAfterSeconds: number;
+
+    constructor(quota: QuotaStatus & { requested: number }) {
+        const who = quota.scope === 'user' ? 'Your' : 'The service-wide';
+        const period = quota.period === 'day' ? 'daily' : 'monthly';
+        super(`${who} ${period} character quota would be exceeded: ${quota.used} of ${quota.limit} characters used, ` +
+            `${quota.requested} requested. The quota resets at ${quota.resetsAt}.`);
+        this.name = 'QuotaExceededError';
+        this.statusCode = 429;
+        this.errorCode = 'QUOTA_EXCEEDED';
+        this.quota = quota;
+        this.retryAfterSeconds = Math.max(1, Math.ceil((Date.parse(quota.resetsAt) - Date.now()) / 1000));
+    }
+}
+
+// Published list prices in USD per million input characters. gpt-4o-mini-tts is billed by tokens and audio
+// minutes; its figure is the per-character equivalent of OpenAI's ~$0.015 per minute estimate.
+export const PRICE_PER_MILLION_CHARACTERS: Record<string, number> = {
+    'tts-1': 15,
+    'tts-1-hd': 30,
+    'gpt-4o-mini-tts': 18,
+};
+
+// Counters that expire on their own once their period is over
+export interface UsageCounterStore {
+    add(key: string, amount: number, ttlSeconds: number): Promise<number>;
+    get(keys: string[]): Promise<number[]>;
+}
+
+export class RedisUsageCounterStore implements UsageCounterStore {
+    private client: RedisClient;
+
+    constructor(client: RedisClient) {
+        this.client = client;
+    }
+
+    async add(key: string, amount: number, ttlSeconds: number): Promise<number> {
+        const [total] = await this.client.multi()
+            .incrBy(key, amount)
+            .expire(key, ttlSeconds)
+            .exec();
+        return Number(total);
+    }
+
+    async get(keys: string[]): Promise<number[]> {
+        const values = await this.client.mGet(keys);
+        return values.map(value => Number(value || 0));
+    }
+}
+
+// In-process fallback used when REDIS_URL is not configured; counts reset when the server restarts
+export class MemoryUsageCounterStore implements UsageCounterStore {
+    private counters = new Map<string, { value: number; expiresAt: number }>();
+
+    async add(key: string, amount: number, ttlSeconds: number): Promise<number> {
+        const now = Date.now();
+        const current = this.counters.get(key);
+        const value = (current && current.expiresAt > now ? current.value : 0) + amount;
+        this.counters.set(key, { value, expiresAt: now + ttlSeconds * 1000 });
+        return value;
+    }
+
+    async get(keys: string[]): Promise<number[]> {
+        const now = Date.now();
+        return keys.map(key => {
+            const counter = this.counters.get(key);
+            return counter && counter.expiresAt > now ? counter.value : 0;
+        });
+    }
+}
+
+function limitFromEnv(name: string): number | null {
+    const value = parseInt(process.env[name] || '', 10);
+    return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+// UTC periods: "2024-03-15" for a day, "2024-03" for a month
+function periodKey(period: QuotaPeriod, at: Date): string {
+    return period === 'day' ? at.toISOString().slice(0, 10) : at.toISOString().slice(0, 7);
+}
+
+function periodEnd(period: QuotaPeriod, at: Date): Date {
+    return period === 'day'
+        ? new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate() + 1))
+        : new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1));
+}
+
+// Keep counters a little past the end of their period so late refunds still find them
+const COUNTER_TTL_SECONDS: Record<QuotaPeriod, number> = { day: 2 * 24 * 60 * 60, month: 32 * 24 * 60 * 60 };
+
+// Meters the characters each user sends to the speech API. Characters are reserved when a job is
+// submitted and refunded when the job produced no audio.
+export class UsageMeter {
+    private store: UsageCounterStore;
+    private limits: QuotaLimits;
+    private model: string;
+    private pricePerMillion: number;
+
+    constructor(store: UsageCounterStore, model: string, limits: QuotaLimits = UsageMeter.configuredLimits()) {
+        this.store = store;
+        this.limits = limits;
+        this.model = model;
+        const configured = parseFloat(process.env.TTS_PRICE_PER_MILLION_CHARACTERS || '');
+        this.pricePerMillion = Number.isFinite(configured) && configured >= 0 ? configured : PRICE_PER_MILLION_CHARACTERS[model] ?? 0;
+    }
+
+    static configuredLimits(): QuotaLimits {
+        return {
+            userDaily: limitFromEnv('QUOTA_USER_DAILY_CHARACTERS'),
+            userMonthly: limitFromEnv('QUOTA_USER_MONTHLY_CHARACTERS'),
+            globalDaily: limitFromEnv('QUOTA_GLOBAL_DAILY_CHARACTERS'),
+            globalMonthly: limitFromEnv('QUOTA_GLOBAL_MONTHLY_CHARACTERS'),
+        };
+    }
+
+    // Estimated API cost in USD, rounded to a hundredth of a cent
+    estimateCost(characters: number): number {
+        return Math.round(characters / 1_000_000 * this.pricePerMillion * 10000) / 10000;
+    }
+
+    get pricing() {
+        return { model: this.model, pricePerMillionCharacters: this.pricePerMillion };
+    }
+
+    // The counters a request by this user touches. Without a signed-in user only the global caps apply.
+    private quotas(user: string | null, at: Date) {
+        const quotas: Array<{ scope: 'user' | 'global'; period: QuotaPeriod; key: string; limit: number | null }> = [];
+        for (const period of ['day', 'month'] as const) {
+            if (user !== null) {
+                quotas.push({
+                    scope: 'user',
+                    period,
+                    key: `usage:user:${user}:${periodKey(period, at)}`,
+                    limit: period === 'day' ? this.limits.userDaily : this.limits.userMonthly,
+                });
+            }
+            quotas.push({
+                scope: 'global',
+                period,
+                key: `usage:global:${periodKey(period, at)}`,
+                limit: period === 'day' ? this.limits.globalDaily : this.limits.globalMonthly,
+            });
+        }
+        return quotas;
+    }
+
+    // Count the characters against every quota, or throw QuotaExceededError and count nothing.
+    // Counters are incremented first and rolled back on failure, so concurrent requests can't overshoot together.
+    async reserve(user: string | null, characters: number, at: Date = new Date()): Promise<void> {
+        const quotas = this.quotas(user, at);
+        const added: typeof quotas = [];
+        try {
+            for (const quota of quotas) {
+                const total = await this.store.add(quota.key, characters, COUNTER_TTL_SECONDS[quota.period]);
+                added.push(quota);
+                if (quota.limit !== null && total > quota.limit) {
+                    const used = total - characters;
+                    throw new QuotaExceededError({
+                        scope: quota.scope,
+                        period: quota.period,
+                        limit: quota.limit,
+                        used,
+                        remaining: Math.max(0, quota.limit - used),
+                        resetsAt: periodEnd(quota.period, at).toISOString(),
+                        requested: characters,
+                    });
+                }
+            }
+        } catch (error) {
+            for (const quota of added) {
+                await this.store.add(quota.key, -characters, COUNTER_TTL_SECONDS[quota.period]);
+            }
+            throw error;
+        }
+    }
+
+    // Give back characters reserved at the given time, e.g. for a job that failed before producing audio
+    async refund(user: string | null, characters: number, reservedAt: Date): Promise<void> {
+        for (const quota of this.quotas(user, reservedAt)) {
+            await this.store.add(quota.key, -characters, COUNTER_TTL_SECONDS[quota.period]);
+        }
+    }
+
+    async usage(user: string | null, at: Date = new Date()) {
+        const quotas = this.quotas(user, at);
+        const used = await this.store.get(quotas.map(quota => quota.key));
+        const status = (scope: 'user' | 'global', period: QuotaPeriod) => {
+            const index = quotas.findIndex(quota => quota.scope === scope && quota.period === period);
+            if (index < 0) return undefined;
+            const { limit } = quotas[index];
+            return {
+                used: used[index],
+                limit,
+                remaining: limit === null ? null : Math.max(0, limit - used[index]),
+                resetsAt: periodEnd(period, at).toISOString(),
+                estimatedCostUsd: this.estimateCost(used[index]),
+            };
+        };
+        return {
+            user,
+            day: status('user', 'day'),
+            month: status('user', 'month'),
+            global: { day: status('global', 'day'), month: status('global', 'month') },
+            pricing: this.pricing,
+        };
+    }
+}
@@ -0,0 +1,288 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import crypto from 'crypto';
+import { promisify } from 'util';
+import type { RedisClient } from './jobStore';
+
+export type UserRole = 'admin' | 'user';
+
+export interface UserAccount {
+    id: string;
+    username: string;
+    role: UserRole;
+    disabled: boolean;
+    passwordHash: string;       // "scrypt$N$r$p$salt$hash", salt and hash in base64
+    passwordChangedAt?: string; // unset until the first change; see credentialVersion
+    createdAt: string;
+    updatedAt: string;
+}
+
+// What the API returns about an account: everything except the password hash
+export type PublicUser = Omit<UserAccount, 'passwordHash'>;
+
+export class AccountError extends Error {
+    public statusCode: number;
+    public errorCode: string;
+
+    constructor(message: string, statusCode: number = 400, errorCode: string = 'INVALID_ACCOUNT') {
+        super(message);
+        this.name = 'AccountError';
+        this.statusCode = statusCode;
+        this.errorCode = errorCode;
+    }
+}
+
+export interface UserStore {
+    list(): Promise<UserAccount[]>;
+    get(id: string): Promise<UserAccount | null>;
+    save(user: UserAccount): Promise<void>;
+}
+
+// All accounts in one hash, keyed by ID
+export class RedisUserStore implements UserStore {
+    private client: RedisClient;
+    private static KEY = 'users';
+
+    constructor(client: RedisClient) {
+        this.client = client;
+    }
+
+    async list(): Promise<UserAccount[]> {
+        const users = await this.client.hGetAll(RedisUserStore.KEY);
+        return Object.values(users).map(raw => JSON.parse(raw) as UserAccount);
+    }
+
+    async get(id: string): Promise<UserAccount | null> {
+        const raw = await this.client.hGet(RedisUserStore.KEY, id);
+        return raw ? JSON.parse(raw) as UserAccount : null;
+    }
+
+    async save(user: UserAccount): Promise<void> {
+        await this.client.hSet(RedisUserStore.KEY, user.id, JSON.stringify(user));
+    }
+}
+
+// Fallback when REDIS_URL is not configured: all accounts in one JSON file, rewritten on each change
+export class FileUserStore implements UserStore {
+    private filePath: string;
+    private users: UserAccount[] | null = null;
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    private async load(): Promise<UserAccount[]> {
+        if (!this.users) {
+            try {
+                this.users = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8')).users || [];
+            } catch (error: any) {
+                if (error.code !== 'ENOENT') {
+                    // Starting over with no accounts would re-create the bootstrap admin, so refuse instead
+                    throw new Error(`Could not read the user accounts at ${this.filePath}: ${error.message}`);
+                }
+                this.users = [];
+            }
+        }
+        return this.users!;
+    }
+
+    // Writes go through a temporary file and are serialized, so a crash never leaves half a file behind.
+    // The file holds password hashes, so it is readable by the server's user only.
+    private persist(): Promise<void> {
+        this.writing = this.writing.then(async () => {
+            await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+            const temporary = `${this.filePath}.${process.pid}.tmp`;
+            await fs.promises.writeFile(temporary, JSON.stringify({ users: this.users }, null, 2), { mode: 0o600 });
+            await fs.promises.rename(temporary, this.filePath);
+        });
+        return this.writing;
+    }
+
+    async list(): Promise<UserAccount[]> {
+        return [...await this.load()];
+    }
+
+    async get(id: string): Promise<UserAccount | null> {
+        return (await this.load()).find(user => user.id === id) || null;
+    }
+
+    async save(user: UserAccount): Promise<void> {
+        const users = await this.load();
+        const index = users.findIndex(existing => existing.id === user.id);
+        if (index >= 0) {
+            users[index] = user;
+        } else {
+            users.push(user);
+        }
+        await this.persist();
+    }
+}
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number, options: crypto.ScryptOptions) => Promise<Buffer>;
+
+// scrypt cost parameters: N=2^15, r=8, p=1 (32 MB and roughly 100 ms per hash)
+const SCRYPT_N = 32768;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+const KEY_LENGTH = 64;
+
+export async function hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16);
+    const hash = await scrypt(password, salt, KEY_LENGTH, { N: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P, maxmem: SCRYPT_MAXMEM });
+    return ['scrypt', SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString('base64'), hash.toString('base64')].join('$');
+}
+
+// The parameters are read from the stored hash, so hashes made with older settings keep working
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [algorithm, n, r, p, salt, hash] = stored.split('$');
+    if (algorithm !== 'scrypt' || !salt || !hash) return false;
+    const expected = Buffer.from(hash, 'base64');
+    const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length,
+        { N: Number(n), r: Number(r), p: Number(p), maxmem: SCRYPT_MAXMEM });
+    return crypto.timingSafeEqual(actual, expected);
+}
+
+const USERNAME_PATTERN = /^[A-Za-z0-9._-]{3,64}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+export function toPublicUser({ passwordHash, ...user }: UserAccount): PublicUser {
+    return user;
+}
+
+// Changes whenever the password does. Sessions remember it from sign-in and end once it no longer matches,
+// so changing or resetting a password signs the account out everywhere else.
+export function credentialVersion(user: UserAccount): string {
+    return user.passwordChangedAt || user.createdAt;
+}
+
+export class UserAccounts {
+    private store: UserStore;
+    // Checked against when the username is unknown, so failed logins take the same time either way
+    private dummyHash: Promise<string>;
+
+    constructor(store: UserStore) {
+        this.store = store;
+        this.dummyHash = hashPassword(crypto.randomBytes(16).toString('hex'));
+    }
+
+    static validateUsername(username: unknown): string {
+        if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+            throw new AccountError('Usernames are 3 to 64 letters, digits, dots, dashes or underscores.', 400, 'INVALID_USERNAME');
+        }
+        return username;
+    }
+
+    static validatePassword(password: unknown): string {
+        if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+            throw new AccountError(`Passwords must be at least ${MIN_PASSWORD_LENGTH} characters long.`, 400, 'WEAK_PASSWORD');
+        }
+        return password;
+    }
+
+    static validateRole(role: unknown): UserRole {
+        if (role !== 'admin' && role !== 'user') {
+            throw new AccountError('The role must be "admin" or "user".', 400, 'INVALID_ROLE');
+        }
+        return role;
+    }
+
+    async list(): Promise<UserAccount[]> {
+        return (await this.store.list()).sort((a, b) => a.username.localeCompare(b.username));
+    }
+
+    get(id: string): Promise<UserAccount | null> {
+        return this.store.get(id);
+    }
+
+    async findByUsername(username: string): Promise<UserAccount | null> {
+        const wanted = username.toLowerCase();
+        return (await this.store.list()).find(user => user.username.toLowerCase() === wanted) || null;
+    }
+
+    // The account for these credentials, or null; disabled accounts can't sign in
+    async authenticate(username: unknown, password: unknown): Promise<UserAccount | null> {
+        if (typeof username !== 'string' || typeof password !== 'string') return null;
+        const user = await this.findByUsername(username);
+        if (!user) {
+            await verifyPassword(password, await this.dummyHash);
+            return null;
+        }
+        const valid = await verifyPassword(password, user.passwordHash);
+        return valid && !user.disabled ? user : null;
+    }
+
+    async create(input: { username: unknown; password: unknown; role?: unknown }): Promise<UserAccount> {
+        const username = UserAccounts.validateUsername(input.username);
+        const password = UserAccounts.validatePassword(input.password);
+        const role = input.role === undefined ? 'user' : UserAccounts.validateRole(input.role);
+        if (await this.findByUsername(username)) {
+            throw new AccountError(`The username "${username}" is already taken.`, 409, 'USERNAME_TAKEN');
+        }
+        const now = new Date().toISOString();
+        const user: UserAccount = {
+            id: crypto.randomUUID(),
+            username,
+            role,
+            disabled: false,
+            passwordHash: await hashPassword(password),
+            createdAt: now,
+            updatedAt: now,
+        };
+        await this.store.save(user);
+        return user;
+    }
+
+    // Change the role or enable/disable an account. The last active administrator can't be demoted or disabled.
+    async update(id: string, changes: { role?: unknown; disabled?: unknown }): Promise<UserAccount> {
+        const user = await this.require(id);
+        const role = changes.role === undefined ? user.role : UserAccounts.validateRole(changes.role);
+        if (changes.disabled !== undefined && typeof changes.disabled !== 'boolean') {
+            throw new AccountError('"disabled" must be true or false.', 400, 'INVALID_ACCOUNT');
+        }
+        const disabled = changes.disabled === undefined ? user.disabled : changes.disabled;
+        if (user.role === 'admin' && !user.disabled && (role !== 'admin' || disabled)) {
+            const activeAdmins = (await this.store.list()).filter(other => other.role === 'admin' && !other.disabled);
+            if (activeAdmins.length <= 1) {
+                throw new AccountError('At least one active administrator must remain.', 409, 'LAST_ADMIN');
+            }
+        }
+        const updated = { ...user, role, disabled, updatedAt: new Date().toISOString() };
+        await this.store.save(updated);
+        return updated;
+    }
+
+    async setPassword(id: string, password: unknown): Promise<UserAccount> {
+        const user = await this.require(id);
+        const now = new Date().toISOString();
+        const updated = { ...user, passwordHash: await hashPassword(UserAccounts.validatePassword(password)), passwordChangedAt: now, updatedAt: now };
+        await this.store.save(updated);
+        return updated;
+    }
+
+    // With no accounts yet, create the first administrator (from APP_USERNAME/APP_PASSWORD)
+    async ensureAdmin(username: string, password: string): Promise<UserAccount | null> {
+        if ((await this.store.list()).length > 0) return null;
+        const now = new Date().toISOString();
+        const admin: UserAccount = {
+            id: crypto.randomUUID(),
+            username,
+            role: 'admin',
+            disabled: false,
+            passwordHash: await hashPassword(password),
+            createdAt: now,
+            updatedAt: now,
+        };
+        await this.store.save(admin);
+        return admin;
+    }
+
+    private async require(id: string): Promise<UserAccount> {
+        const user = await this.store.get(id);
+        if (!user) {
+            throw new AccountError('User not found.', 404, 'USER_NOT_FOUND');
+        }
+        return user;
+    }
+}
@@ -0,0 +1,22 @@
+export interface VoiceInfo {
+    id: string;
+    name: string;
+}
+
+// Predefined list of voices including Shimmer and Nova
+export const predefinedVoices: VoiceInfo[] = [
+    { id: 'shimmer', name: 'Shimmer (Female, Enthusiastic)' },
+    { id: 'nova', name: 'Nova (Female, Gentle)' },
+    { id: 'alloy', name: 'Alloy (Non-binary, Neutral)' },
+    { id: 'coral', name: 'Coral (Female, Warm)' },
+    { id: 'echo', name: 'Echo (Male, Baritone)' },
+    { id: 'fable', name: 'Fable (Male, British)' },
+    { id: 'onyx', name: 'Onyx (Male, Deep)' },
+    { id: 'sage', name: 'Sage (Male, Calm)' },
+    { id: 'ash', name: 'Ash (Male, Formal)' },
+    { id: 'ballad', name: 'Ballad (Male, Soothing)' }
+];
+
+export function isPredefinedVoice(id: string): boolean {
+    return predefinedVoices.some(voice => voice.id === id);
+}
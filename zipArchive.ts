@@ -0,0 +1,144 @@
+import * as zlib from 'zlib';
+
+// Minimal reader for the ZIP container used by .docx and other OOXML formats.
+// Only "stored" and "deflate" entries are supported, which covers everything
+// Word and LibreOffice produce.
+
+export interface ZipEntry {
+    name: string;
+    compressionMethod: number;
+    compressedSize: number;
+    uncompressedSize: number;
+    localHeaderOffset: number;
+    encrypted: boolean;
+}
+
+export class ZipError extends Error {
+    public errorCode: string;
+
+    constructor(message: string, errorCode: string = 'CORRUPT_ARCHIVE') {
+        super(message);
+        this.name = 'ZipError';
+        this.errorCode = errorCode;
+    }
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Largest entry that is decompressed. A small archive can inflate to gigabytes (a "zip bomb"), so entries are
+// checked against this before inflating and inflation stops at the size the entry declares.
+export const MAX_ENTRY_BYTES = 50 * 1024 * 1024;
+
+export class ZipArchive {
+    private buffer: Buffer;
+    private entries: Map<string, ZipEntry>;
+
+    constructor(buffer: Buffer) {
+        this.buffer = buffer;
+        this.entries = this.readCentralDirectory();
+    }
+
+    static isZip(buffer: Buffer): boolean {
+        return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER;
+    }
+
+    list(): ZipEntry[] {
+        return Array.from(this.entries.values());
+    }
+
+    has(name: string): boolean {
+        return this.entries.has(name);
+    }
+
+    read(name: string): Buffer {
+        const entry = this.entries.get(name);
+        if (!entry) {
+            throw new ZipError(`Entry "${name}" not found in archive.`, 'ENTRY_NOT_FOUND');
+        }
+        if (entry.encrypted) {
+            throw new ZipError(`Entry "${name}" is encrypted.`, 'ENCRYPTED_ENTRY');
+        }
+
+        if (entry.uncompressedSize > MAX_ENTRY_BYTES) {
+            throw new ZipError(`Entry "${name}" is too large to read (${entry.uncompressedSize} bytes).`, 'ENTRY_TOO_LARGE');
+        }
+
+        const offset = entry.localHeaderOffset;
+        if (offset + 30 > this.buffer.length || this.buffer.readUInt32LE(offset) !== LOCAL_FILE_HEADER) {
+            throw new ZipError(`Local header for "${name}" is missing or damaged.`);
+        }
+        const nameLength = this.buffer.readUInt16LE(offset + 26);
+        const extraLength = this.buffer.readUInt16LE(offset + 28);
+        const dataStart = offset + 30 + nameLength + extraLength;
+        const data = this.buffer.subarray(dataStart, dataStart + entry.compressedSize);
+
+        switch (entry.compressionMethod) {
+            case 0:
+                return Buffer.from(data);
+            case 8:
+                try {
+                    return zlib.inflateRawSync(data, { maxOutputLength: Math.max(1, entry.uncompressedSize) });
+                } catch (err: any) {
+                    if (err.code === 'ERR_BUFFER_TOO_LARGE') {
+                        throw new ZipError(`Entry "${name}" is larger than the archive says.`, 'ENTRY_TOO_LARGE');
+                    }
+                    throw new ZipError(`Could not decompress "${name}": ${err.message}`);
+                }
+            default:
+                throw new ZipError(
+                    `Entry "${name}" uses unsupported compression method ${entry.compressionMethod}.`,
+                    'UNSUPPORTED_COMPRESSION'
+                );
+        }
+    }
+
+    readText(name: string): string {
+        return this.read(name).toString('utf-8');
+    }
+
+    private readCentralDirectory(): Map<string, ZipEntry> {
+        const buffer = this.buffer;
+        // The end-of-central-directory record sits in the last 22 bytes plus an optional comment (max 64 KB)
+        const searchStart = Math.max(0, buffer.length - 22 - 0xffff);
+        let eocd = -1;
+        for (let i = buffer.length - 22; i >= searchStart; i--) {
+            if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+                eocd = i;
+                break;
+            }
+        }
+        if (eocd < 0) {
+            throw new ZipError('End of central directory not found. The archive is truncated or not a ZIP file.');
+        }
+
+        const entryCount = buffer.readUInt16LE(eocd + 10);
+        let offset = buffer.readUInt32LE(eocd + 16);
+        const entries = new Map<string, ZipEntry>();
+
+        for (let i = 0; i < entryCount; i++) {
+            if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+                throw new ZipError('Central directory is damaged.');
+            }
+            const flags = buffer.readUInt16LE(offset + 8);
+            const nameLength = buffer.readUInt16LE(offset + 28);
+            const extraLength = buffer.readUInt16LE(offset + 30);
+            const commentLength = buffer.readUInt16LE(offset + 32);
+            const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+            entries.set(name, {
+                name,
+                compressionMethod: buffer.readUInt16LE(offset + 10),
+                compressedSize: buffer.readUInt32LE(offset + 20),
+                uncompressedSize: buffer.readUInt32LE(offset + 24),
+                localHeaderOffset: buffer.readUInt32LE(offset + 42),
+                encrypted: (flags & 0x1) !== 0,
+            });
+
+            offset += 46 + nameLength + extraLength + commentLength;
+        }
+
+        return entries;
+    }
+}